@@ -2,9 +2,10 @@
  * NCC Processor Component
  *
  * Converts NCC DOCX files to Excel with minimal columns
+ * Files are processed as background jobs; progress is polled per phase.
  */
 
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import {
   Box,
   Paper,
@@ -18,6 +19,7 @@ import {
   Select,
   MenuItem,
   Stack,
+  Chip,
 } from '@mui/material';
 import {
   Upload as UploadIcon,
@@ -34,13 +36,86 @@ interface ProcessingStats {
   message: string;
 }
 
+interface NCCStats {
+  paragraphs: number;
+  tableCells: number;
+  figures: number;
+  totalRows: number;
+}
+
+// Mirrors NCCQualitySummary in lib/ncc-qa.ts
+interface NCCQualitySummary {
+  row_count: number;
+  flagged_rows: number;
+  warning_counts: { [warning: string]: number };
+  mean_confidence: number;
+  low_confidence_rows: number;
+}
+
 interface NCCResult {
+  jobId: string;
   filename: string;
-  stats: {
-    paragraphs: number;
-    tableCells: number;
-    totalRows: number;
-  };
+  imagesDir: string;
+  stats: NCCStats;
+  qa: NCCQualitySummary | null;
+}
+
+// Mirrors NCCJob in lib/ncc-jobs.ts
+interface NCCJobPhase {
+  id: string;
+  label: string;
+  completed: number;
+  total: number;
+}
+
+interface NCCJob {
+  id: string;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  volume: string;
+  format: 'csv' | 'excel' | 'jsonl' | 'arrow' | 'sqlite' | 'chunks';
+  sourceFile: string;
+  outputFile: string;
+  imagesDir: string;
+  phases: NCCJobPhase[];
+  stats: NCCStats | null;
+  qa: NCCQualitySummary | null;
+  error: string;
+  createdAt: string;
+}
+
+const POLL_INTERVAL_MS = 2000;
+
+const STATUS_COLORS: Record<NCCJob['status'], 'default' | 'info' | 'success' | 'error'> = {
+  queued: 'default',
+  running: 'info',
+  completed: 'success',
+  failed: 'error',
+};
+
+/**
+ * Overall progress (0-100): each phase counts equally
+ */
+function jobProgress(job: NCCJob): number {
+  if (job.status === 'completed') return 100;
+  const fractions = job.phases.map(phase => (phase.total > 0 ? phase.completed / phase.total : 0));
+  return fractions.length > 0 ? (fractions.reduce((sum, f) => sum + f, 0) / fractions.length) * 100 : 0;
+}
+
+/**
+ * Label of the phase currently in progress
+ */
+function currentPhaseLabel(job: NCCJob): string {
+  const phase = job.phases.find(p => p.total === 0 || p.completed < p.total);
+  return phase ? `${phase.label}${phase.total > 0 ? ` (${phase.completed}/${phase.total})` : ''}` : 'Finishing';
+}
+
+function downloadJobOutput(job: NCCJob) {
+  const link = document.createElement('a');
+  link.href = `/api/ncc-jobs/${job.id}/download`;
+  link.download = job.outputFile;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
 }
 
 export default function NCCProcessor() {
@@ -50,6 +125,60 @@ export default function NCCProcessor() {
   const [error, setError] = useState<string | null>(null);
   const [processingStats, setProcessingStats] = useState<ProcessingStats | null>(null);
   const [result, setResult] = useState<NCCResult | null>(null);
+  const [jobs, setJobs] = useState<NCCJob[]>([]);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+
+  const refreshJobs = useCallback(async () => {
+    try {
+      const response = await fetch('/api/ncc-jobs');
+      if (!response.ok) return;
+      const data = await response.json();
+      setJobs(data.jobs);
+    } catch (err) {
+      console.warn('[NCC Processor] Failed to load jobs:', err);
+    }
+  }, []);
+
+  // Load existing jobs on mount, then poll while any job is queued or running
+  const hasPendingJobs = jobs.some(job => job.status === 'queued' || job.status === 'running');
+  useEffect(() => {
+    refreshJobs();
+  }, [refreshJobs]);
+  useEffect(() => {
+    if (!hasPendingJobs && !activeJobId) return;
+    const timer = setInterval(refreshJobs, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasPendingJobs, activeJobId, refreshJobs]);
+
+  // Follow the job submitted from this page until it finishes
+  useEffect(() => {
+    if (!activeJobId) return;
+    const job = jobs.find(j => j.id === activeJobId);
+    if (!job) return;
+
+    if (job.status === 'completed' && job.stats) {
+      setActiveJobId(null);
+      setLoading(false);
+      downloadJobOutput(job);
+      setResult({ jobId: job.id, filename: job.outputFile, imagesDir: job.imagesDir || '', stats: job.stats, qa: job.qa || null });
+      setProcessingStats({
+        stage: 'Complete',
+        message: `Successfully exported ${job.stats.totalRows} rows (${job.stats.paragraphs} paragraphs, ${job.stats.tableCells} table cells, ${job.stats.figures || 0} figures) to ${job.format.toUpperCase()}`,
+      });
+    } else if (job.status === 'failed') {
+      setActiveJobId(null);
+      setLoading(false);
+      setError(job.error || 'An error occurred during processing');
+      setProcessingStats(null);
+    } else {
+      setProcessingStats({
+        stage: job.status === 'queued' ? 'Queued...' : 'Processing...',
+        message: job.status === 'queued' ? 'Waiting for earlier jobs to finish' : currentPhaseLabel(job),
+      });
+    }
+  }, [jobs, activeJobId]);
+
+  const activeJob = activeJobId ? jobs.find(j => j.id === activeJobId) : undefined;
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -64,7 +193,7 @@ export default function NCCProcessor() {
     }
   };
 
-  const handleProcess = async (format: 'excel' | 'csv' = 'excel') => {
+  const handleProcess = async (format: 'excel' | 'csv' | 'jsonl' | 'arrow' | 'sqlite' | 'chunks' = 'excel') => {
     if (!selectedFile) {
       setError('Please select a file first');
       return;
@@ -81,9 +210,7 @@ export default function NCCProcessor() {
       formData.append('volume', volume);
       formData.append('format', format);
 
-      setProcessingStats({ stage: 'Processing...', message: `Converting DOCX to ${format.toUpperCase()}` });
-
-      const response = await fetch('/api/process-ncc-to-excel', {
+      const response = await fetch('/api/ncc-jobs', {
         method: 'POST',
         body: formData,
       });
@@ -93,45 +220,15 @@ export default function NCCProcessor() {
         throw new Error(errorData.error || 'Processing failed');
       }
 
+      // Processing continues in the background; progress is picked up by polling
       const data = await response.json();
-      
-      // Convert base64 buffer to blob
-      const binaryString = atob(format === 'csv' ? data.csvBuffer : data.excelBuffer);
-      const bytes = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-      }
-      
-      const mimeType = format === 'csv' 
-        ? 'text/csv' 
-        : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
-      
-      const blob = new Blob([bytes], { type: mimeType });
-
-      // Create download link
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = data.filename;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
-
-      setResult({
-        filename: data.filename,
-        stats: data.stats,
-      });
-
-      setProcessingStats({
-        stage: 'Complete',
-        message: `Successfully exported ${data.stats.totalRows} rows (${data.stats.paragraphs} paragraphs, ${data.stats.tableCells} table cells) to ${format.toUpperCase()}`,
-      });
+      setActiveJobId(data.jobId);
+      setProcessingStats({ stage: 'Queued...', message: `Converting DOCX to ${format.toUpperCase()}` });
+      await refreshJobs();
 
     } catch (err: any) {
       setError(err.message || 'An error occurred during processing');
       setProcessingStats(null);
-    } finally {
       setLoading(false);
     }
   };
@@ -230,6 +327,46 @@ export default function NCCProcessor() {
           >
             Export to CSV
           </Button>
+
+          <Button
+            variant="outlined"
+            onClick={() => handleProcess('jsonl')}
+            disabled={!selectedFile || loading}
+            startIcon={loading ? <CircularProgress size={20} /> : <DownloadIcon />}
+            fullWidth
+          >
+            Export to JSONL
+          </Button>
+
+          <Button
+            variant="outlined"
+            onClick={() => handleProcess('arrow')}
+            disabled={!selectedFile || loading}
+            startIcon={loading ? <CircularProgress size={20} /> : <DownloadIcon />}
+            fullWidth
+          >
+            Export to Arrow
+          </Button>
+
+          <Button
+            variant="outlined"
+            onClick={() => handleProcess('sqlite')}
+            disabled={!selectedFile || loading}
+            startIcon={loading ? <CircularProgress size={20} /> : <DownloadIcon />}
+            fullWidth
+          >
+            Export to SQLite
+          </Button>
+
+          <Button
+            variant="outlined"
+            onClick={() => handleProcess('chunks')}
+            disabled={!selectedFile || loading}
+            startIcon={loading ? <CircularProgress size={20} /> : <DownloadIcon />}
+            fullWidth
+          >
+            Export RAG Chunks
+          </Button>
         </Stack>
         
         {!selectedFile && (
@@ -243,7 +380,11 @@ export default function NCCProcessor() {
             <Typography variant="body2" color="text.secondary" gutterBottom>
               {processingStats.stage}
             </Typography>
-            <LinearProgress variant="indeterminate" sx={{ mb: 1 }} />
+            <LinearProgress
+              variant={activeJob && activeJob.status === 'running' ? 'determinate' : 'indeterminate'}
+              value={activeJob ? jobProgress(activeJob) : 0}
+              sx={{ mb: 1 }}
+            />
             <Typography variant="caption" color="text.secondary">
               {processingStats.message}
             </Typography>
@@ -293,6 +434,15 @@ export default function NCCProcessor() {
               </Typography>
             </Box>
 
+            <Box>
+              <Typography variant="subtitle2" color="text.secondary">
+                Figures
+              </Typography>
+              <Typography variant="h6">
+                {(result.stats.figures || 0).toLocaleString()}
+              </Typography>
+            </Box>
+
             <Box>
               <Typography variant="subtitle2" color="text.secondary">
                 Output File
@@ -300,7 +450,80 @@ export default function NCCProcessor() {
               <Typography variant="body1">
                 {result.filename}
               </Typography>
+              {result.imagesDir && (
+                <Typography variant="body2" color="text.secondary">
+                  Figure images saved to output/{result.imagesDir}/
+                </Typography>
+              )}
             </Box>
+
+            {result.qa && (
+              <Box>
+                <Typography variant="subtitle2" color="text.secondary">
+                  Extraction QA
+                </Typography>
+                <Typography variant="body1">
+                  {result.qa.flagged_rows.toLocaleString()} of {result.qa.row_count.toLocaleString()} rows flagged · mean confidence {result.qa.mean_confidence}
+                </Typography>
+                <Typography variant="body2">
+                  <a href={`/api/ncc-jobs/${result.jobId}/download?file=qa-html`} target="_blank" rel="noreferrer">
+                    Open QA report
+                  </a>
+                </Typography>
+              </Box>
+            )}
+          </Stack>
+        </Paper>
+      )}
+
+      {/* Jobs */}
+      {jobs.length > 0 && (
+        <Paper sx={{ p: 3, mb: 3 }}>
+          <Typography variant="h6" gutterBottom>
+            Jobs
+          </Typography>
+
+          <Stack spacing={2} mt={2}>
+            {jobs.map(job => (
+              <Box key={job.id}>
+                <Stack direction="row" spacing={2} alignItems="center">
+                  <Chip label={job.status} color={STATUS_COLORS[job.status]} size="small" />
+                  <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+                    <Typography variant="body2" noWrap>
+                      <strong>{job.sourceFile}</strong> ({job.volume}, {job.format.toUpperCase()})
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {new Date(job.createdAt).toLocaleString()}
+                      {job.stats && ` · ${job.stats.totalRows.toLocaleString()} rows`}
+                    </Typography>
+                  </Box>
+                  {job.status === 'completed' && (
+                    <Button
+                      size="small"
+                      startIcon={<DownloadIcon />}
+                      onClick={() => downloadJobOutput(job)}
+                    >
+                      Download
+                    </Button>
+                  )}
+                </Stack>
+
+                {job.status === 'running' && (
+                  <Box sx={{ mt: 1 }}>
+                    <LinearProgress variant="determinate" value={jobProgress(job)} />
+                    <Typography variant="caption" color="text.secondary">
+                      {currentPhaseLabel(job)}
+                    </Typography>
+                  </Box>
+                )}
+
+                {job.status === 'failed' && (
+                  <Typography variant="caption" color="error">
+                    {job.error}
+                  </Typography>
+                )}
+              </Box>
+            ))}
           </Stack>
         </Paper>
       )}
@@ -316,7 +539,8 @@ export default function NCCProcessor() {
             <li><strong>row_type</strong> - paragraph or table_cell</li>
             <li><strong>heading_level</strong> - H1, H2, H3, H4, or blank</li>
             <li><strong>heading_text</strong> - Heading text (if applicable)</li>
-            <li><strong>unit_type</strong> - PERFORMANCE_REQUIREMENT, DTS_PROVISION, VERIFICATION_METHOD, EVIDENCE_OF_SUITABILITY, DEFINITION, or OTHER</li>
+            <li><strong>unit_type</strong> - Read from the NCC label (P, D, V, O, F, G, E), e.g. PERFORMANCE_REQUIREMENT, DTS_PROVISION, VERIFICATION_METHOD, OBJECTIVE, SPECIFICATION_CLAUSE, TABLE, or OTHER</li>
+            <li><strong>extract_confidence</strong> - Classification confidence (0-1): label grammar is highest, text cues lower</li>
             <li><strong>clause_ref</strong> - Extracted clause reference (e.g., H4D3, P2.1) or blank</li>
             <li><strong>text</strong> - The actual content text</li>
             <li><strong>source_location</strong> - Paragraph index or table location for tracing</li>
@@ -909,7 +909,7 @@ export default function WordProcessor() {
                     </Typography>
                     <br />
                     <Typography variant="caption" component="span" sx={{ mt: 1, display: 'block' }}>
-                      Enable "Show Document Preview" above to view the document.
+                      Enable &quot;Show Document Preview&quot; above to view the document.
                     </Typography>
                   </Typography>
                 </Box>
@@ -0,0 +1,92 @@
+/**
+ * Test fixtures: extraction rows and the NCC rows converted from them
+ */
+
+import { convertToCSVFormat, ExcelRow } from '@/lib/ncc-pipeline';
+import { NCCEdition } from '@/lib/ncc-edition';
+import { NCCRow } from '@/lib/ncc-schema';
+
+export const TEST_EDITION: NCCEdition = {
+  docId: 'ncc2022',
+  year: '2022',
+  amendment: '',
+  editionLabel: 'NCC 2022',
+  versionDate: '',
+  title: '',
+  revision: '',
+  source: 'default',
+};
+
+let paragraph = 0;
+
+export function excelRow(fields: Partial<ExcelRow>): ExcelRow {
+  paragraph++;
+  return {
+    volume: 'Vol1',
+    row_type: 'paragraph',
+    heading_level: '',
+    heading_text: '',
+    unit_type: 'OTHER',
+    extract_confidence: 0.95,
+    clause_ref: '',
+    text: '',
+    source_location: `para_${paragraph}_to_${paragraph}`,
+    ncc_topic_discipline: '',
+    table_grid_json: '',
+    table_key_values: '',
+    asset_type: '',
+    asset_id: '',
+    asset_caption: '',
+    asset_alt_text: '',
+    asset_file: '',
+    table_lte: '',
+    notes: '',
+    parent_clause_ref: '',
+    defined_term: '',
+    italic_phrases: '',
+    page_start: '1',
+    page_end: '1',
+    qa_flags: '',
+    ...fields,
+  };
+}
+
+/**
+ * A labelled clause; its first line is the heading
+ */
+export function clause(label: string, unitType: ExcelRow['unit_type'], text: string, fields: Partial<ExcelRow> = {}): ExcelRow {
+  return excelRow({ clause_ref: label, unit_type: unitType, heading_text: text.split('\n')[0], text, ...fields });
+}
+
+export function convertRows(rows: ExcelRow[], volumeLabel = 'Vol1', edition: NCCEdition = TEST_EDITION): NCCRow[] {
+  return convertToCSVFormat(rows, volumeLabel, 'test.docx', edition);
+}
+
+export function rowByAnchor(rows: NCCRow[], anchorId: string): NCCRow {
+  const row = rows.find(candidate => candidate.anchor_id === anchorId);
+  if (!row) throw new Error(`No row ${anchorId}`);
+  return row;
+}
+
+/**
+ * A small Part D2: a PR, a DTS clause with a table, and a state variation
+ */
+export function sampleNCCRows(volumeLabel = 'Vol1'): NCCRow[] {
+  return convertRows(
+    [
+      clause('D2P1', 'PERFORMANCE_REQUIREMENT', 'D2P1 Evacuation\nOccupants must be able to evacuate safely.'),
+      clause('D2D2', 'DTS_PROVISION', 'D2D2 Widths\nPerformance Requirement D2P1 is satisfied; "exit" widths must be not less than 1 m.\nSee Table D2D2.', {
+        ncc_topic_discipline: 'Fire, Egress',
+      }),
+      clause('table D2D2', 'TABLE', 'Table D2D2 Minimum widths', {
+        asset_type: 'TABLE',
+        asset_id: 'Table D2D2',
+        parent_clause_ref: 'D2D2',
+        table_grid_json: JSON.stringify([{ headers: ['Class', 'Width (m)'], rows: [['3', '1']] }]),
+        table_key_values: 'CLASS=3|WIDTH=1 m',
+      }),
+      clause('NSW D2D2', 'DTS_PROVISION', 'NSW D2D2 Widths\nDelete D2D2 and replace with the following.'),
+    ],
+    volumeLabel
+  );
+}
@@ -0,0 +1,27 @@
+import { tableFromIPC } from 'apache-arrow';
+import { describe, expect, it } from 'vitest';
+import { createArrowBuffer } from '@/lib/ncc-arrow';
+import { NCC_COLUMN_NAMES, NCC_SCHEMA_VERSION } from '@/lib/ncc-schema';
+import { sampleNCCRows } from '@/lib/__fixtures__/ncc-rows';
+
+describe('createArrowBuffer', () => {
+  const rows = sampleNCCRows();
+  const table = tableFromIPC(createArrowBuffer(rows));
+
+  it('writes every row with the schema columns and version', () => {
+    expect(table.numRows).toBe(rows.length);
+    expect(table.schema.fields.map(field => field.name)).toEqual(NCC_COLUMN_NAMES);
+    expect(table.schema.metadata.get('ncc.schema_version')).toBe(NCC_SCHEMA_VERSION);
+  });
+
+  it('keeps column types: numbers, booleans, and JSON text marked as JSON', () => {
+    const d2p1 = rows.findIndex(row => row.anchor_id === 'VOL1::D2P1');
+    const volume = rows.findIndex(row => row.anchor_id === 'VOL1');
+
+    expect(table.getChild('extract_confidence')!.get(d2p1)).toBe(rows[d2p1].extract_confidence);
+    expect(table.getChild('extract_confidence')!.get(volume)).toBeNull();
+    expect(table.getChild('indexable')!.get(volume)).toBe(false);
+    expect(table.schema.fields.find(field => field.name === 'table_grid_json')!.metadata.get('ncc.type')).toBe('json');
+    expect(table.getChild('anchor_id')!.toArray()).toEqual(rows.map(row => row.anchor_id));
+  });
+});
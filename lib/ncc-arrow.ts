@@ -0,0 +1,49 @@
+/**
+ * Arrow IPC Export
+ *
+ * Writes NCC rows as an Apache Arrow IPC file (.arrow), which pandas, polars
+ * and DuckDB read with column types intact - no CSV parsing in notebooks.
+ * Column order and types come from lib/ncc-schema:
+ * - string -> Utf8 (empty strings are kept)
+ * - number -> Float64 (empty values, e.g. extract_confidence on structural rows, are null)
+ * - boolean -> Bool
+ * - json -> Utf8 holding the JSON text, marked with field metadata "ncc.type" = "json"
+ *
+ * The schema version is stored in the file's metadata ("ncc.schema_version").
+ */
+
+import { Bool, DataType, Field, Float64, Schema, Table, Utf8, Vector, tableToIPC, vectorFromArray } from 'apache-arrow';
+import { assertNCCRows, NCC_COLUMNS, NCC_COLUMN_NAMES, NCC_SCHEMA_VERSION, NCCColumnType, NCCRow } from '@/lib/ncc-schema';
+
+function arrowType(type: NCCColumnType): DataType {
+  if (type === 'number') return new Float64();
+  if (type === 'boolean') return new Bool();
+  return new Utf8();
+}
+
+/**
+ * Arrow table for a set of NCC rows
+ */
+export function toArrowTable(rows: NCCRow[]): Table {
+  assertNCCRows(rows);
+
+  const fields: Field[] = [];
+  const vectors: { [name: string]: Vector } = {};
+  for (const name of NCC_COLUMN_NAMES) {
+    const column = NCC_COLUMNS[name];
+    const type = arrowType(column.type);
+    const values = rows.map(row => (column.type === 'number' && row[name] === '' ? null : row[name]));
+    fields.push(new Field(name, type, column.type === 'number', column.type === 'json' ? new Map([['ncc.type', 'json']]) : undefined));
+    vectors[name] = vectorFromArray(values, type);
+  }
+
+  const schema = new Schema(fields, new Map([['ncc.schema_version', NCC_SCHEMA_VERSION]]));
+  return new Table(schema, vectors);
+}
+
+/**
+ * NCC rows as the bytes of an Arrow IPC file
+ */
+export function createArrowBuffer(rows: NCCRow[]): Buffer {
+  return Buffer.from(tableToIPC(toArrowTable(rows), 'file'));
+}
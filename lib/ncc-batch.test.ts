@@ -0,0 +1,40 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { checkBatchEditions, processNCCBatch } from '@/lib/ncc-batch';
+
+// A DOCX with nothing but the core title the edition is read from
+async function docxTitled(title: string): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file('docProps/core.xml', `<cp:coreProperties><dc:title>${title}</dc:title></cp:coreProperties>`);
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+describe('checkBatchEditions', () => {
+  it('accepts volumes of one edition', async () => {
+    const inputs = [
+      { volume: 'Vol1', buffer: await docxTitled('NCC 2022 Volume One'), sourceFile: 'vol1.docx' },
+      { volume: 'Vol2', buffer: await docxTitled('NCC 2022 Volume Two'), sourceFile: 'vol2.docx' },
+    ];
+    expect(await checkBatchEditions(inputs)).toBeNull();
+  });
+
+  it('names each volume and its doc_id when editions differ', async () => {
+    const inputs = [
+      { volume: 'Vol1', buffer: await docxTitled('NCC 2022 Volume One'), sourceFile: 'vol1.docx' },
+      { volume: 'Vol2', buffer: await docxTitled('NCC 2019 Volume Two Amendment 1'), sourceFile: 'vol2.docx' },
+    ];
+    expect(await checkBatchEditions(inputs)).toBe('Volumes come from different editions: Vol1 (ncc2022), Vol2 (ncc2019_a1)');
+  });
+});
+
+describe('processNCCBatch', () => {
+  it('fails before converting volumes of different editions', async () => {
+    const inputs = [
+      { volume: 'Vol1', buffer: await docxTitled('NCC 2022 Volume One'), sourceFile: 'vol1.docx' },
+      { volume: 'Vol3', buffer: await docxTitled('NCC 2019 Volume Three'), sourceFile: 'vol3.docx' },
+    ];
+    await expect(processNCCBatch(inputs, { outputDir: 'output/unused', splitOversized: true })).rejects.toThrow(
+      'Volumes come from different editions'
+    );
+  });
+});
@@ -0,0 +1,340 @@
+/**
+ * Multi-Volume Batch Processing
+ *
+ * Processes Volumes One, Two and Three (and optionally the ABCB Housing
+ * Provisions) in one run and writes a single dataset for the whole NCC
+ * corpus, plus a manifest describing it:
+ * - every row uses the volume labels from lib/ncc-volumes and the doc_id read
+ *   from its DOCX (lib/ncc-edition); volumes from different editions fail the batch
+ * - dataset_coverage lists the volumes in the dataset
+ * - references that don't resolve in their own volume are resolved against the
+ *   other volumes ("D2D1 of Volume One", labels that exist in exactly one other
+ *   volume, and "ABCB Housing Provisions" -> the HP volume row)
+ *
+ * Volumes are converted one after another; only their CSV rows are kept.
+ * Figure images of every volume are saved to images/ next to the dataset,
+ * and an extraction QA report for the whole dataset to qa_report.json/.html.
+ * With the sqlite option the dataset is also written as one SQLite database,
+ * with the ragChunks option as RAG chunks (lib/ncc-rag) to <doc_id>_chunks.jsonl.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { extractNCCRows, convertToCSVFormat, writeCSV, CSVFormatOptions, NCCStats } from '@/lib/ncc-pipeline';
+import { extractVolumeQualifiedRefs } from '@/lib/ncc-references';
+import { NCC_VOLUMES, volumeAnchorPrefix } from '@/lib/ncc-volumes';
+import { readNCCEdition, NCCEdition } from '@/lib/ncc-edition';
+import { buildQualityReport, summarizeQuality, writeQualityReport, NCCQualitySummary } from '@/lib/ncc-qa';
+import { NCC_COLUMN_NAMES, NCC_SCHEMA_VERSION, NCCRow } from '@/lib/ncc-schema';
+import { writeSQLite } from '@/lib/ncc-sqlite';
+import { buildRagChunks, writeRagChunks, NCCRagChunkOptions } from '@/lib/ncc-rag';
+
+export const BATCH_MANIFEST_FILE = 'manifest.json';
+export const BATCH_IMAGES_DIR = 'images';
+export const BATCH_QA_REPORT = 'qa_report';
+
+export interface NCCBatchInput {
+  volume: string; // Volume label, e.g. "Vol1" or "HP"
+  buffer: Buffer;
+  sourceFile: string;
+}
+
+export interface NCCBatchOptions {
+  outputDir: string; // Directory for the dataset and manifest (created if missing)
+  splitOversized: boolean;
+  csvFormat?: CSVFormatOptions;
+  sqlite?: boolean; // Also write the dataset as a SQLite database (lib/ncc-sqlite)
+  ragChunks?: NCCRagChunkOptions; // Also write RAG chunks with this token budget
+}
+
+export interface NCCBatchVolumeSummary {
+  volume: string;
+  title: string;
+  source_file: string;
+  anchor_prefix: string; // e.g. "VOL1" for anchors "VOL1::..."
+  doc_id: string;
+  edition_label: string;
+  version_date: string;
+  first_row: number;     // 1-based data row range in the dataset
+  last_row: number;
+  row_count: number;
+  stats: NCCStats;
+}
+
+export interface NCCBatchManifest {
+  doc_id: string;              // doc_id shared by every volume
+  edition_label: string;
+  generated_at: string;
+  schema_version: string;      // lib/ncc-schema version the dataset was validated against
+  csv_format: { delimiter: string; multiline: boolean; bom: boolean };
+  dataset_file: string;
+  sqlite_file: string;         // SQLite database next to the dataset ('' unless requested)
+  chunks_file: string;         // RAG chunks (JSONL) next to the dataset ('' unless requested)
+  chunk_options: { max_tokens: number; overlap_tokens: number } | null;
+  chunk_count: number;
+  images_dir: string;          // Folder of figure images next to the dataset ('' if none were saved)
+  qa_report_files: string[];   // QA report (JSON, HTML) next to the dataset
+  qa: NCCQualitySummary;
+  sha256: string;
+  row_count: number;
+  columns: string[];
+  coverage: string[];          // Volume labels in dataset order
+  cross_volume_links: number;  // related_unit_ids entries pointing into another volume
+  volumes: NCCBatchVolumeSummary[];
+}
+
+interface BatchVolume {
+  volume: string;
+  sourceFile: string;
+  rows: NCCRow[];
+  stats: NCCStats;
+  edition: NCCEdition;
+}
+
+/**
+ * Label -> anchor for the rows a reference can point at: national clauses and parts
+ */
+function collectRefAnchors(rows: NCCRow[]): Map<string, string> {
+  const anchors = new Map<string, string>();
+  rows.forEach(row => {
+    const anchorId = String(row.anchor_id);
+    // Continuation parts, state variations and table assets resolve through their base clause
+    if (!anchorId || anchorId.indexOf('#') !== -1 || row.state_variation || row.asset_type) return;
+    if (row.unit_type === 'VOLUME' || row.unit_type === 'SECTION') return;
+
+    const label = row.unit_type === 'PART' ? String(row.part_code) : String(row.unit_label).toUpperCase();
+    if (label && !anchors.has(label)) anchors.set(label, anchorId);
+  });
+  return anchors;
+}
+
+/**
+ * Add cross-volume anchors to related_unit_ids
+ *
+ * Own-volume matches (resolved during conversion) win, except for references that
+ * name another volume, which replace the own-volume match for the same label.
+ *
+ * @returns Number of cross-volume links added
+ */
+export function resolveCrossVolumeRefs(volumes: Array<{ volume: string; rows: NCCRow[] }>): number {
+  const anchorsByVolume = new Map<string, Map<string, string>>();
+  volumes.forEach(v => anchorsByVolume.set(v.volume, collectRefAnchors(v.rows)));
+  const housingAnchor = anchorsByVolume.has('HP') ? volumeAnchorPrefix('HP') : '';
+
+  let linked = 0;
+  volumes.forEach(v => {
+    const ownAnchors = anchorsByVolume.get(v.volume)!;
+
+    v.rows.forEach(row => {
+      if (!row.text) return;
+      const related: string[] = row.related_unit_ids ? JSON.parse(String(row.related_unit_ids)) : [];
+      const labels: string[] = row.internal_refs ? JSON.parse(String(row.internal_refs)) : [];
+      const before = related.length;
+      const crossAnchors: string[] = [];
+      const qualifiedLabels = new Set<string>();
+
+      // "D2D1 of Volume One": resolve in the named volume
+      extractVolumeQualifiedRefs(String(row.text)).forEach(ref => {
+        const targetAnchors = anchorsByVolume.get(ref.volume);
+        if (ref.volume === v.volume || !targetAnchors) return;
+        const anchor = targetAnchors.get(ref.label);
+        if (!anchor) return;
+        qualifiedLabels.add(ref.label);
+        crossAnchors.push(anchor);
+      });
+
+      // Unqualified labels missing from this volume: resolve if exactly one other volume has them
+      labels.forEach(label => {
+        if (ownAnchors.has(label) || qualifiedLabels.has(label)) return;
+        const candidates: string[] = [];
+        anchorsByVolume.forEach((anchors, volume) => {
+          if (volume !== v.volume && anchors.has(label)) candidates.push(anchors.get(label)!);
+        });
+        if (candidates.length === 1) crossAnchors.push(candidates[0]);
+      });
+
+      if (housingAnchor && v.volume !== 'HP' && /\bABCB Housing Provisions\b/.test(String(row.standards_referenced))) {
+        crossAnchors.push(housingAnchor);
+      }
+
+      // Drop own-volume matches for labels that explicitly point elsewhere
+      const filtered = related.filter(anchor => {
+        let pointsElsewhere = false;
+        qualifiedLabels.forEach(label => {
+          if (ownAnchors.get(label) === anchor) pointsElsewhere = true;
+        });
+        return !pointsElsewhere;
+      });
+      crossAnchors.forEach(anchor => {
+        if (filtered.indexOf(anchor) === -1) {
+          filtered.push(anchor);
+          linked++;
+        }
+      });
+
+      if (filtered.length !== before || crossAnchors.length > 0) {
+        row.related_unit_ids = filtered.length > 0 ? JSON.stringify(filtered) : '';
+      }
+    });
+  });
+
+  return linked;
+}
+
+/**
+ * SHA-256 of a file, streamed
+ */
+function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('error', reject)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
+
+/**
+ * Error message if the inputs come from different editions, otherwise null
+ * Only the edition metadata is read, so callers can reject a batch before converting it.
+ */
+export async function checkBatchEditions(inputs: NCCBatchInput[]): Promise<string | null> {
+  const docIds: string[] = [];
+  for (const input of inputs) {
+    docIds.push((await readNCCEdition(input.buffer)).docId);
+  }
+  if (docIds.every(docId => docId === docIds[0])) return null;
+  return `Volumes come from different editions: ${inputs.map((input, i) => `${input.volume} (${docIds[i]})`).join(', ')}`;
+}
+
+/**
+ * Process several volumes into one dataset and manifest
+ * Throws if the volumes come from different editions (see checkBatchEditions).
+ */
+export async function processNCCBatch(
+  inputs: NCCBatchInput[],
+  options: NCCBatchOptions
+): Promise<{ datasetPath: string; manifestPath: string; manifest: NCCBatchManifest }> {
+  const editionError = await checkBatchEditions(inputs);
+  if (editionError) throw new Error(editionError);
+
+  // Dataset order follows the registry (Vol1, Vol2, Vol3, HP), not upload order
+  const order = NCC_VOLUMES.map(v => v.label);
+  const sorted = inputs.slice().sort((a, b) => order.indexOf(a.volume) - order.indexOf(b.volume));
+
+  const volumes: BatchVolume[] = [];
+  for (const input of sorted) {
+    console.log(`[NCC Batch] Processing ${input.volume}: ${input.sourceFile}`);
+    const { rows, stats, edition } = await extractNCCRows(input.buffer, {
+      volumeLabel: input.volume,
+      splitOversized: options.splitOversized,
+      imageOutput: { dir: path.join(options.outputDir, BATCH_IMAGES_DIR), relativeDir: BATCH_IMAGES_DIR },
+    });
+    volumes.push({
+      volume: input.volume,
+      sourceFile: input.sourceFile,
+      rows: convertToCSVFormat(rows, input.volume, input.sourceFile, edition),
+      stats,
+      edition,
+    });
+  }
+
+  const coverage = volumes.map(v => v.volume);
+  const edition = volumes.length > 0 ? volumes[0].edition : null;
+  const docId = edition ? edition.docId : '';
+
+  volumes.forEach(v => v.rows.forEach(row => {
+    row.dataset_coverage = coverage.join('|');
+  }));
+
+  const crossVolumeLinks = resolveCrossVolumeRefs(volumes);
+  console.log(`[NCC Batch] Resolved ${crossVolumeLinks} cross-volume reference(s)`);
+
+  fs.mkdirSync(options.outputDir, { recursive: true });
+  const datasetFile = `${docId}_dataset.csv`;
+  const datasetPath = path.join(options.outputDir, datasetFile);
+  const manifestPath = path.join(options.outputDir, BATCH_MANIFEST_FILE);
+
+  const allRows: NCCRow[] = [];
+  const summaries: NCCBatchVolumeSummary[] = [];
+  volumes.forEach(v => {
+    const title = NCC_VOLUMES.find(entry => entry.label === v.volume)?.title || v.volume;
+    summaries.push({
+      volume: v.volume,
+      title,
+      source_file: v.sourceFile,
+      anchor_prefix: volumeAnchorPrefix(v.volume),
+      doc_id: v.edition.docId,
+      edition_label: v.edition.editionLabel,
+      version_date: v.edition.versionDate,
+      first_row: allRows.length + 1,
+      last_row: allRows.length + v.rows.length,
+      row_count: v.rows.length,
+      stats: v.stats,
+    });
+    v.rows.forEach(row => allRows.push(row));
+  });
+
+  const csvFormat = options.csvFormat || {};
+  const out = fs.createWriteStream(datasetPath);
+  await new Promise<void>((resolve, reject) => {
+    out.on('error', reject);
+    writeCSV(allRows, out, csvFormat)
+      .then(() => out.end(() => resolve()))
+      .catch(reject);
+  });
+
+  const qa = summarizeQuality(allRows);
+  let sqliteFile = '';
+  if (options.sqlite) {
+    sqliteFile = `${docId}_dataset.sqlite`;
+    writeSQLite(allRows, path.join(options.outputDir, sqliteFile), { doc_id: docId, coverage: coverage.join('|'), qa_summary: JSON.stringify(qa) });
+  }
+
+  let chunksFile = '';
+  let chunkCount = 0;
+  if (options.ragChunks) {
+    const chunks = buildRagChunks(allRows, options.ragChunks);
+    chunksFile = `${docId}_chunks.jsonl`;
+    chunkCount = chunks.length;
+    const chunksOut = fs.createWriteStream(path.join(options.outputDir, chunksFile));
+    await new Promise<void>((resolve, reject) => {
+      chunksOut.on('error', reject);
+      writeRagChunks(chunks, chunksOut)
+        .then(() => chunksOut.end(() => resolve()))
+        .catch(reject);
+    });
+  }
+
+  const qaReport = buildQualityReport(allRows);
+  const qaFiles = writeQualityReport(qaReport, options.outputDir, BATCH_QA_REPORT);
+
+  const manifest: NCCBatchManifest = {
+    doc_id: docId,
+    edition_label: edition ? edition.editionLabel : '',
+    generated_at: new Date().toISOString(),
+    schema_version: NCC_SCHEMA_VERSION,
+    csv_format: { delimiter: csvFormat.delimiter || ',', multiline: !!csvFormat.multiline, bom: !!csvFormat.bom },
+    dataset_file: datasetFile,
+    sqlite_file: sqliteFile,
+    chunks_file: chunksFile,
+    chunk_options: options.ragChunks
+      ? { max_tokens: options.ragChunks.maxTokens, overlap_tokens: options.ragChunks.overlapTokens }
+      : null,
+    chunk_count: chunkCount,
+    images_dir: fs.existsSync(path.join(options.outputDir, BATCH_IMAGES_DIR)) ? BATCH_IMAGES_DIR : '',
+    qa_report_files: [qaFiles.jsonFile, qaFiles.htmlFile],
+    qa,
+    sha256: await hashFile(datasetPath),
+    row_count: allRows.length,
+    columns: NCC_COLUMN_NAMES,
+    coverage,
+    cross_volume_links: crossVolumeLinks,
+    volumes: summaries,
+  };
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+
+  console.log(`[NCC Batch] ✅ ${allRows.length} rows from ${coverage.join(', ')} written to ${datasetPath}`);
+  return { datasetPath, manifestPath, manifest };
+}
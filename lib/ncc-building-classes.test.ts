@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { extractBuildingClasses, isApplicationClause } from '@/lib/ncc-building-classes';
+
+describe('extractBuildingClasses', () => {
+  it('reads single classes and lists', () => {
+    expect(extractBuildingClasses('applies to a Class 2 or 3 building')).toEqual(['2', '3']);
+    expect(extractBuildingClasses('Classes 5, 6 and 9c buildings')).toEqual(['5', '6', '9c']);
+  });
+
+  it('expands ranges, including ranges that name the class again', () => {
+    expect(extractBuildingClasses('a Class 2 to 9 building')).toEqual(['2', '3', '4', '5', '6', '7a', '7b', '8', '9a', '9b', '9c']);
+    expect(extractBuildingClasses('Class 5 to Class 6')).toEqual(['5', '6']);
+    expect(extractBuildingClasses('Class 9a to 9b')).toEqual(['9a', '9b']);
+  });
+
+  it('expands a class to its subclasses but keeps a named subclass on its own', () => {
+    expect(extractBuildingClasses('a Class 9 building')).toEqual(['9a', '9b', '9c']);
+    expect(extractBuildingClasses('a Class 9b building')).toEqual(['9b']);
+    expect(extractBuildingClasses('a Class 11 building')).toEqual([]);
+  });
+
+  it('removes exclusions, and treats exclusion-only text as every other class', () => {
+    expect(extractBuildingClasses('a Class 9 building other than Class 9c')).toEqual(['9a', '9b']);
+    expect(extractBuildingClasses('This Part does not apply to a Class 10a building')).toEqual(
+      ['1a', '1b', '2', '3', '4', '5', '6', '7a', '7b', '8', '9a', '9b', '9c', '10b', '10c']
+    );
+  });
+
+  it('finds nothing in text without class wording', () => {
+    expect(extractBuildingClasses('Exits must be provided.')).toEqual([]);
+  });
+});
+
+describe('isApplicationClause', () => {
+  it('recognises the unit type or an "Application" title', () => {
+    expect(isApplicationClause('APPLICATION', 'D1D1 Scope')).toBe(true);
+    expect(isApplicationClause('DTS_PROVISION', ' Application of Part D2')).toBe(true);
+    expect(isApplicationClause('DTS_PROVISION', 'D2D2 Widths')).toBe(false);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Building Class Applicability
+ *
+ * Finds the building classes a provision applies to from its wording:
+ * - single classes and lists: "a Class 2 or 3 building", "Classes 2, 3 and 9c"
+ * - ranges: "Class 5 to 9", "Class 9a to 9c"
+ * - subclasses: "Class 9" covers 9a, 9b and 9c; "Class 7a" only 7a
+ * - exclusions: "other than Class 9c", "does not apply to a Class 10a building"
+ *
+ * Classes are always expanded to subclasses (1a, 1b, 7a, 7b, 9a-9c, 10a-10c),
+ * so a project of Class 9b can filter on "9b" alone.
+ */
+
+/**
+ * Every NCC building class, in order
+ */
+export const BUILDING_CLASSES = ['1a', '1b', '2', '3', '4', '5', '6', '7a', '7b', '8', '9a', '9b', '9c', '10a', '10b', '10c'];
+
+const CLASS_TOKEN = '\\d{1,2}[a-c]?';
+const SEPARATOR = '\\s*(?:,|and\\/or|and|or|to|–|-)\\s*(?:Class(?:es)?\\s+)?';
+
+/**
+ * "Class 2", "Classes 2, 3 and 9c", "Class 5 to Class 9"
+ */
+const CLASS_MENTION_PATTERN = new RegExp(`\\bClass(?:es)?\\s+(${CLASS_TOKEN}(?:${SEPARATOR}${CLASS_TOKEN})*)\\b`, 'gi');
+
+/**
+ * Wording just before a mention that makes it an exclusion
+ */
+const EXCLUSION_CONTEXT = /\b(?:other than|except(?: for)?|excluding|but not|not being|not|does not apply to|do not apply to|need not be applied to)(?:\s+(?:in|to|for|a|an|the|any))*\s*$/i;
+
+/**
+ * Subclasses covered by one token: "9" -> 9a, 9b, 9c; "7a" -> 7a; "11" -> none
+ */
+function expandClassToken(token: string): string[] {
+  const normalized = token.toLowerCase();
+  if (BUILDING_CLASSES.indexOf(normalized) !== -1) return [normalized];
+  return BUILDING_CLASSES.filter(cls => cls.replace(/[a-c]$/, '') === normalized);
+}
+
+/**
+ * Classes named by one mention's list, expanding "X to Y" ranges
+ */
+function parseClassList(list: string): string[] {
+  const classes: string[] = [];
+  const tokens = list.match(new RegExp(`${CLASS_TOKEN}|\\bto\\b|–|-`, 'gi')) || [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const current = expandClassToken(tokens[i]);
+    const isRange = i + 2 < tokens.length && /^(to|–|-)$/i.test(tokens[i + 1]);
+    if (isRange) {
+      const end = expandClassToken(tokens[i + 2]);
+      if (current.length > 0 && end.length > 0) {
+        const from = BUILDING_CLASSES.indexOf(current[0]);
+        const to = BUILDING_CLASSES.indexOf(end[end.length - 1]);
+        BUILDING_CLASSES.slice(from, to + 1).forEach(cls => classes.push(cls));
+      }
+      i += 2;
+      continue;
+    }
+    current.forEach(cls => classes.push(cls));
+  }
+  return classes;
+}
+
+/**
+ * Building classes a text applies to, in class order
+ * Exclusions are removed from the classes named; text that only excludes
+ * ("does not apply to a Class 10a building") applies to every other class.
+ */
+export function extractBuildingClasses(text: string): string[] {
+  const included = new Set<string>();
+  const excluded = new Set<string>();
+
+  CLASS_MENTION_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = CLASS_MENTION_PATTERN.exec(text)) !== null) {
+    const before = text.substring(Math.max(0, match.index - 40), match.index);
+    const target = EXCLUSION_CONTEXT.test(before) ? excluded : included;
+    parseClassList(match[1]).forEach(cls => target.add(cls));
+  }
+
+  if (included.size === 0 && excluded.size === 0) return [];
+  return BUILDING_CLASSES.filter(cls => (included.size === 0 || included.has(cls)) && !excluded.has(cls));
+}
+
+/**
+ * Whether a row is its Part's Application clause, whose scope the rest of the Part inherits
+ */
+export function isApplicationClause(unitType: string, title: string): boolean {
+  return unitType === 'APPLICATION' || /^application\b/i.test(title.trim());
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { extractConstants, extractFormulas } from '@/lib/ncc-constants';
+
+describe('extractConstants', () => {
+  it('names limits after their comparator and subject', () => {
+    const [constant] = extractConstants('The distance to an exit must not exceed 40 m.');
+    expect(constant).toEqual({
+      name: 'MAXIMUM_DISTANCE_TO_EXIT',
+      value: '40',
+      unit: 'm',
+      comparator: 'MAXIMUM',
+      raw: 'must not exceed 40 m',
+    });
+  });
+
+  it('reads comparators in any case and dimension words after the value', () => {
+    const [constant] = extractConstants('Not less than 2.4 m high.');
+    expect(constant.name).toBe('MINIMUM_HEIGHT');
+    expect(constant.raw).toBe('Not less than 2.4 m');
+  });
+
+  it('keeps strict bounds apart from inclusive ones', () => {
+    expect(extractConstants('Buildings exceeding 25 m in effective height.')[0].comparator).toBe('MORE_THAN');
+    expect(extractConstants('A floor area of less than 500 m2.')[0].name).toBe('LESS_THAN_FLOOR_AREA');
+    expect(extractConstants('A floor area of not more than 500 m2.')[0].comparator).toBe('MAXIMUM');
+  });
+
+  it('matches units case-sensitively', () => {
+    const constants = extractConstants('A pressure of 40 PA, a 1 M margin and 20 Pa.');
+    expect(constants.map(constant => constant.value + constant.unit)).toEqual(['20Pa']);
+  });
+
+  it('extracts seconds', () => {
+    const [constant] = extractConstants('The alarm must sound within not more than 120 s.');
+    expect(constant.value + constant.unit).toBe('120s');
+    expect(constant.comparator).toBe('MAXIMUM');
+    expect(extractConstants('The door closes on 3 sides.')).toEqual([]);
+  });
+
+  it('skips table blocks', () => {
+    expect(extractConstants('[TABLE]\n| Width | 1000 mm |\n[/TABLE]')).toEqual([]);
+  });
+});
+
+describe('extractFormulas', () => {
+  it('describes variables from the where list', () => {
+    const [formula] = extractFormulas('A = L × W\nwhere:\nL = the length (m)\nW = the width (m)');
+    expect(formula.output).toBe('A');
+    expect(formula.inputs).toEqual(['L', 'W']);
+    expect(formula.variables).toEqual({ L: 'length (m)', W: 'width (m)' });
+  });
+});
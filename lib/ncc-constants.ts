@@ -0,0 +1,278 @@
+/**
+ * Numeric Constants and Formulas
+ *
+ * Turns the numbers in clause prose into data:
+ * - constants: value + unit with a comparator ("not more than 40 m" -> MAXIMUM,
+ *   "at least 1000 mm wide" -> MINIMUM, "more than 25 m" -> MORE_THAN,
+ *   "R-value of 2.8" -> exact) and a normalised name built from the words
+ *   around the value ("MAXIMUM_DISTANCE_TO_EXIT", "MINIMUM_EXIT_WIDTH", "R_VALUE")
+ *   Units are case-sensitive ("m" is metres, "M" is not a unit); comparator
+ *   phrases are not.
+ * - formulas: "Q = 0.8 × A × h" lines, as output, inputs and the variable
+ *   descriptions from the "where:" list that follows them
+ *
+ * Table blocks are skipped; their values live in table_grid_json.
+ */
+
+// MINIMUM/MAXIMUM include the bound ("not less than"), MORE_THAN/LESS_THAN exclude it ("exceeding")
+export type ConstantComparator = 'MINIMUM' | 'MAXIMUM' | 'MORE_THAN' | 'LESS_THAN' | 'EXACT';
+
+export interface NCCConstant {
+  name: string;       // e.g. "MAXIMUM_DISTANCE_TO_EXIT"
+  value: string;      // Number as printed, thousands separators removed, e.g. "1000"
+  unit: string;       // e.g. "mm", "m2", "%" ('' for R-values and similar ratings)
+  comparator: ConstantComparator;
+  raw: string;        // Matched text, e.g. "not more than 40 m"
+}
+
+export interface NCCFormula {
+  formula: string;    // e.g. "A = L × W"
+  output: string;     // e.g. "A"
+  inputs: string[];   // e.g. ["L", "W"]
+  variables: Record<string, string>; // Symbol -> description from the "where:" list
+}
+
+const COMPARATORS: Array<{ phrase: string; comparator: ConstantComparator }> = [
+  { phrase: 'must not exceed', comparator: 'MAXIMUM' },
+  { phrase: 'shall not exceed', comparator: 'MAXIMUM' },
+  { phrase: 'does not exceed', comparator: 'MAXIMUM' },
+  { phrase: 'not to exceed', comparator: 'MAXIMUM' },
+  { phrase: 'not exceeding', comparator: 'MAXIMUM' },
+  { phrase: 'not more than', comparator: 'MAXIMUM' },
+  { phrase: 'no more than', comparator: 'MAXIMUM' },
+  { phrase: 'not greater than', comparator: 'MAXIMUM' },
+  { phrase: 'no greater than', comparator: 'MAXIMUM' },
+  { phrase: 'a maximum of', comparator: 'MAXIMUM' },
+  { phrase: 'maximum of', comparator: 'MAXIMUM' },
+  { phrase: 'up to', comparator: 'MAXIMUM' },
+  { phrase: 'at most', comparator: 'MAXIMUM' },
+  { phrase: 'less than', comparator: 'LESS_THAN' },
+  { phrase: 'within', comparator: 'MAXIMUM' },
+  { phrase: 'not less than', comparator: 'MINIMUM' },
+  { phrase: 'no less than', comparator: 'MINIMUM' },
+  { phrase: 'at least', comparator: 'MINIMUM' },
+  { phrase: 'a minimum of', comparator: 'MINIMUM' },
+  { phrase: 'minimum of', comparator: 'MINIMUM' },
+  { phrase: 'more than', comparator: 'MORE_THAN' },
+  { phrase: 'greater than', comparator: 'MORE_THAN' },
+  { phrase: 'exceeding', comparator: 'MORE_THAN' },
+];
+
+/**
+ * Units and the quantity used to name a constant when the text gives no subject
+ * Longest spellings first so "mm" wins over "m" and "minutes" over "min".
+ */
+const UNITS: Array<{ pattern: string; unit: string; quantity: string }> = [
+  { pattern: 'W\\/m\\.K', unit: 'W/m.K', quantity: 'CONDUCTIVITY' },
+  { pattern: 'W\\/m(?:²|2)', unit: 'W/m2', quantity: 'POWER_DENSITY' },
+  { pattern: 'MJ\\/m(?:²|2)', unit: 'MJ/m2', quantity: 'FIRE_LOAD' },
+  { pattern: 'L\\/s', unit: 'L/s', quantity: 'FLOW_RATE' },
+  { pattern: 'm(?:²|2)', unit: 'm2', quantity: 'AREA' },
+  { pattern: 'm(?:³|3)', unit: 'm3', quantity: 'VOLUME' },
+  { pattern: 'mm', unit: 'mm', quantity: 'LENGTH' },
+  { pattern: 'km', unit: 'km', quantity: 'LENGTH' },
+  { pattern: 'kPa', unit: 'kPa', quantity: 'PRESSURE' },
+  { pattern: 'Pa', unit: 'Pa', quantity: 'PRESSURE' },
+  { pattern: 'kN', unit: 'kN', quantity: 'FORCE' },
+  { pattern: 'kg', unit: 'kg', quantity: 'MASS' },
+  { pattern: 'kW', unit: 'kW', quantity: 'POWER' },
+  { pattern: 'minutes?', unit: 'min', quantity: 'DURATION' },
+  { pattern: 'mins?', unit: 'min', quantity: 'DURATION' },
+  { pattern: 'hours?', unit: 'h', quantity: 'DURATION' },
+  { pattern: 'seconds?', unit: 's', quantity: 'DURATION' },
+  { pattern: 'storeys?', unit: 'storeys', quantity: 'STOREYS' },
+  { pattern: 'lux', unit: 'lux', quantity: 'ILLUMINANCE' },
+  { pattern: 'dB\\(A\\)', unit: 'dB(A)', quantity: 'SOUND_LEVEL' },
+  { pattern: 'dB', unit: 'dB', quantity: 'SOUND_LEVEL' },
+  { pattern: '°C', unit: '°C', quantity: 'TEMPERATURE' },
+  { pattern: '%', unit: '%', quantity: 'PERCENTAGE' },
+  { pattern: 'm', unit: 'm', quantity: 'LENGTH' },
+  { pattern: 'L', unit: 'L', quantity: 'VOLUME' },
+  { pattern: 'W', unit: 'W', quantity: 'POWER' },
+  { pattern: 'N', unit: 'N', quantity: 'FORCE' },
+  { pattern: 's', unit: 's', quantity: 'DURATION' },
+];
+
+/**
+ * Ratings given without a unit: "R-value of 2.8", "Total R-Value 3.2", "SHGC of 0.4"
+ */
+const RATING_PATTERN = /\b((?:Total\s+)?R-?Value|U-?Value|SHGC)\s+(?:of\s+)?(?:(not less than|at least|a minimum of|not more than|a maximum of|less than)\s+)?(\d+(?:\.\d+)?)\b/gi;
+
+const NUMBER = '\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?';
+
+// Case-sensitive, so "1 M" or "40 PA" are not constants
+const CONSTANT_PATTERN = new RegExp(`(${NUMBER})\\s*(${UNITS.map(u => u.pattern).join('|')})(?![A-Za-z0-9²³])`, 'g');
+
+// Comparator phrase right before a value, in any case ("Not less than 2.4 m")
+const COMPARATOR_BEFORE_PATTERN = new RegExp(`\\b(${COMPARATORS.map(c => c.phrase.replace(/ /g, '\\s+')).join('|')})\\s+$`, 'i');
+
+// Characters before a value searched for its comparator (longer than any phrase)
+const COMPARATOR_WINDOW = 40;
+
+/**
+ * Words after the value that name the dimension: "1000 mm wide" -> WIDTH
+ */
+const DIMENSION_WORDS: Record<string, string> = {
+  wide: 'WIDTH', width: 'WIDTH', high: 'HEIGHT', height: 'HEIGHT', above: 'HEIGHT', tall: 'HEIGHT',
+  long: 'LENGTH', length: 'LENGTH', deep: 'DEPTH', depth: 'DEPTH', thick: 'THICKNESS', clear: 'CLEARANCE',
+};
+
+/**
+ * Words that end the subject of a constant: the subject is what comes after them
+ */
+const VERB_WORDS = /^(must|shall|be|is|are|was|were|been|being|have|has|had|may|will|provide|provided|installed|located|comply|complies|not|no|and|or|than|with|if|where|unless|which|that)$/i;
+
+const ARTICLE_WORDS = /^(a|an|the|each|any|every|all|its|their)$/i;
+
+const TRAILING_PREPOSITIONS = /^(of|to|for|in|at|from|by|on|between)$/i;
+
+const TABLE_BLOCK_PATTERN = /\[TABLE\][\s\S]*?\[\/TABLE\]/g;
+
+/**
+ * Value + unit constants in a clause's text, in text order
+ */
+export function extractConstants(text: string): NCCConstant[] {
+  const found: Array<{ position: number; constant: NCCConstant }> = [];
+  const prose = text.replace(TABLE_BLOCK_PATTERN, ' ');
+  const seen = new Set<string>();
+  const add = (position: number, constant: NCCConstant) => {
+    const key = `${constant.name}=${constant.value}${constant.unit}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    found.push({ position, constant });
+  };
+
+  RATING_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = RATING_PATTERN.exec(prose)) !== null) {
+    const comparator = comparatorFor(match[2] || '');
+    add(match.index, {
+      name: joinName([comparator === 'EXACT' ? '' : comparator, match[1].replace(/^Total\s+/i, 'TOTAL_').replace(/-?value$/i, '_VALUE')]),
+      value: match[3],
+      unit: '',
+      comparator,
+      raw: match[0].trim(),
+    });
+  }
+
+  CONSTANT_PATTERN.lastIndex = 0;
+  while ((match = CONSTANT_PATTERN.exec(prose)) !== null) {
+    const unit = UNITS.find(u => new RegExp(`^(?:${u.pattern})$`).test(match![2]))!;
+    const comparatorMatch = prose.substring(Math.max(0, match.index - COMPARATOR_WINDOW), match.index).match(COMPARATOR_BEFORE_PATTERN);
+    const comparator = comparatorFor(comparatorMatch ? comparatorMatch[1] : '');
+    const start = match.index - (comparatorMatch ? comparatorMatch[0].length : 0);
+
+    const following = prose.substring(match.index + match[0].length).match(/^\s+([a-z]+)/i);
+    const dimension = following ? DIMENSION_WORDS[following[1].toLowerCase()] || '' : '';
+    const subject = subjectWords(prose.substring(0, start));
+
+    add(start, {
+      name: joinName([
+        comparator === 'EXACT' ? '' : comparator,
+        ...(subject.length > 0 ? subject : dimension ? [] : [unit.quantity]),
+        dimension,
+      ]),
+      value: match[1].replace(/,/g, ''),
+      unit: unit.unit,
+      comparator,
+      raw: prose.substring(start, match.index + match[0].length).trim(),
+    });
+  }
+
+  return found.sort((a, b) => a.position - b.position).map(entry => entry.constant);
+}
+
+/**
+ * Formulas ("X = expression") in a clause's text, with variable descriptions
+ * from "A = the floor area (m2)" / "A is the floor area" lines
+ */
+export function extractFormulas(text: string): NCCFormula[] {
+  const formulas: NCCFormula[] = [];
+  const descriptions: Record<string, string> = {};
+  const lines = text.replace(TABLE_BLOCK_PATTERN, '\n').split(/\n+/).map(line => line.trim()).filter(Boolean);
+
+  for (const line of lines) {
+    const equation = line.match(/^(?:\(\w+\)\s*)?([A-Za-z][A-Za-z0-9_]{0,8})\s*=\s*(.+?)\s*[.;]?$/);
+    if (equation && isExpression(equation[2])) {
+      formulas.push({
+        formula: `${equation[1]} = ${equation[2]}`,
+        output: equation[1],
+        inputs: expressionSymbols(equation[2]),
+        variables: {},
+      });
+      continue;
+    }
+
+    const definition = line.match(/^([A-Za-z][A-Za-z0-9_]{0,8})\s*(?:=|is|—|–|-)\s+(?:the\s+)?(.+?)\s*[;,.]?(?:\s*and)?$/);
+    if (definition && !isExpression(definition[2])) {
+      descriptions[definition[1]] = definition[2];
+    }
+  }
+
+  formulas.forEach(formula => {
+    [formula.output].concat(formula.inputs).forEach(symbol => {
+      if (descriptions[symbol]) formula.variables[symbol] = descriptions[symbol];
+    });
+  });
+  return formulas;
+}
+
+/**
+ * Comparator of a phrase ("not less than" -> MINIMUM), EXACT when there is none
+ */
+function comparatorFor(phrase: string): ConstantComparator {
+  const normalized = phrase.toLowerCase().replace(/\s+/g, ' ').trim();
+  const entry = COMPARATORS.find(c => c.phrase === normalized);
+  return entry ? entry.comparator : 'EXACT';
+}
+
+/**
+ * Up to four words naming what a value limits, taken from the text before it
+ * "the distance to an exit must not exceed" -> ["distance", "to", "exit"]
+ */
+function subjectWords(before: string): string[] {
+  const clause = before.split(/[.;:,()\n]|\s[—–-]\s/).pop() || '';
+  const words = clause.split(/\s+/).filter(word => /^[A-Za-z][A-Za-z-]*$/.test(word));
+
+  // Drop the verb chain right before the value ("must be", "must have"), then take what precedes it
+  let end = words.length;
+  while (end > 0 && VERB_WORDS.test(words[end - 1])) end--;
+  let start = end;
+  while (start > 0 && !VERB_WORDS.test(words[start - 1])) start--;
+
+  const subject = words.slice(start, end).filter(word => !ARTICLE_WORDS.test(word));
+  while (subject.length > 0 && TRAILING_PREPOSITIONS.test(subject[subject.length - 1])) subject.pop();
+  return subject.slice(-4);
+}
+
+function joinName(parts: string[]): string {
+  return parts
+    .filter(Boolean)
+    .join('_')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Whether the right-hand side of "X = ..." is a calculation rather than prose
+ */
+function isExpression(rhs: string): boolean {
+  if (!/[×*\/+^√·]|\s[x−-]\s|\d\s*[x−-]\s*\d/.test(rhs)) return false;
+  const words = rhs.replace(/\d+(?:\.\d+)?/g, ' ').match(/[A-Za-z]+/g) || [];
+  const longWords = words.filter(word => word.length > 4 && !/^(sqrt|log|exp|min|max)$/i.test(word));
+  return longWords.length <= 1;
+}
+
+/**
+ * Symbols used in an expression: "0.8 × A × (T1 − T2)" -> ["A", "T1", "T2"]
+ */
+function expressionSymbols(expression: string): string[] {
+  const symbols: string[] = [];
+  const tokens = expression.match(/[A-Za-z][A-Za-z0-9_]*/g) || [];
+  tokens.forEach(token => {
+    if (token === 'x' || /^(sqrt|ln|log|exp|min|max)$/i.test(token)) return;
+    if (symbols.indexOf(token) === -1) symbols.push(token);
+  });
+  return symbols;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { diffEditions, diffWords, parseCSV } from '@/lib/ncc-diff';
+import { CSVRow } from '@/lib/ncc-pipeline';
+
+const row = (anchorId: string, unitLabel: string, text: string, title = unitLabel): CSVRow => ({
+  anchor_id: anchorId,
+  volume: 'Vol1',
+  unit_label: unitLabel,
+  unit_type: 'DTS_PROVISION',
+  title,
+  text,
+});
+
+describe('diffWords', () => {
+  it('marks removed and added words', () => {
+    expect(diffWords('exits must be 1 m wide', 'exits must be 1.2 m wide')).toEqual([
+      { op: 'equal', text: 'exits must be' },
+      { op: 'delete', text: '1' },
+      { op: 'insert', text: '1.2' },
+      { op: 'equal', text: 'm wide' },
+    ]);
+  });
+});
+
+describe('parseCSV', () => {
+  it('reads quoted fields, line breaks and the delimiter of the header', () => {
+    expect(parseCSV('\ufeffa;b\n"x;1";"line\nbreak ""quoted"""\n')).toEqual([{ a: 'x;1', b: 'line\nbreak "quoted"' }]);
+  });
+});
+
+describe('diffEditions', () => {
+  it('classifies changed, renumbered, added and removed clauses', () => {
+    const oldRows = [
+      row('VOL1::D2D1', 'D2D1', 'Exits must be 1 m wide.'),
+      row('VOL1::D2D2', 'D2D2', 'Doors must swing in the direction of travel to the exit.'),
+      row('VOL1::D2D3', 'D2D3', 'Ramps are removed in the new edition.'),
+    ];
+    const newRows = [
+      row('VOL1::D2D1', 'D2D1', 'Exits must be 1.2 m wide.'),
+      row('VOL1::D2D4', 'D2D4', 'Doors must swing in the direction of travel to the exit.', 'D2D2'),
+      row('VOL1::D2D5', 'D2D5', 'A brand new clause about lifts.'),
+    ];
+    const diff = diffEditions(oldRows, newRows);
+
+    expect(diff.summary).toEqual({ ADDED: 1, REMOVED: 1, RENUMBERED: 1, CHANGED: 1, UNCHANGED: 0 });
+    expect(diff.changes.map(change => `${change.change_type} ${change.old_unit_label}>${change.new_unit_label}`)).toEqual([
+      'CHANGED D2D1>D2D1',
+      'RENUMBERED D2D2>D2D4',
+      'REMOVED D2D3>',
+      'ADDED >D2D5',
+    ]);
+    expect(diff.changes[0].word_diff).toBe('Exits must be [-1-] {+1.2+} m wide.');
+  });
+
+  it('joins continuation parts back into their clause', () => {
+    const oldRows = [row('VOL1::S5C2', 'S5C2', 'First half. Second half.')];
+    const newRows = [row('VOL1::S5C2', 'S5C2', 'First half.'), row('VOL1::S5C2#part2', 'S5C2', 'Second half.')];
+    const diff = diffEditions(oldRows, newRows);
+
+    expect(diff.summary.UNCHANGED).toBe(1);
+    expect(diff.changes).toEqual([]);
+    expect(diff.duplicate_anchors).toEqual({ old: [], new: [] });
+  });
+
+  it('keeps rows that repeat an anchor apart and reports them', () => {
+    const oldRows = [row('VOL1::D2D1', 'D2D1', 'Exits must be 1 m wide.')];
+    const newRows = [row('VOL1::D2D1', 'D2D1', 'Exits must be 1 m wide.'), row('VOL1::D2D1', 'D2D1', 'Stray text picked up under the same label.')];
+    const diff = diffEditions(oldRows, newRows);
+
+    expect(diff.summary).toMatchObject({ UNCHANGED: 1, ADDED: 1 });
+    expect(diff.changes[0].new_text).toBe('Stray text picked up under the same label.');
+    expect(diff.duplicate_anchors).toEqual({ old: [], new: ['VOL1::D2D1'] });
+  });
+});
@@ -0,0 +1,440 @@
+/**
+ * NCC Edition Diffing
+ *
+ * Compares two processed editions (or amendments) clause by clause:
+ * 1. Rows are matched by anchor_id, then by volume + unit_label
+ * 2. Unmatched rows of the same volume and unit type are paired by text
+ *    similarity (renumbered clauses), above FUZZY_MATCH_THRESHOLD
+ * 3. Matched rows with different text get a word-level diff
+ *
+ * Works on CSV rows from convertToCSVFormat, whether parsed from a CSV export
+ * or produced from a DOCX in the same run. Continuation parts ("#part2") are
+ * joined back into their clause; structural rows (Volume/Section/Part) are ignored.
+ * Other rows that repeat an anchor are kept as separate clauses, matched by label
+ * or text, and reported in duplicate_anchors.
+ *
+ * Deterministic - no AI/LLM.
+ */
+
+import { CSVRow, CSV_DELIMITERS } from '@/lib/ncc-pipeline';
+
+export type ClauseChangeType = 'ADDED' | 'REMOVED' | 'RENUMBERED' | 'CHANGED' | 'UNCHANGED';
+export type MatchMethod = '' | 'anchor_id' | 'unit_label' | 'fuzzy';
+
+export interface WordDiffOp {
+  op: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface ClauseChange {
+  change_type: ClauseChangeType;
+  volume: string;
+  unit_type: string;
+  old_anchor_id: string;
+  new_anchor_id: string;
+  old_unit_label: string;
+  new_unit_label: string;
+  title: string;
+  match_method: MatchMethod;
+  similarity: number;   // 0-1 word similarity of the matched texts (1 if unchanged, 0 if unmatched)
+  words_added: number;
+  words_removed: number;
+  word_diff: string;    // "kept [-removed-] {+added+} kept"
+  old_text: string;
+  new_text: string;
+}
+
+// Column order of the change-log CSV
+export const CHANGE_LOG_COLUMNS: Array<keyof ClauseChange> = [
+  'change_type', 'volume', 'unit_type', 'old_anchor_id', 'new_anchor_id', 'old_unit_label', 'new_unit_label',
+  'title', 'match_method', 'similarity', 'words_added', 'words_removed', 'word_diff', 'old_text', 'new_text',
+];
+
+export interface EditionDiff {
+  summary: Record<ClauseChangeType, number>;
+  changes: ClauseChange[]; // New edition order, removed clauses after their old predecessor
+  duplicate_anchors: { old: string[]; new: string[] }; // Anchors on more than one clause (not continuation parts)
+}
+
+export interface EditionDiffOptions {
+  includeUnchanged?: boolean; // Keep UNCHANGED entries in changes (default false)
+}
+
+/**
+ * Minimum word similarity for pairing a removed clause with an added one
+ */
+export const FUZZY_MATCH_THRESHOLD = 0.6;
+
+// Word diffs beyond this many DP cells (after trimming common prefix/suffix) fall back to replace-all
+const MAX_DIFF_CELLS = 4000000;
+
+interface DiffUnit {
+  anchorId: string;
+  volume: string;
+  unitLabel: string;
+  unitType: string;
+  title: string;
+  text: string;
+  order: number;
+}
+
+const STRUCTURAL_TYPES = ['VOLUME', 'SECTION', 'PART'];
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, doubled quotes, line breaks inside quotes)
+ * The delimiter is whichever of CSV_DELIMITERS occurs most in the header line.
+ */
+export function parseCSV(content: string): CSVRow[] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const text = content.charCodeAt(0) === 0xfeff ? content.substring(1) : content;
+
+  const headerEnd = text.search(/[\r\n]/);
+  const headerLine = headerEnd === -1 ? text : text.substring(0, headerEnd);
+  let delimiter = ',';
+  let delimiterCount = 0;
+  Object.keys(CSV_DELIMITERS).forEach(name => {
+    const count = headerLine.split(CSV_DELIMITERS[name]).length - 1;
+    if (count > delimiterCount) {
+      delimiter = CSV_DELIMITERS[name];
+      delimiterCount = count;
+    }
+  });
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const header = records.shift() || [];
+  return records
+    .filter(values => values.length > 1 || values[0])
+    .map(values => {
+      const row: CSVRow = {};
+      header.forEach((column, idx) => {
+        row[column] = values[idx] !== undefined ? values[idx] : '';
+      });
+      return row;
+    });
+}
+
+/**
+ * Clause-level units: continuation parts joined, structural rows dropped
+ * A repeated anchor without a "#partN" suffix starts a unit of its own and is listed in duplicates.
+ */
+function toDiffUnits(rows: CSVRow[]): { units: DiffUnit[]; duplicates: string[] } {
+  const units: DiffUnit[] = [];
+  const duplicates: string[] = [];
+  const byAnchor = new Map<string, DiffUnit>();
+
+  rows.forEach(row => {
+    const anchor = String(row.anchor_id || '');
+    if (!anchor || STRUCTURAL_TYPES.indexOf(String(row.unit_type)) !== -1) return;
+
+    const baseAnchor = anchor.replace(/#part\d+$/, '');
+    const text = String(row.text || '');
+    const existing = byAnchor.get(baseAnchor);
+    if (existing && anchor !== baseAnchor) {
+      existing.text = existing.text ? `${existing.text} ${text}` : text;
+      return;
+    }
+    if (existing && duplicates.indexOf(baseAnchor) === -1) duplicates.push(baseAnchor);
+
+    const unit: DiffUnit = {
+      anchorId: baseAnchor,
+      volume: String(row.volume || ''),
+      unitLabel: String(row.unit_label || ''),
+      unitType: String(row.unit_type || ''),
+      title: String(row.title || ''),
+      text,
+      order: units.length,
+    };
+    units.push(unit);
+    if (!existing) byAnchor.set(baseAnchor, unit);
+  });
+
+  return { units, duplicates };
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/\s+/).filter(word => word);
+}
+
+function normalizeText(text: string): string {
+  return tokenize(text).join(' ');
+}
+
+/**
+ * Dice coefficient over word multisets
+ */
+function wordSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 && b.length === 0) return 1;
+  if (a.length === 0 || b.length === 0) return 0;
+  const counts = new Map<string, number>();
+  a.forEach(word => counts.set(word.toLowerCase(), (counts.get(word.toLowerCase()) || 0) + 1));
+  let shared = 0;
+  b.forEach(word => {
+    const key = word.toLowerCase();
+    const count = counts.get(key) || 0;
+    if (count > 0) {
+      shared++;
+      counts.set(key, count - 1);
+    }
+  });
+  return (2 * shared) / (a.length + b.length);
+}
+
+/**
+ * Word-level diff (longest common subsequence after trimming the common prefix and suffix)
+ */
+export function diffWords(oldText: string, newText: string): WordDiffOp[] {
+  const a = tokenize(oldText);
+  const b = tokenize(newText);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const ops: WordDiffOp[] = [];
+  const push = (op: WordDiffOp['op'], word: string) => {
+    const last = ops[ops.length - 1];
+    if (last && last.op === op) last.text += ' ' + word;
+    else ops.push({ op, text: word });
+  };
+
+  a.slice(0, prefix).forEach(word => push('equal', word));
+
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    midA.forEach(word => push('delete', word));
+    midB.forEach(word => push('insert', word));
+  } else {
+    // lengths[i][j] = LCS length of midA[i..] and midB[j..]
+    const cols = midB.length + 1;
+    const lengths = new Uint32Array((midA.length + 1) * cols);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lengths[i * cols + j] = midA[i] === midB[j]
+          ? lengths[(i + 1) * cols + j + 1] + 1
+          : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        push('equal', midA[i]);
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+        push('delete', midA[i++]);
+      } else {
+        push('insert', midB[j++]);
+      }
+    }
+    while (i < midA.length) push('delete', midA[i++]);
+    while (j < midB.length) push('insert', midB[j++]);
+  }
+
+  a.slice(a.length - suffix).forEach(word => push('equal', word));
+  return ops;
+}
+
+/**
+ * Render a word diff in git --word-diff style: "[-removed-]{+added+}"
+ */
+export function formatWordDiff(ops: WordDiffOp[]): string {
+  return ops
+    .map(op => (op.op === 'equal' ? op.text : op.op === 'delete' ? `[-${op.text}-]` : `{+${op.text}+}`))
+    .join(' ');
+}
+
+function createChange(changeType: ClauseChangeType, matchMethod: MatchMethod, oldUnit?: DiffUnit, newUnit?: DiffUnit): ClauseChange {
+  const oldText = oldUnit ? normalizeText(oldUnit.text) : '';
+  const newText = newUnit ? normalizeText(newUnit.text) : '';
+  const unit = (newUnit || oldUnit)!;
+
+  let wordDiff = '';
+  let wordsAdded = 0;
+  let wordsRemoved = 0;
+  let similarity = 0;
+  if (oldUnit && newUnit) {
+    similarity = wordSimilarity(tokenize(oldText), tokenize(newText));
+    if (oldText !== newText) {
+      const ops = diffWords(oldText, newText);
+      wordDiff = formatWordDiff(ops);
+      ops.forEach(op => {
+        if (op.op === 'insert') wordsAdded += tokenize(op.text).length;
+        if (op.op === 'delete') wordsRemoved += tokenize(op.text).length;
+      });
+    }
+  }
+
+  return {
+    change_type: changeType,
+    volume: unit.volume,
+    unit_type: unit.unitType,
+    old_anchor_id: oldUnit ? oldUnit.anchorId : '',
+    new_anchor_id: newUnit ? newUnit.anchorId : '',
+    old_unit_label: oldUnit ? oldUnit.unitLabel : '',
+    new_unit_label: newUnit ? newUnit.unitLabel : '',
+    title: unit.title,
+    match_method: matchMethod,
+    similarity: Math.round(similarity * 1000) / 1000,
+    words_added: wordsAdded,
+    words_removed: wordsRemoved,
+    word_diff: wordDiff,
+    old_text: oldText,
+    new_text: newText,
+  };
+}
+
+/**
+ * Compare two editions
+ *
+ * @param oldRows - CSV rows of the earlier edition
+ * @param newRows - CSV rows of the later edition
+ */
+export function diffEditions(oldRows: CSVRow[], newRows: CSVRow[], options: EditionDiffOptions = {}): EditionDiff {
+  const { units: oldUnits, duplicates: oldDuplicates } = toDiffUnits(oldRows);
+  const { units: newUnits, duplicates: newDuplicates } = toDiffUnits(newRows);
+  if (oldDuplicates.length > 0 || newDuplicates.length > 0) {
+    console.warn(`[NCC Diff] Duplicate anchors matched by label or text instead: old ${oldDuplicates.join(', ') || '-'}, new ${newDuplicates.join(', ') || '-'}`);
+  }
+
+  // newIndex -> { oldUnit, method }
+  const matches = new Map<number, { old: DiffUnit; method: MatchMethod }>();
+  const matchedOld = new Set<number>();
+
+  const oldByAnchor = new Map<string, DiffUnit>();
+  const oldByLabel = new Map<string, DiffUnit>();
+  oldUnits.forEach(unit => {
+    if (!oldByAnchor.has(unit.anchorId)) oldByAnchor.set(unit.anchorId, unit);
+    const labelKey = `${unit.volume}|${unit.unitType}|${unit.unitLabel}`;
+    if (unit.unitLabel && !oldByLabel.has(labelKey)) oldByLabel.set(labelKey, unit);
+  });
+
+  // 1. Exact anchor, then volume + unit_label (anchor schemes may differ between runs)
+  newUnits.forEach((unit, idx) => {
+    const byAnchor = oldByAnchor.get(unit.anchorId);
+    if (byAnchor && !matchedOld.has(byAnchor.order)) {
+      matches.set(idx, { old: byAnchor, method: 'anchor_id' });
+      matchedOld.add(byAnchor.order);
+    }
+  });
+  newUnits.forEach((unit, idx) => {
+    if (matches.has(idx) || !unit.unitLabel) return;
+    const byLabel = oldByLabel.get(`${unit.volume}|${unit.unitType}|${unit.unitLabel}`);
+    if (byLabel && !matchedOld.has(byLabel.order)) {
+      matches.set(idx, { old: byLabel, method: 'unit_label' });
+      matchedOld.add(byLabel.order);
+    }
+  });
+
+  // 2. Fuzzy: best-scoring pairs first among the remaining units of the same volume and type
+  const candidates: Array<{ newIdx: number; oldOrder: number; score: number }> = [];
+  const oldTokens = new Map<number, string[]>();
+  oldUnits.forEach(unit => {
+    if (!matchedOld.has(unit.order)) oldTokens.set(unit.order, tokenize(`${unit.title} ${unit.text}`));
+  });
+  newUnits.forEach((unit, idx) => {
+    if (matches.has(idx)) return;
+    const tokens = tokenize(`${unit.title} ${unit.text}`);
+    oldTokens.forEach((otherTokens, oldOrder) => {
+      const oldUnit = oldUnits[oldOrder];
+      if (oldUnit.volume !== unit.volume || oldUnit.unitType !== unit.unitType) return;
+      const score = wordSimilarity(otherTokens, tokens);
+      if (score >= FUZZY_MATCH_THRESHOLD) candidates.push({ newIdx: idx, oldOrder, score });
+    });
+  });
+  candidates
+    .sort((x, y) => y.score - x.score)
+    .forEach(candidate => {
+      if (matches.has(candidate.newIdx) || matchedOld.has(candidate.oldOrder)) return;
+      matches.set(candidate.newIdx, { old: oldUnits[candidate.oldOrder], method: 'fuzzy' });
+      matchedOld.add(candidate.oldOrder);
+    });
+
+  // 3. Classify, in new edition order with removed units placed after their old predecessor
+  const summary: Record<ClauseChangeType, number> = { ADDED: 0, REMOVED: 0, RENUMBERED: 0, CHANGED: 0, UNCHANGED: 0 };
+  const removedAfter = new Map<number, DiffUnit[]>(); // old order of predecessor -> removed units
+  oldUnits.forEach(unit => {
+    if (matchedOld.has(unit.order)) return;
+    const key = unit.order - 1;
+    removedAfter.set(key, (removedAfter.get(key) || []).concat(unit));
+  });
+
+  const changes: ClauseChange[] = [];
+  const record = (change: ClauseChange) => {
+    summary[change.change_type]++;
+    if (change.change_type !== 'UNCHANGED' || options.includeUnchanged) changes.push(change);
+  };
+  const flushRemoved = (oldOrder: number) => {
+    (removedAfter.get(oldOrder) || []).forEach(unit => {
+      record(createChange('REMOVED', '', unit, undefined));
+      flushRemoved(unit.order);
+    });
+    removedAfter.delete(oldOrder);
+  };
+
+  flushRemoved(-1);
+  newUnits.forEach((unit, idx) => {
+    const match = matches.get(idx);
+    if (!match) {
+      record(createChange('ADDED', '', undefined, unit));
+      return;
+    }
+    const renumbered = match.old.unitLabel !== unit.unitLabel;
+    const textChanged = normalizeText(match.old.text) !== normalizeText(unit.text) || match.old.title !== unit.title;
+    const changeType: ClauseChangeType = renumbered ? 'RENUMBERED' : textChanged ? 'CHANGED' : 'UNCHANGED';
+    record(createChange(changeType, match.method, match.old, unit));
+    flushRemoved(match.old.order);
+  });
+  // Removed units whose predecessors were never reached (e.g. predecessor also removed out of order)
+  removedAfter.forEach((_units, oldOrder) => flushRemoved(oldOrder));
+
+  return { summary, changes, duplicate_anchors: { old: oldDuplicates, new: newDuplicates } };
+}
+
+/**
+ * Change-log rows for CSV export (writeCSVTable in lib/ncc-pipeline, with CHANGE_LOG_COLUMNS)
+ */
+export function changeLogRows(diff: EditionDiff): CSVRow[] {
+  return diff.changes.map(change => ({ ...change }));
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { paragraphText, splitDocxIntoSections } from '@/lib/ncc-docx-sections';
+
+const paragraph = (text: string, style = '') =>
+  `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''}<w:r><w:t>${text}</w:t></w:r></w:p>`;
+
+async function makeDocx(body: string): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file(
+    'word/document.xml',
+    `<?xml version="1.0"?><w:document xmlns:w="w"><w:body>${body}<w:sectPr><w:pgSz w:w="11906"/></w:sectPr></w:body></w:document>`
+  );
+  zip.file('word/styles.xml', '<w:styles><w:style w:styleId="Heading1"><w:name w:val="heading 1"/></w:style></w:styles>');
+  zip.file(
+    'word/_rels/document.xml.rels',
+    '<Relationships><Relationship Id="rId1" Target="media/image1.png"/><Relationship Id="rId2" Target="https://abcb.gov.au" TargetMode="External"/></Relationships>'
+  );
+  zip.file('word/media/image1.png', Buffer.alloc(4096, 7));
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+async function sectionDocument(buffer: Buffer): Promise<string> {
+  return (await JSZip.loadAsync(buffer)).file('word/document.xml')!.async('string');
+}
+
+describe('paragraphText', () => {
+  it('joins runs and decodes entities', () => {
+    expect(paragraphText('<w:p><w:r><w:t>Fire &amp; </w:t></w:r><w:r><w:t xml:space="preserve">smoke</w:t></w:r></w:p>')).toBe('Fire & smoke');
+  });
+});
+
+describe('splitDocxIntoSections', () => {
+  it('splits at Heading 1 and repeats the section properties', async () => {
+    const docx = await makeDocx(paragraph('Section C', 'Heading1') + paragraph('C1D1 text') + paragraph('Section D', 'Heading1') + paragraph('D1D1 text'));
+    const sections = await splitDocxIntoSections(docx);
+
+    expect(sections.count).toBe(2);
+    const second = await sectionDocument(await sections.build(1));
+    expect(second).toContain('D1D1 text');
+    expect(second).not.toContain('C1D1 text');
+    expect(second).toContain('<w:sectPr><w:pgSz w:w="11906"/></w:sectPr></w:body>');
+  });
+
+  it('splits long sections only before clause starts', async () => {
+    const body = [paragraph('Section D', 'Heading1'), paragraph('D1D1 Stairs'), paragraph('continued text'), paragraph('D1D2 Ramps')].join('');
+    const sections = await splitDocxIntoSections(await makeDocx(body), {
+      maxSectionChars: 10,
+      isClauseStart: text => /^[A-Z]\d+[A-Z]\d+/.test(text),
+    });
+
+    expect(sections.count).toBe(3);
+    expect(await sectionDocument(await sections.build(1))).toContain('continued text');
+  });
+
+  it('keeps the XML parts in every section and media only where referenced', async () => {
+    const image = '<w:p><w:r><w:drawing><a:blip r:embed="rId1"/></w:drawing></w:r></w:p>';
+    const sections = await splitDocxIntoSections(await makeDocx(paragraph('A', 'Heading1') + paragraph('B', 'Heading1') + image));
+    const first = await JSZip.loadAsync(await sections.build(0));
+    const second = await JSZip.loadAsync(await sections.build(1));
+
+    expect(first.file('word/styles.xml')).not.toBeNull();
+    expect(first.file('word/_rels/document.xml.rels')).not.toBeNull();
+    expect(first.file('word/media/image1.png')).toBeNull();
+    expect(await second.file('word/media/image1.png')!.async('nodebuffer')).toEqual(Buffer.alloc(4096, 7));
+  });
+});
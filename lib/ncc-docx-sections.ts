@@ -0,0 +1,241 @@
+/**
+ * Section-by-Section DOCX Splitting
+ *
+ * mammoth converts a whole DOCX in one go and holds the document model, the
+ * HTML string and (downstream) the linkedom DOM in memory at the same time,
+ * which exhausts the heap on full NCC volumes. This module splits
+ * word/document.xml into sections at top-level "Heading 1" paragraphs and
+ * builds one small DOCX per section on demand, so only one section is ever
+ * converted and parsed at a time.
+ *
+ * Sections larger than the budget are split further, but only before a
+ * paragraph that starts a clause, so no clause spans two sections.
+ * Each section is a fresh, uncompressed archive: the XML parts (styles,
+ * numbering, relationships) are read once and shared by every section, and
+ * media, fonts and embedded objects are only copied into the sections whose
+ * XML references them, so no section re-packs the whole DOCX.
+ * Page bookmarks (lib/ncc-pages) are added before splitting, so page numbers
+ * keep counting across sections.
+ */
+
+import JSZip from 'jszip';
+import { markPages, findPageBreakBeforeStyleIds } from '@/lib/ncc-pages';
+
+/**
+ * Default section budget in characters of document.xml (~2 MB)
+ */
+export const SECTION_XML_BUDGET = 2000000;
+
+export interface DocxSectionOptions {
+  maxSectionChars?: number;
+  // True if a paragraph's text starts a new clause (safe split point within a long section)
+  isClauseStart?: (text: string) => boolean;
+}
+
+export interface DocxSections {
+  count: number;
+  startPages: string[]; // Page label in effect at the start of each section
+  // Build section N as a standalone DOCX buffer
+  build(index: number): Promise<Buffer>;
+}
+
+// XML parts go into every section; other parts (media, fonts, embeddings) only where referenced
+const SHARED_PART = /\.(xml|rels)$/i;
+const RELATIONSHIP_REF = /\br:(?:embed|id|link|pict)="([^"]+)"/g;
+
+interface BodyBlock {
+  start: number;
+  end: number;
+  isParagraph: boolean;
+}
+
+/**
+ * Decode the XML entities that appear in w:t text
+ */
+function decodeXmlText(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Plain text of a w:p element (concatenated w:t runs)
+ */
+export function paragraphText(xml: string): string {
+  const parts: string[] = [];
+  const regex = /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>/g;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(xml)) !== null) {
+    parts.push(match[1]);
+  }
+  return decodeXmlText(parts.join('')).trim();
+}
+
+/**
+ * Style ids whose display name is "heading 1" (usually "Heading1", but localised documents differ)
+ */
+function findHeading1StyleIds(stylesXml: string): string[] {
+  const ids: string[] = [];
+  const styleRegex = /<w:style\b[^>]*w:styleId="([^"]+)"[^>]*>([\s\S]*?)<\/w:style>/g;
+  let match: RegExpExecArray | null;
+  while ((match = styleRegex.exec(stylesXml)) !== null) {
+    const nameMatch = match[2].match(/<w:name w:val="([^"]+)"/);
+    if (nameMatch && nameMatch[1].toLowerCase() === 'heading 1') {
+      ids.push(match[1]);
+    }
+  }
+  return ids.length > 0 ? ids : ['Heading1'];
+}
+
+/**
+ * Package paths of the document relationships, by relationship id
+ * Targets are relative to word/ unless absolute; external targets are left out.
+ */
+function documentRelationshipTargets(relsXml: string): Map<string, string> {
+  const targets = new Map<string, string>();
+  const regex = /<Relationship\b[^>]*>/g;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(relsXml)) !== null) {
+    const id = match[0].match(/\bId="([^"]+)"/);
+    const target = match[0].match(/\bTarget="([^"]+)"/);
+    if (!id || !target || /\bTargetMode="External"/.test(match[0])) continue;
+    const parts: string[] = [];
+    (target[1].charAt(0) === '/' ? target[1].substring(1) : `word/${target[1]}`).split('/').forEach(part => {
+      if (part === '..') parts.pop();
+      else if (part && part !== '.') parts.push(part);
+    });
+    targets.set(id[1], parts.join('/'));
+  }
+  return targets;
+}
+
+/**
+ * Top-level children of w:body (paragraphs, tables, content controls)
+ * Nested paragraphs inside tables are skipped by tracking element depth.
+ */
+function findBodyBlocks(body: string): BodyBlock[] {
+  const blocks: BodyBlock[] = [];
+  const tagRegex = /<(\/?)(w:p|w:tbl|w:sdt)\b[^>]*?(\/?)>/g;
+  let depth = 0;
+  let blockStart = -1;
+  let blockIsParagraph = false;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagRegex.exec(body)) !== null) {
+    const isClosing = match[1] === '/';
+    const isSelfClosing = match[3] === '/';
+
+    if (!isClosing) {
+      if (depth === 0) {
+        blockStart = match.index;
+        blockIsParagraph = match[2] === 'w:p';
+      }
+      if (isSelfClosing) {
+        if (depth === 0) {
+          blocks.push({ start: blockStart, end: tagRegex.lastIndex, isParagraph: blockIsParagraph });
+        }
+        continue;
+      }
+      depth++;
+    } else {
+      depth--;
+      if (depth === 0) {
+        blocks.push({ start: blockStart, end: tagRegex.lastIndex, isParagraph: blockIsParagraph });
+      }
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Split a DOCX into sections that can be converted independently
+ */
+export async function splitDocxIntoSections(buffer: Buffer, options: DocxSectionOptions = {}): Promise<DocxSections> {
+  const maxSectionChars = options.maxSectionChars || SECTION_XML_BUDGET;
+  const zip = await JSZip.loadAsync(buffer);
+
+  const documentFile = zip.file('word/document.xml');
+  if (!documentFile) {
+    throw new Error('Invalid DOCX: word/document.xml not found');
+  }
+  const documentXml = await documentFile.async('string');
+  const stylesFile = zip.file('word/styles.xml');
+  const stylesXml = stylesFile ? await stylesFile.async('string') : '';
+  const relsFile = zip.file('word/_rels/document.xml.rels');
+  const relationshipTargets = documentRelationshipTargets(relsFile ? await relsFile.async('string') : '');
+
+  const sharedParts = new Map<string, Uint8Array>();
+  for (const name of Object.keys(zip.files)) {
+    if (zip.files[name].dir || name === 'word/document.xml' || !SHARED_PART.test(name)) continue;
+    sharedParts.set(name, await zip.files[name].async('uint8array'));
+  }
+  const heading1Ids = findHeading1StyleIds(stylesXml);
+  const heading1Regex = new RegExp(`<w:pStyle w:val="(${heading1Ids.map(id => id.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})"`);
+
+  const bodyOpen = documentXml.search(/<w:body\b[^>]*>/);
+  const bodyClose = documentXml.lastIndexOf('</w:body>');
+  if (bodyOpen === -1 || bodyClose === -1) {
+    throw new Error('Invalid DOCX: document body not found');
+  }
+  const bodyStart = documentXml.indexOf('>', bodyOpen) + 1;
+
+  // The final section properties (page size, margins) are repeated in every section
+  const body = documentXml.substring(bodyStart, bodyClose);
+  const sectPrStart = body.lastIndexOf('<w:sectPr');
+  const contentEnd = sectPrStart !== -1 && body.indexOf('</w:p>', sectPrStart) === -1 ? sectPrStart : body.length;
+  const prefix = documentXml.substring(0, bodyStart);
+  const suffix = body.substring(contentEnd) + documentXml.substring(bodyClose);
+
+  const pages = markPages(body.substring(0, contentEnd), body.substring(contentEnd), findPageBreakBeforeStyleIds(stylesXml));
+  const content = pages.xml;
+  const blocks = findBodyBlocks(content);
+
+  // Section start offsets within the body
+  const sectionStarts: number[] = [0];
+  let sectionStart = 0;
+  for (let b = 1; b < blocks.length; b++) {
+    const block = blocks[b];
+    if (!block.isParagraph) continue;
+
+    const blockXml = content.substring(block.start, block.end);
+    const isHeading1 = heading1Regex.test(blockXml);
+    const overBudget = block.start - sectionStart >= maxSectionChars;
+
+    if (isHeading1 || (overBudget && options.isClauseStart && options.isClauseStart(paragraphText(blockXml)))) {
+      sectionStarts.push(block.start);
+      sectionStart = block.start;
+    }
+  }
+
+  return {
+    count: sectionStarts.length,
+    startPages: sectionStarts.map(start => pages.labelAt(start)),
+    async build(index: number): Promise<Buffer> {
+      const from = sectionStarts[index];
+      const to = index + 1 < sectionStarts.length ? sectionStarts[index + 1] : content.length;
+      const sectionXml = content.substring(from, to);
+
+      const section = new JSZip();
+      sharedParts.forEach((data, name) => section.file(name, data));
+      section.file('word/document.xml', prefix + sectionXml + suffix);
+
+      const copied = new Set<string>();
+      const refRegex = new RegExp(RELATIONSHIP_REF.source, 'g');
+      let match: RegExpExecArray | null;
+      while ((match = refRegex.exec(sectionXml)) !== null) {
+        const name = relationshipTargets.get(match[1]);
+        const part = name ? zip.file(name) : null;
+        if (!name || !part || copied.has(name) || SHARED_PART.test(name)) continue;
+        copied.add(name);
+        section.file(name, await part.async('uint8array'));
+      }
+
+      // Only mammoth reads the section back, so it is not compressed
+      return section.generateAsync({ type: 'nodebuffer', compression: 'STORE' });
+    },
+  };
+}
@@ -0,0 +1,75 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { deriveNCCEdition, readNCCEdition } from '@/lib/ncc-edition';
+import { NCC_DOC_ID } from '@/lib/ncc-volumes';
+
+const core = (fields: Partial<{ title: string; modified: string; created: string; revision: string }> = {}) => ({
+  title: '',
+  modified: '',
+  created: '',
+  revision: '',
+  ...fields,
+});
+
+describe('deriveNCCEdition', () => {
+  it('reads the edition from the common title formats', () => {
+    expect(deriveNCCEdition('NCC 2022 Volume One', core()).docId).toBe('ncc2022');
+    expect(deriveNCCEdition('National Construction Code 2019 Building Code of Australia', core()).docId).toBe('ncc2019');
+    expect(deriveNCCEdition('', core({ title: 'BCA 2016 Volume Two' })).docId).toBe('ncc2016');
+    expect(deriveNCCEdition('NCC Series 2025', core()).editionLabel).toBe('NCC 2025');
+  });
+
+  it('adds amendment suffixes', () => {
+    const edition = deriveNCCEdition('NCC 2019 Volume One, Amendment 1', core());
+    expect(edition).toMatchObject({ docId: 'ncc2019_a1', year: '2019', amendment: '1', editionLabel: 'NCC 2019 Amendment 1' });
+    expect(deriveNCCEdition('NCC 2022', core({ title: 'Amendment No. 2' })).docId).toBe('ncc2022_a2');
+  });
+
+  it('prefers the cover page over the core title', () => {
+    const edition = deriveNCCEdition('NCC 2022 Volume One', core({ title: 'NCC 2019 draft' }));
+    expect(edition).toMatchObject({ docId: 'ncc2022', source: 'cover', title: 'NCC 2019 draft' });
+    expect(deriveNCCEdition('Volume One', core({ title: 'NCC 2019 draft' })).source).toBe('core');
+  });
+
+  it('falls back to NCC_DOC_ID when no edition year is named', () => {
+    expect(deriveNCCEdition('Volume One', core())).toMatchObject({ docId: NCC_DOC_ID, year: '', editionLabel: '', source: 'default' });
+  });
+
+  it('takes the version date from the modified date, else the created date', () => {
+    expect(deriveNCCEdition('', core({ modified: '2023-05-01T10:00:00Z', created: '2022-05-01T10:00:00Z' })).versionDate).toBe('2023-05-01');
+    expect(deriveNCCEdition('', core({ created: '2022-05-01T10:00:00Z' })).versionDate).toBe('2022-05-01');
+    expect(deriveNCCEdition('', core({ modified: 'yesterday' })).versionDate).toBe('');
+  });
+});
+
+describe('readNCCEdition', () => {
+  it('reads the cover paragraphs and core properties of a DOCX', async () => {
+    const zip = new JSZip();
+    zip.file(
+      'word/document.xml',
+      '<w:document><w:body><w:p><w:r><w:t>National Construction Code 2022</w:t></w:r></w:p><w:p><w:r><w:t>Amendment 1</w:t></w:r></w:p></w:body></w:document>'
+    );
+    zip.file(
+      'docProps/core.xml',
+      '<cp:coreProperties><dc:title>Volume One</dc:title><cp:revision>7</cp:revision><dcterms:modified xsi:type="dcterms:W3CDTF">2023-05-01T00:00:00Z</dcterms:modified></cp:coreProperties>'
+    );
+    const edition = await readNCCEdition(await zip.generateAsync({ type: 'nodebuffer' }));
+
+    expect(edition).toEqual({
+      docId: 'ncc2022_a1',
+      year: '2022',
+      amendment: '1',
+      editionLabel: 'NCC 2022 Amendment 1',
+      versionDate: '2023-05-01',
+      title: 'Volume One',
+      revision: '7',
+      source: 'cover',
+    });
+  });
+
+  it('uses the fallback for a DOCX without edition text', async () => {
+    const zip = new JSZip();
+    zip.file('word/document.xml', '<w:document><w:body><w:p><w:r><w:t>Draft</w:t></w:r></w:p></w:body></w:document>');
+    expect((await readNCCEdition(await zip.generateAsync({ type: 'nodebuffer' }))).docId).toBe(NCC_DOC_ID);
+  });
+});
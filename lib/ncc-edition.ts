@@ -0,0 +1,112 @@
+/**
+ * NCC Edition Metadata
+ *
+ * Derives doc_id, version_date and the edition label from the DOCX itself,
+ * so NCC 2019, 2022 and 2025 documents (and their amendments) are labelled
+ * without code changes:
+ * - Cover page text (first paragraphs): "NCC 2022 Volume One, Amendment 1",
+ *   "National Construction Code 2019 ... Amendment 1"
+ * - Core properties (docProps/core.xml): title, modified/created date, revision
+ *
+ * The cover page wins over the core title; NCC_DOC_ID is the fallback when
+ * neither names an edition year.
+ */
+
+import JSZip from 'jszip';
+import { paragraphText } from '@/lib/ncc-docx-sections';
+import { NCC_DOC_ID } from '@/lib/ncc-volumes';
+
+export interface NCCEdition {
+  docId: string;         // "ncc2022", or "ncc2022_a1" for Amendment 1
+  year: string;          // "2022" ('' if unknown)
+  amendment: string;     // "1" ('' for the original edition)
+  editionLabel: string;  // "NCC 2022 Amendment 1"
+  versionDate: string;   // YYYY-MM-DD from core properties ('' if absent)
+  title: string;         // Core title
+  revision: string;      // Core revision number
+  source: 'cover' | 'core' | 'default';
+}
+
+// Paragraphs read from the start of the document when looking for the cover text
+const COVER_PARAGRAPHS = 40;
+
+const EDITION_YEAR_PATTERN = /\b(?:NCC|National Construction Code|Building Code of Australia|BCA)\s*(?:Series\s*)?[-–,:]?\s*((?:19|20)\d{2})\b/i;
+const AMENDMENT_PATTERN = /\bAmendment\s+(?:No\.?\s*)?(\d+)\b/i;
+
+/**
+ * Text content of a core property element, e.g. <dc:title>
+ */
+function coreProperty(xml: string, tag: string): string {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([^<]*)</${tag}>`));
+  return match ? match[1].trim() : '';
+}
+
+/**
+ * Edition year and amendment named in a piece of text
+ */
+function parseEditionText(text: string): { year: string; amendment: string } {
+  const yearMatch = text.match(EDITION_YEAR_PATTERN);
+  const amendmentMatch = text.match(AMENDMENT_PATTERN);
+  return {
+    year: yearMatch ? yearMatch[1] : '',
+    amendment: amendmentMatch ? amendmentMatch[1] : '',
+  };
+}
+
+/**
+ * Build the edition record from cover text and core property values
+ */
+export function deriveNCCEdition(coverText: string, core: { title: string; modified: string; created: string; revision: string }): NCCEdition {
+  const fromCover = parseEditionText(coverText);
+  const fromTitle = parseEditionText(core.title);
+
+  const year = fromCover.year || fromTitle.year;
+  const amendment = fromCover.amendment || fromTitle.amendment;
+  const source: NCCEdition['source'] = fromCover.year ? 'cover' : fromTitle.year ? 'core' : 'default';
+
+  const baseId = year ? `ncc${year}` : NCC_DOC_ID;
+  const date = core.modified || core.created;
+
+  return {
+    docId: amendment ? `${baseId}_a${amendment}` : baseId,
+    year,
+    amendment,
+    editionLabel: year ? `NCC ${year}${amendment ? ` Amendment ${amendment}` : ''}` : '',
+    versionDate: /^\d{4}-\d{2}-\d{2}/.test(date) ? date.substring(0, 10) : '',
+    title: core.title,
+    revision: core.revision,
+    source,
+  };
+}
+
+/**
+ * Read edition metadata from a DOCX buffer
+ */
+export async function readNCCEdition(buffer: Buffer): Promise<NCCEdition> {
+  const zip = await JSZip.loadAsync(buffer);
+
+  const coreFile = zip.file('docProps/core.xml');
+  const coreXml = coreFile ? await coreFile.async('string') : '';
+
+  const coverParagraphs: string[] = [];
+  const documentFile = zip.file('word/document.xml');
+  if (documentFile) {
+    const documentXml = await documentFile.async('string');
+    const paragraphRegex = /<w:p\b[^>]*?(?:\/>|>[\s\S]*?<\/w:p>)/g;
+    let match: RegExpExecArray | null;
+    while (coverParagraphs.length < COVER_PARAGRAPHS && (match = paragraphRegex.exec(documentXml)) !== null) {
+      const text = paragraphText(match[0]);
+      if (text) coverParagraphs.push(text);
+    }
+  }
+
+  const edition = deriveNCCEdition(coverParagraphs.join('\n'), {
+    title: coreProperty(coreXml, 'dc:title'),
+    modified: coreProperty(coreXml, 'dcterms:modified'),
+    created: coreProperty(coreXml, 'dcterms:created'),
+    revision: coreProperty(coreXml, 'cp:revision'),
+  });
+
+  console.log(`[NCC Edition] ${edition.editionLabel || 'Unknown edition'} (doc_id ${edition.docId}, version_date ${edition.versionDate || 'n/a'}, from ${edition.source})`);
+  return edition;
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { figureImageFileName, figureUnitLabel, findFigures, parseFigureCaption, FigureBlock } from '@/lib/ncc-figures';
+
+const text = (value: string): FigureBlock => ({ text: value, hasImages: false, isTable: false });
+const image = (value = ''): FigureBlock => ({ text: value, hasImages: true, isTable: false });
+
+describe('parseFigureCaption', () => {
+  it('reads NCC and explanatory figure captions', () => {
+    expect(parseFigureCaption('Figure D3D14a: Stairway construction')).toEqual({ id: 'Figure D3D14a', label: 'D3D14A', title: 'Stairway construction' });
+    expect(parseFigureCaption('Explanatory Figure 2.1 - Fire sources')).toEqual({ id: 'Figure 2.1', label: '2.1', title: 'Fire sources' });
+  });
+
+  it('ignores prose that mentions a figure', () => {
+    expect(parseFigureCaption('See Figure D3D14a for stair geometry')).toBeNull();
+  });
+});
+
+describe('figureUnitLabel', () => {
+  it('upper-cases the label of captioned figures and keeps auto ids', () => {
+    expect(figureUnitLabel('Figure D3D14a')).toBe('D3D14A');
+    expect(figureUnitLabel('Figure-AUTO-001')).toBe('Figure-AUTO-001');
+  });
+});
+
+describe('findFigures', () => {
+  it('gives a caption the image paragraphs after it, skipping empty ones', () => {
+    const groups = findFigures([text('Figure D3D14a: Stairs'), text(''), image(), image(), text('D3D15 Landings')]);
+    expect(groups).toEqual([{ caption: expect.objectContaining({ id: 'Figure D3D14a' }), captionIndex: 0, imageIndices: [2, 3] }]);
+  });
+
+  it('falls back to the images before a caption set below them', () => {
+    const groups = findFigures([text('D3D14 Stairs'), image(), text('Figure D3D14a: Stairs')]);
+    expect(groups.map(group => group.imageIndices)).toEqual([[1]]);
+  });
+
+  it('makes uncaptioned figures of unclaimed images, in document order', () => {
+    const groups = findFigures([image(), text('Figure 1: Plan'), image(), image('Text with an inline icon')]);
+
+    expect(groups.map(group => [group.caption ? group.caption.id : null, group.imageIndices])).toEqual([
+      [null, [0]],
+      ['Figure 1', [2]],
+      [null, [3]],
+    ]);
+  });
+
+  it('leaves tables out', () => {
+    expect(findFigures([text('Figure 1: Plan'), { text: '', hasImages: true, isTable: true }])).toEqual([
+      { caption: expect.objectContaining({ id: 'Figure 1' }), captionIndex: 0, imageIndices: [] },
+    ]);
+  });
+});
+
+describe('figureImageFileName', () => {
+  it('names files after the volume and figure, numbering extra images', () => {
+    expect(figureImageFileName('Vol1', 'Figure D3D14a', 1, 'image/png')).toBe('vol1_figure_d3d14a.png');
+    expect(figureImageFileName('Vol1', 'Figure-AUTO-001', 2, 'image/jpeg')).toBe('vol1_figure-auto-001_2.jpg');
+    expect(figureImageFileName('Vol1', 'Figure 1', 1, 'image/x-unknown')).toBe('vol1_figure_1.bin');
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Figure Detection
+ *
+ * mammoth converts embedded images to <img> elements (alt text comes from the
+ * drawing's description or title). NCC figures are an image paragraph next to
+ * a caption paragraph:
+ *
+ *   Figure D3D14a: Stairway construction
+ *   [image]
+ *
+ * Captions claim the image-only paragraphs right after them (or, failing that,
+ * right before them). Images nobody claims become uncaptioned figures
+ * ("Figure-AUTO-001"). Image files are written to a directory next to the
+ * CSV/Excel output and referenced from asset_file by their relative path.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export interface FigureCaption {
+  id: string;    // "Figure D3D14a"
+  label: string; // "D3D14A", the label references resolve against
+  title: string; // "Stairway construction"
+}
+
+export interface FigureBlock {
+  text: string;
+  hasImages: boolean;
+  isTable: boolean;
+}
+
+export interface FigureGroup {
+  caption: FigureCaption | null;
+  captionIndex: number;   // -1 for uncaptioned figures
+  imageIndices: number[]; // Blocks holding the figure's images, in order
+}
+
+export interface NCCImageOutput {
+  dir: string;         // Absolute directory image files are written to
+  relativeDir: string; // The same directory relative to the CSV/Excel output (for asset_file)
+}
+
+/**
+ * Image bytes captured during conversion, keyed by the src given to the <img>
+ */
+export interface CapturedImage {
+  contentType: string;
+  data: Buffer;
+}
+
+/**
+ * "Figure D3D14a: Stairway construction", "Explanatory Figure 2.1 - Fire sources"
+ */
+const FIGURE_CAPTION_PATTERN = /^(?:Explanatory\s+)?(Figure)\s+([A-Z]\d+[A-Z]\d+[a-z]?|\d+(?:\.\d+)*[a-z]?)\b\s*[–—:.-]?\s*(.*)$/i;
+
+const MAX_CAPTION_LENGTH = 300;
+
+const IMAGE_EXTENSIONS: { [contentType: string]: string } = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp',
+  'image/tiff': 'tif',
+  'image/svg+xml': 'svg',
+  'image/x-emf': 'emf',
+  'image/x-wmf': 'wmf',
+};
+
+/**
+ * Parse a figure caption paragraph (null if the text isn't one)
+ */
+export function parseFigureCaption(text: string): FigureCaption | null {
+  const trimmed = text.trim();
+  if (trimmed.length > MAX_CAPTION_LENGTH) return null;
+  const match = trimmed.match(FIGURE_CAPTION_PATTERN);
+  if (!match) return null;
+  return {
+    id: `Figure ${match[2]}`,
+    label: match[2].toUpperCase(),
+    title: match[3].trim(),
+  };
+}
+
+/**
+ * Unit label of a figure row: "Figure D3D14a" -> "D3D14A"; auto ids are kept as-is
+ */
+export function figureUnitLabel(assetId: string): string {
+  const match = assetId.match(/^Figure\s+(.+)$/i);
+  return match ? match[1].toUpperCase() : assetId;
+}
+
+/**
+ * Group captions with their image paragraphs
+ * Image paragraphs that also hold text stay in the text flow; their images
+ * still get an (uncaptioned) figure unless a caption claims them.
+ */
+export function findFigures(blocks: FigureBlock[]): FigureGroup[] {
+  const claimed = new Set<number>();
+  const groups: FigureGroup[] = [];
+  const isImageOnly = (idx: number) => blocks[idx].hasImages && !blocks[idx].isTable && blocks[idx].text.trim() === '';
+  const isEmpty = (idx: number) => !blocks[idx].hasImages && !blocks[idx].isTable && blocks[idx].text.trim() === '';
+
+  blocks.forEach((block, idx) => {
+    if (block.isTable) return;
+    const caption = parseFigureCaption(block.text);
+    if (caption) groups.push({ caption, captionIndex: idx, imageIndices: [] });
+  });
+
+  // Images after the caption first: that's the NCC layout
+  for (const group of groups) {
+    if (blocks[group.captionIndex].hasImages) {
+      group.imageIndices.push(group.captionIndex);
+      claimed.add(group.captionIndex);
+    }
+    for (let j = group.captionIndex + 1; j < blocks.length; j++) {
+      if (isEmpty(j)) continue;
+      if (!isImageOnly(j) || claimed.has(j)) break;
+      group.imageIndices.push(j);
+      claimed.add(j);
+    }
+  }
+
+  // Captions set below their image
+  for (const group of groups) {
+    if (group.imageIndices.length > 0) continue;
+    const before: number[] = [];
+    for (let j = group.captionIndex - 1; j >= 0; j--) {
+      if (isEmpty(j)) continue;
+      if (!isImageOnly(j) || claimed.has(j)) break;
+      before.unshift(j);
+    }
+    before.forEach(idx => claimed.add(idx));
+    group.imageIndices = before;
+  }
+
+  blocks.forEach((block, idx) => {
+    if (block.hasImages && !block.isTable && !claimed.has(idx)) {
+      groups.push({ caption: null, captionIndex: -1, imageIndices: [idx] });
+    }
+  });
+
+  const firstIndex = (group: FigureGroup) => Math.min(group.captionIndex === -1 ? Infinity : group.captionIndex, ...group.imageIndices);
+  return groups.sort((a, b) => firstIndex(a) - firstIndex(b));
+}
+
+/**
+ * File name for a figure image: "vol1_figure_d3d14a.png", "vol1_figure-auto-001_2.png"
+ */
+export function figureImageFileName(volumeLabel: string, assetId: string, imageNumber: number, contentType: string): string {
+  const base = `${volumeLabel}_${assetId}`.toLowerCase().replace(/[^a-z0-9-]+/g, '_');
+  const extension = IMAGE_EXTENSIONS[contentType.toLowerCase()] || 'bin';
+  return imageNumber > 1 ? `${base}_${imageNumber}.${extension}` : `${base}.${extension}`;
+}
+
+/**
+ * Write one image file, returning its path relative to the output ("images/vol1_figure_d3d14a.png")
+ */
+export function saveFigureImage(output: NCCImageOutput, fileName: string, data: Buffer): string {
+  fs.mkdirSync(output.dir, { recursive: true });
+  fs.writeFileSync(path.join(output.dir, fileName), data);
+  return output.relativeDir ? `${output.relativeDir}/${fileName}` : fileName;
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { parseHTML } from 'linkedom';
+import {
+  buildGlossary,
+  definitionAnchorId,
+  definitionsSectionAnchorId,
+  definitionsSectionLabel,
+  extractItalicPhrases,
+  findDefinedTerms,
+  isDefinitionsHeading,
+  lookupDefinedTerm,
+  parseDefinition,
+} from '@/lib/ncc-glossary';
+
+function paragraph(html: string): Element {
+  const { document } = parseHTML(`<html><body><p>${html}</p></body></html>`);
+  return document.querySelector('p')!;
+}
+
+describe('definitions headings', () => {
+  it('recognises the definitions section and labels its row', () => {
+    expect(isDefinitionsHeading('Schedule 1 Definitions')).toBe(true);
+    expect(isDefinitionsHeading('Glossary')).toBe(true);
+    expect(isDefinitionsHeading('Definitions of fire terms')).toBe(false);
+
+    expect(definitionsSectionLabel('Schedule 1 Definitions')).toBe('Schedule 1');
+    expect(definitionsSectionLabel('Definitions')).toBe('Definitions');
+    expect(definitionsSectionAnchorId('Schedule 1', 'Vol1')).toBe('VOL1::SCHEDULE_1');
+  });
+});
+
+describe('extractItalicPhrases', () => {
+  it('merges adjacent italic runs and trims punctuation', () => {
+    expect(extractItalicPhrases(paragraph('A <em>fire-source </em><em>feature</em>, an <i>exit</i>; and <em>exit</em>.'))).toEqual([
+      'fire-source feature',
+      'exit',
+    ]);
+  });
+});
+
+describe('parseDefinition', () => {
+  it('takes the term from leading italics', () => {
+    expect(parseDefinition(paragraph('<em>Fire-source feature</em> means the far boundary of a road.'))).toEqual({
+      term: 'Fire-source feature',
+      definition: 'Fire-source feature means the far boundary of a road.',
+      fromItalics: true,
+    });
+    expect(parseDefinition(paragraph('<em>Exit</em> — a doorway leading to a road.'))!.term).toBe('Exit');
+  });
+
+  it('falls back to "X means" when the term is not in italics', () => {
+    expect(parseDefinition(paragraph('Open space means a space on the allotment.'))).toEqual({
+      term: 'Open space',
+      definition: 'Open space means a space on the allotment.',
+      fromItalics: false,
+    });
+  });
+
+  it('uses the "means" fallback when the italics are not the leading term', () => {
+    expect(parseDefinition(paragraph('Storey means a space within a <em>building</em>.'))).toMatchObject({ term: 'Storey', fromItalics: false });
+  });
+
+  it('skips paragraphs that continue the previous entry', () => {
+    expect(parseDefinition(paragraph('(a) a road; or'))).toBeNull();
+    expect(parseDefinition(paragraph(''))).toBeNull();
+  });
+});
+
+describe('glossary lookup', () => {
+  const glossary = buildGlossary([
+    { term: 'Exit', anchorId: 'VOL1::DEF::EXIT' },
+    { term: 'Fire-source feature', anchorId: 'VOL1::DEF::FIRE_SOURCE_FEATURE' },
+    { term: 'Open space', anchorId: 'VOL1::DEF::OPEN_SPACE' },
+    { term: 'exit', anchorId: 'VOL1::DEF::EXIT_2' },
+  ]);
+
+  it('keeps the first definition of a term and matches plurals', () => {
+    expect(glossary.entries.size).toBe(3);
+    expect(lookupDefinedTerm(glossary, 'Exits')!.anchorId).toBe('VOL1::DEF::EXIT');
+    expect(lookupDefinedTerm(glossary, 'stair')).toBeUndefined();
+  });
+
+  it('uses italic phrases when a row has them', () => {
+    const terms = findDefinedTerms(glossary, 'Exits and open space', ['exits']);
+    expect(terms.map(entry => entry.term)).toEqual(['Exit']);
+  });
+
+  it('matches only multi-word terms in text without italics, leaving out the row\'s own term', () => {
+    const terms = findDefinedTerms(glossary, 'An exit to open space near a fire-source feature.', [], 'Open space');
+    expect(terms.map(entry => entry.term)).toEqual(['Fire-source feature']);
+  });
+
+  it('anchors definitions on their term', () => {
+    expect(definitionAnchorId('Fire-source feature', 'Vol1')).toBe('VOL1::DEF::FIRE_SOURCE_FEATURE');
+  });
+});
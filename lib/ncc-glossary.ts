@@ -0,0 +1,182 @@
+/**
+ * NCC Defined Terms (Schedule 1 Glossary)
+ *
+ * Schedule 1 defines terms such as "fire-source feature", and the clauses that
+ * use a defined term set it in italics. This module:
+ * - recognises the definitions section and splits it into one entry per term
+ *   ("Fire-source feature means ...")
+ * - collects the italic phrases of a paragraph (mammoth keeps italics as <em>)
+ * - matches a row's italic phrases - or, for rows without italics, its text -
+ *   against the glossary to find the defined terms it uses
+ */
+
+import { volumeAnchorPrefix } from '@/lib/ncc-volumes';
+
+export interface DefinitionEntry {
+  term: string;        // As printed, e.g. "Fire-source feature"
+  definition: string;  // Full entry text, starting with the term
+  fromItalics: boolean; // Term came from italic formatting rather than the text pattern
+}
+
+export interface GlossaryEntry {
+  term: string;
+  anchorId: string;
+}
+
+/**
+ * "Schedule 1 Definitions", "Definitions", "Schedule 1 Glossary" headings
+ */
+const DEFINITIONS_HEADING_PATTERN = /^(?:schedule\s+\d+\s*[–—:.-]?\s*)?(?:definitions|glossary|dictionary)\s*$/i;
+
+/**
+ * Wording that follows the term in a definition entry
+ */
+const DEFINITION_VERB_PATTERN = /^\s*(?:,\s*)?(?:means|includes|has the (?:same )?meaning|in relation to|for the purposes of|—|–|:)/i;
+
+/**
+ * Unformatted fallback: "Fire-source feature means ..."
+ */
+const PLAIN_DEFINITION_PATTERN = /^([A-Z][A-Za-z0-9 ,()'/-]{0,80}?)\s+(?:means|includes)\b/;
+
+export function isDefinitionsHeading(text: string): boolean {
+  return DEFINITIONS_HEADING_PATTERN.test(text.trim());
+}
+
+/**
+ * Italic phrases of an element, with adjacent italic runs merged
+ * ("<em>Fire-source </em><em>feature</em>" -> "Fire-source feature")
+ */
+export function extractItalicPhrases(element: Element): string[] {
+  const html = (element.innerHTML || '').replace(/<\/(em|i)>(\s*)<\1>/g, '$2');
+  const phrases: string[] = [];
+  const italicPattern = /<(em|i)>([\s\S]*?)<\/\1>/g;
+  let match: RegExpExecArray | null;
+  while ((match = italicPattern.exec(html)) !== null) {
+    const phrase = decodeEntities(match[2].replace(/<[^>]+>/g, ''))
+      .replace(/\s+/g, ' ')
+      .trim()
+      .replace(/[,;:.]+$/, '');
+    if (phrase && phrases.indexOf(phrase) === -1) phrases.push(phrase);
+  }
+  return phrases;
+}
+
+/**
+ * Parse a definition entry: the term (leading italics, else "X means") and its text
+ * Returns null for paragraphs that continue the previous entry ("(a) ...", notes)
+ */
+export function parseDefinition(element: Element): DefinitionEntry | null {
+  const text = (element.textContent || '').replace(/\s+/g, ' ').trim();
+  if (!text) return null;
+
+  const leading = extractItalicPhrases(element)[0];
+  if (leading && text.indexOf(leading) === 0 && DEFINITION_VERB_PATTERN.test(text.substring(leading.length))) {
+    return { term: leading, definition: text, fromItalics: true };
+  }
+
+  const plain = text.match(PLAIN_DEFINITION_PATTERN);
+  if (plain) {
+    return { term: plain[1].trim(), definition: text, fromItalics: false };
+  }
+  return null;
+}
+
+/**
+ * Label of the row a definitions heading starts: "Schedule 1" for "Schedule 1 Definitions",
+ * "Definitions" for headings without a schedule number
+ */
+export function definitionsSectionLabel(headingText: string): string {
+  const schedule = headingText.trim().match(/^schedule\s+(\d+)/i);
+  return schedule ? `Schedule ${schedule[1]}` : 'Definitions';
+}
+
+/**
+ * Anchor of the definitions section row: "Schedule 1" -> "VOL1::SCHEDULE_1"
+ */
+export function definitionsSectionAnchorId(sectionLabel: string, volumeLabel: string): string {
+  return `${volumeAnchorPrefix(volumeLabel)}::${sectionLabel.toUpperCase().replace(/\s+/g, '_')}`;
+}
+
+/**
+ * Anchor of a definition row: "Fire-source feature" -> "VOL1::DEF::FIRE_SOURCE_FEATURE"
+ */
+export function definitionAnchorId(term: string, volumeLabel: string): string {
+  const slug = term.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  return `${volumeAnchorPrefix(volumeLabel)}::DEF::${slug}`;
+}
+
+/**
+ * Lookup key for a term: lower case, single spaces, no straight/curly quote variants
+ */
+function termKey(term: string): string {
+  return term.toLowerCase().replace(/[’‘]/g, "'").replace(/\s+/g, ' ').trim();
+}
+
+export interface Glossary {
+  entries: Map<string, GlossaryEntry>; // termKey -> entry
+  // Multi-word terms, longest first, for matching text without italics
+  phrasePatterns: Array<{ entry: GlossaryEntry; regex: RegExp }>;
+}
+
+/**
+ * Glossary lookup built from the definition rows of a run (first definition of a term wins)
+ */
+export function buildGlossary(entries: GlossaryEntry[]): Glossary {
+  const glossary: Glossary = { entries: new Map(), phrasePatterns: [] };
+  for (const entry of entries) {
+    const key = termKey(entry.term);
+    if (!key || glossary.entries.has(key)) continue;
+    glossary.entries.set(key, entry);
+    if (key.indexOf(' ') !== -1) {
+      const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '\\s+');
+      glossary.phrasePatterns.push({ entry, regex: new RegExp(`\\b${escaped}(?:s|es)?\\b`, 'i') });
+    }
+  }
+  glossary.phrasePatterns.sort((a, b) => b.entry.term.length - a.entry.term.length);
+  return glossary;
+}
+
+/**
+ * Glossary entry for a phrase, allowing plural forms ("exits" -> "exit")
+ */
+export function lookupDefinedTerm(glossary: Glossary, phrase: string): GlossaryEntry | undefined {
+  const key = termKey(phrase);
+  return glossary.entries.get(key)
+    || (/es$/.test(key) ? glossary.entries.get(key.slice(0, -2)) : undefined)
+    || (/s$/.test(key) ? glossary.entries.get(key.slice(0, -1)) : undefined);
+}
+
+/**
+ * Defined terms used by a row
+ * Italic phrases are authoritative; rows without italics fall back to matching
+ * multi-word terms in the text (single words like "exit" are too common to match unformatted).
+ *
+ * @param excludeTerm - The row's own term, for definition rows
+ */
+export function findDefinedTerms(glossary: Glossary, text: string, italicPhrases: string[], excludeTerm = ''): GlossaryEntry[] {
+  const found: GlossaryEntry[] = [];
+  const add = (entry: GlossaryEntry | undefined) => {
+    if (entry && found.indexOf(entry) === -1 && termKey(entry.term) !== termKey(excludeTerm)) {
+      found.push(entry);
+    }
+  };
+
+  if (italicPhrases.length > 0) {
+    italicPhrases.forEach(phrase => add(lookupDefinedTerm(glossary, phrase)));
+  } else {
+    glossary.phrasePatterns.forEach(({ entry, regex }) => {
+      if (regex.test(text)) add(entry);
+    });
+  }
+  return found;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { buildNCCHierarchy, getParentClauseLabel, HierarchyInput } from '@/lib/ncc-hierarchy';
+
+const unit = (unitLabel: string, sectionCode: string, partCode: string, extra: Partial<HierarchyInput> = {}): HierarchyInput => ({
+  unitLabel,
+  sectionCode,
+  partCode,
+  anchorId: unitLabel ? `VOL1::${unitLabel}` : '',
+  ...extra,
+});
+
+describe('getParentClauseLabel', () => {
+  it('finds the base clause of a subclause', () => {
+    expect(getParentClauseLabel('J7D3(1)')).toBe('J7D3');
+    expect(getParentClauseLabel('H2V1a')).toBe('H2V1');
+    expect(getParentClauseLabel('D2D1')).toBe('');
+  });
+});
+
+describe('buildNCCHierarchy', () => {
+  it('creates Volume > Section > Part > Clause paths and parents', () => {
+    const { structuralNodes, unitNodes } = buildNCCHierarchy([unit('D2D1', 'D', 'D2'), unit('D2D2', 'D', 'D2')], 'Vol1');
+
+    expect(structuralNodes.map(node => node.anchorId)).toEqual(['VOL1', 'VOL1::SECTION_D', 'VOL1::PART_D2']);
+    expect(unitNodes[0].path).toBe('Vol1 > Section D > Part D2 > D2D1');
+    expect(unitNodes[0].parentAnchorId).toBe('VOL1::PART_D2');
+    expect(unitNodes.map(node => node.orderInParent)).toEqual([0, 1]);
+  });
+
+  it('hangs subclauses and state variations under their base clause', () => {
+    const { unitNodes } = buildNCCHierarchy(
+      [unit('J7D3', 'J', 'J7'), unit('J7D3(1)', 'J', 'J7'), unit('NSW J7D3', 'J', 'J7', { anchorId: 'VOL1::NSW::J7D3', attachToLabel: 'J7D3' })],
+      'Vol1'
+    );
+
+    expect(unitNodes[1].parentAnchorId).toBe('VOL1::J7D3');
+    expect(unitNodes[1].path).toBe('Vol1 > Section J > Part J7 > J7D3 > J7D3(1)');
+    expect(unitNodes[2].parentAnchorId).toBe('VOL1::J7D3');
+  });
+
+  it('names S-prefixed parts as Specifications directly under the volume', () => {
+    const { unitNodes } = buildNCCHierarchy([unit('S5C2', 'S', 'S5')], 'Vol1');
+    expect(unitNodes[0].path).toBe('Vol1 > Specification 5 > S5C2');
+  });
+
+  it('attaches unlabeled content to the volume root', () => {
+    const { unitNodes } = buildNCCHierarchy([unit('', '', '')], 'Vol1');
+    expect(unitNodes[0].parentAnchorId).toBe('VOL1');
+    expect(unitNodes[0].path).toBe('Vol1');
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * NCC Hierarchy Builder
+ *
+ * Turns the flat list of clause rows produced by the NCC endpoint into a
+ * Volume > Section > Part > Clause > Subclause tree.
+ *
+ * Deterministic, label-driven - the tree is derived purely from the NCC
+ * label grammar (e.g. "D2D1" lives in Part D2 of Section D), so the same
+ * document always produces the same paths, parents and ordering.
+ */
+
+export type HierarchyLevel = 'VOLUME' | 'SECTION' | 'PART' | 'CLAUSE' | 'SUBCLAUSE';
+
+/**
+ * Identity of a single unit row, as computed by the CSV conversion
+ */
+export interface HierarchyInput {
+  unitLabel: string;   // e.g. "D2D1", "J7D3(1)", "H2V1a" or "" for unlabeled content
+  sectionCode: string; // e.g. "D"
+  partCode: string;    // e.g. "D2"
+  anchorId: string;    // e.g. "VOL1::D2D1"
+  attachToLabel?: string; // Clause to hang this unit under when the label alone doesn't say (e.g. state variations)
+}
+
+export interface HierarchyNode {
+  level: HierarchyLevel;
+  label: string;          // Display label used in the path ("Section D", "Part D2", "D2D1")
+  anchorId: string;
+  parentAnchorId: string; // '' for the volume root
+  path: string;           // e.g. "Vol1 > Section D > Part D2 > D2D1"
+  orderInParent: number;  // 0-indexed position among siblings
+  sectionCode: string;    // '' for the volume root and unlabeled content
+  partCode: string;       // '' above part level
+}
+
+export interface NCCHierarchy {
+  structuralNodes: HierarchyNode[]; // Volume, Section and Part nodes in first-seen order
+  unitNodes: HierarchyNode[];       // One node per input, same order as the input
+}
+
+const PATH_SEPARATOR = ' > ';
+
+/**
+ * Build the anchor for a structural (non-clause) node
+ * Examples: "VOL1", "VOL1::SECTION_D", "VOL1::PART_D2"
+ */
+function structuralAnchorId(volumeLabel: string, kind?: 'SECTION' | 'PART', code?: string): string {
+  const volumeUpper = volumeLabel.toUpperCase().replace(/\s+/g, '_');
+  return kind && code ? `${volumeUpper}::${kind}_${code}` : volumeUpper;
+}
+
+/**
+ * Display label for a part node
+ * NCC 2022 Specifications use the S prefix (S5C2 is clause 2 of Specification 5),
+ * so "S5" reads as "Specification 5" rather than "Part S5".
+ */
+function partDisplayLabel(partCode: string): string {
+  const specMatch = partCode.match(/^S(\d+)$/);
+  if (specMatch) return `Specification ${specMatch[1]}`;
+  return `Part ${partCode}`;
+}
+
+/**
+ * Find the label of the clause a subclause belongs to
+ * Examples:
+ *   "J7D3(1)" -> "J7D3"
+ *   "H2V1a"   -> "H2V1"
+ *   "D2D1"    -> "" (not a subclause)
+ */
+export function getParentClauseLabel(unitLabel: string): string {
+  const parenMatch = unitLabel.match(/^(.+?)(\([0-9a-z]+\))+$/i);
+  if (parenMatch) return parenMatch[1];
+
+  const suffixMatch = unitLabel.match(/^([A-Z]\d+[A-Z]\d+)[a-z]$/i);
+  if (suffixMatch) return suffixMatch[1].toUpperCase();
+
+  return '';
+}
+
+/**
+ * Build the hierarchy for one volume
+ *
+ * Structural nodes (Volume, Section, Part) are created on demand as units
+ * reference them. Subclauses attach to their base clause when that clause
+ * is present in the same run; otherwise they attach to the part like any
+ * other clause. Units with an explicit attachToLabel (state variations) follow
+ * the same rule using that label. Unlabeled content attaches to the volume root.
+ *
+ * @param units - Unit identities in document/output order
+ * @param volumeLabel - The volume being processed (e.g., "Vol1")
+ */
+export function buildNCCHierarchy(units: HierarchyInput[], volumeLabel: string): NCCHierarchy {
+  const structuralNodes: HierarchyNode[] = [];
+  const structuralByAnchor = new Map<string, HierarchyNode>();
+  const childCounts = new Map<string, number>();
+
+  const nextOrder = (parentAnchorId: string): number => {
+    const order = childCounts.get(parentAnchorId) || 0;
+    childCounts.set(parentAnchorId, order + 1);
+    return order;
+  };
+
+  const ensureStructural = (
+    level: HierarchyLevel,
+    label: string,
+    anchorId: string,
+    parent: HierarchyNode | null,
+    sectionCode = '',
+    partCode = ''
+  ): HierarchyNode => {
+    const existing = structuralByAnchor.get(anchorId);
+    if (existing) return existing;
+
+    const node: HierarchyNode = {
+      level,
+      label,
+      anchorId,
+      parentAnchorId: parent ? parent.anchorId : '',
+      path: parent ? parent.path + PATH_SEPARATOR + label : label,
+      orderInParent: parent ? nextOrder(parent.anchorId) : 0,
+      sectionCode,
+      partCode,
+    };
+    structuralByAnchor.set(anchorId, node);
+    structuralNodes.push(node);
+    return node;
+  };
+
+  const volumeNode = ensureStructural('VOLUME', volumeLabel, structuralAnchorId(volumeLabel), null);
+
+  // Index clause anchors by label so subclauses can find their base clause
+  const clauseAnchorsByLabel = new Map<string, string>();
+  units.forEach(unit => {
+    if (unit.unitLabel && !unit.attachToLabel && !getParentClauseLabel(unit.unitLabel) && !clauseAnchorsByLabel.has(unit.unitLabel)) {
+      clauseAnchorsByLabel.set(unit.unitLabel, unit.anchorId);
+    }
+  });
+
+  const unitNodes: HierarchyNode[] = [];
+  const clausePaths = new Map<string, string>();
+
+  for (const unit of units) {
+    // Resolve the containing part (or the volume root if the label has no part)
+    let container = volumeNode;
+    if (unit.sectionCode && unit.partCode) {
+      const isSpecification = unit.sectionCode === 'S';
+      const sectionNode = isSpecification
+        ? volumeNode
+        : ensureStructural('SECTION', `Section ${unit.sectionCode}`, structuralAnchorId(volumeLabel, 'SECTION', unit.sectionCode), volumeNode, unit.sectionCode);
+      container = ensureStructural('PART', partDisplayLabel(unit.partCode), structuralAnchorId(volumeLabel, 'PART', unit.partCode), sectionNode, unit.sectionCode, unit.partCode);
+    }
+
+    if (!unit.unitLabel) {
+      unitNodes.push({
+        level: 'CLAUSE',
+        label: '',
+        anchorId: unit.anchorId,
+        parentAnchorId: volumeNode.anchorId,
+        path: volumeNode.path,
+        orderInParent: nextOrder(volumeNode.anchorId),
+        sectionCode: unit.sectionCode,
+        partCode: unit.partCode,
+      });
+      continue;
+    }
+
+    const baseLabel = unit.attachToLabel || getParentClauseLabel(unit.unitLabel);
+    const baseAnchorId = baseLabel ? clauseAnchorsByLabel.get(baseLabel) : undefined;
+
+    if (baseLabel && baseAnchorId) {
+      const basePath = clausePaths.get(baseLabel) || container.path + PATH_SEPARATOR + baseLabel;
+      unitNodes.push({
+        level: 'SUBCLAUSE',
+        label: unit.unitLabel,
+        anchorId: unit.anchorId,
+        parentAnchorId: baseAnchorId,
+        path: basePath + PATH_SEPARATOR + unit.unitLabel,
+        orderInParent: nextOrder(baseAnchorId),
+        sectionCode: unit.sectionCode,
+        partCode: unit.partCode,
+      });
+      continue;
+    }
+
+    const path = container.path + PATH_SEPARATOR + unit.unitLabel;
+    if (!clausePaths.has(unit.unitLabel)) {
+      clausePaths.set(unit.unitLabel, path);
+    }
+    unitNodes.push({
+      level: 'CLAUSE',
+      label: unit.unitLabel,
+      anchorId: unit.anchorId,
+      parentAnchorId: container.anchorId,
+      path,
+      orderInParent: nextOrder(container.anchorId),
+      sectionCode: unit.sectionCode,
+      partCode: unit.partCode,
+    });
+  }
+
+  return { structuralNodes, unitNodes };
+}
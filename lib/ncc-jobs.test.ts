@@ -0,0 +1,10 @@
+import { describe, expect, it } from 'vitest';
+import { submitNCCJob } from '@/lib/ncc-jobs';
+
+describe('submitNCCJob', () => {
+  it('refuses volumes that are not NCC volume labels', () => {
+    const input = { buffer: Buffer.from(''), sourceFile: 'x.docx', format: 'csv' as const, splitOversized: true };
+    expect(() => submitNCCJob({ ...input, volume: '/../../../tmp/x' })).toThrow('Unknown volume');
+    expect(() => submitNCCJob({ ...input, volume: 'Vol4' })).toThrow('Unknown volume');
+  });
+});
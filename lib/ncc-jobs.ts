@@ -0,0 +1,375 @@
+/**
+ * NCC Background Job Queue
+ *
+ * Full NCC volumes take minutes to convert, longer than a browser request
+ * should stay open. Jobs are queued here and processed one at a time in the
+ * server process; the client polls for per-phase progress and downloads the
+ * result when it is done.
+ *
+ * Job records are persisted to output/jobs/<id>.json and results are written
+ * to output/ (figure images to output/<result name>_images/, the QA report to
+ * output/<result name>_qa.json and .html), so completed jobs can be downloaded
+ * again after a restart.
+ * Jobs that were running when the server stopped are marked failed; queued
+ * jobs are picked up again.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  extractNCCRows,
+  convertToCSVFormat,
+  writeNCCCSV,
+  createExcelBuffer,
+  CSVFormatOptions,
+  CSVWriteOptions,
+  NCC_PHASES,
+  NCCExtractOptions,
+  NCCPhase,
+  NCCProgress,
+  NCCProgressCallback,
+  NCCStats,
+} from '@/lib/ncc-pipeline';
+import { buildQualityReport, pickSummary, writeQualityReport, NCCQualityReport, NCCQualitySummary } from '@/lib/ncc-qa';
+import { assertNCCRows, NCC_SCHEMA_VERSION } from '@/lib/ncc-schema';
+import { writeJSONL } from '@/lib/ncc-jsonl';
+import { createArrowBuffer } from '@/lib/ncc-arrow';
+import { writeSQLite } from '@/lib/ncc-sqlite';
+import { buildRagChunks, writeRagChunks, DEFAULT_RAG_CHUNK_OPTIONS, NCCRagChunkOptions } from '@/lib/ncc-rag';
+import { NCC_VOLUMES } from '@/lib/ncc-volumes';
+import { EXCEL_CELL_LIMIT } from '@/lib/ncc-overflow';
+
+export const OUTPUT_DIR = path.join(process.cwd(), 'output');
+const JOBS_DIR = path.join(OUTPUT_DIR, 'jobs');
+
+export type NCCJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+export type NCCJobFormat = 'csv' | 'excel' | 'jsonl' | 'arrow' | 'sqlite' | 'chunks';
+
+const OUTPUT_EXTENSIONS: Record<NCCJobFormat, string> = {
+  csv: 'csv',
+  excel: 'xlsx',
+  jsonl: 'jsonl',
+  arrow: 'arrow',
+  sqlite: 'sqlite',
+  chunks: 'chunks.jsonl',
+};
+
+export const NCC_JOB_FORMATS = Object.keys(OUTPUT_EXTENSIONS) as NCCJobFormat[];
+
+export interface NCCJobPhase {
+  id: NCCPhase;
+  label: string;
+  completed: number;
+  total: number; // 0 until the phase has started
+}
+
+export interface NCCJob {
+  id: string;
+  status: NCCJobStatus;
+  volume: string; // e.g. "Vol1"
+  format: NCCJobFormat;
+  splitOversized: boolean;
+  csvFormat: CSVFormatOptions; // Delimiter, BOM and line breaks of CSV output
+  ragChunks: NCCRagChunkOptions; // Token budget and overlap of RAG chunk output
+  sourceFile: string; // Original upload filename
+  outputFile: string; // Filename under output/ ('' until completed)
+  schemaVersion: string; // lib/ncc-schema version of the rows behind non-Excel output ('' for Excel, or until completed)
+  imagesDir: string; // Figure image folder under output/ ('' if no images were saved)
+  qaJsonFile: string; // QA report under output/ ('' until completed)
+  qaHtmlFile: string;
+  qa: NCCQualitySummary | null;
+  phases: NCCJobPhase[];
+  stats: NCCStats | null;
+  error: string;
+  createdAt: string;
+  startedAt: string;
+  finishedAt: string;
+}
+
+export interface NCCJobInput {
+  buffer: Buffer;
+  sourceFile: string;
+  volume: string;
+  format: NCCJobFormat;
+  splitOversized: boolean;
+  csvFormat?: CSVFormatOptions;
+  ragChunks?: NCCRagChunkOptions;
+}
+
+interface JobQueueState {
+  jobs: Map<string, NCCJob>;
+  pending: string[];
+  running: boolean;
+}
+
+// Kept on globalThis so the queue survives module reloads in `next dev`
+const globalForJobs = globalThis as unknown as { nccJobQueue?: JobQueueState };
+
+function jobRecordPath(id: string): string {
+  return path.join(JOBS_DIR, `${id}.json`);
+}
+
+function jobInputPath(id: string): string {
+  return path.join(JOBS_DIR, `${id}.docx`);
+}
+
+function saveJob(job: NCCJob): void {
+  fs.writeFileSync(jobRecordPath(job.id), JSON.stringify(job, null, 2));
+}
+
+/**
+ * Queue state, loading persisted jobs on first use
+ */
+function getQueue(): JobQueueState {
+  if (globalForJobs.nccJobQueue) return globalForJobs.nccJobQueue;
+
+  const state: JobQueueState = { jobs: new Map(), pending: [], running: false };
+  globalForJobs.nccJobQueue = state;
+  fs.mkdirSync(JOBS_DIR, { recursive: true });
+
+  const records = fs.readdirSync(JOBS_DIR).filter(name => name.endsWith('.json'));
+  for (const name of records) {
+    let job: NCCJob;
+    try {
+      job = JSON.parse(fs.readFileSync(path.join(JOBS_DIR, name), 'utf-8'));
+    } catch (err) {
+      console.warn(`[NCC Jobs] Skipping unreadable job record ${name}:`, err);
+      continue;
+    }
+
+    if (job.status === 'running' || (job.status === 'queued' && !fs.existsSync(jobInputPath(job.id)))) {
+      job.status = 'failed';
+      job.error = 'Interrupted by a server restart';
+      job.finishedAt = new Date().toISOString();
+      saveJob(job);
+    }
+    state.jobs.set(job.id, job);
+  }
+
+  // Resume queued jobs in submission order
+  state.jobs.forEach(job => {
+    if (job.status === 'queued') state.pending.push(job.id);
+  });
+  state.pending.sort((a, b) => state.jobs.get(a)!.createdAt.localeCompare(state.jobs.get(b)!.createdAt));
+  processQueue(state);
+
+  return state;
+}
+
+/**
+ * Queue a DOCX for processing
+ * The volume must be an NCC_VOLUMES label: it names the output files.
+ */
+export function submitNCCJob(input: NCCJobInput): NCCJob {
+  if (!NCC_VOLUMES.some(volume => volume.label === input.volume)) {
+    throw new Error(`Unknown volume "${input.volume}"`);
+  }
+
+  const state = getQueue();
+  const job: NCCJob = {
+    id: uuidv4(),
+    status: 'queued',
+    volume: input.volume,
+    format: input.format,
+    splitOversized: input.splitOversized,
+    csvFormat: input.csvFormat || {},
+    ragChunks: input.ragChunks || DEFAULT_RAG_CHUNK_OPTIONS,
+    sourceFile: input.sourceFile,
+    outputFile: '',
+    schemaVersion: '',
+    imagesDir: '',
+    qaJsonFile: '',
+    qaHtmlFile: '',
+    qa: null,
+    phases: NCC_PHASES.map(phase => ({ id: phase.id, label: phase.label, completed: 0, total: 0 })),
+    stats: null,
+    error: '',
+    createdAt: new Date().toISOString(),
+    startedAt: '',
+    finishedAt: '',
+  };
+
+  // The upload is kept until the job has run
+  fs.writeFileSync(jobInputPath(job.id), input.buffer);
+  saveJob(job);
+  state.jobs.set(job.id, job);
+  state.pending.push(job.id);
+  console.log(`[NCC Jobs] Queued ${job.id}: ${job.sourceFile} (${job.volume}, ${job.format})`);
+
+  processQueue(state);
+  return job;
+}
+
+export function getNCCJob(id: string): NCCJob | undefined {
+  return getQueue().jobs.get(id);
+}
+
+/**
+ * All known jobs, newest first
+ */
+export function listNCCJobs(): NCCJob[] {
+  const jobs: NCCJob[] = [];
+  getQueue().jobs.forEach(job => jobs.push(job));
+  return jobs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Absolute path of a completed job's output file or QA report ('' if not available)
+ */
+export function getNCCJobOutputPath(job: NCCJob, file: 'output' | 'qa-json' | 'qa-html' = 'output'): string {
+  if (job.status !== 'completed') return '';
+  const name = file === 'qa-json' ? job.qaJsonFile : file === 'qa-html' ? job.qaHtmlFile : job.outputFile;
+  if (!name) return '';
+  const outputPath = path.join(OUTPUT_DIR, name);
+  return fs.existsSync(outputPath) ? outputPath : '';
+}
+
+/**
+ * Run pending jobs one at a time (conversion is CPU and memory heavy)
+ */
+function processQueue(state: JobQueueState): void {
+  if (state.running) return;
+  const nextId = state.pending.shift();
+  if (!nextId) return;
+
+  const job = state.jobs.get(nextId);
+  if (!job) {
+    processQueue(state);
+    return;
+  }
+
+  state.running = true;
+  runJob(job)
+    .catch(err => {
+      console.error(`[NCC Jobs] ❌ ${job.id} failed:`, err.message);
+      console.error(err.stack);
+      job.status = 'failed';
+      job.error = err.message || 'An error occurred during processing';
+    })
+    .then(() => {
+      job.finishedAt = new Date().toISOString();
+      saveJob(job);
+      try {
+        fs.unlinkSync(jobInputPath(job.id));
+      } catch (err) {
+        console.warn(`[NCC Jobs] Failed to delete input for ${job.id}:`, err);
+      }
+      state.running = false;
+      processQueue(state);
+    });
+}
+
+async function runJob(job: NCCJob): Promise<void> {
+  job.status = 'running';
+  job.startedAt = new Date().toISOString();
+  saveJob(job);
+  console.log(`[NCC Jobs] Running ${job.id}: ${job.sourceFile}`);
+
+  const onProgress = (progress: NCCProgress) => {
+    const phase = job.phases.find(p => p.id === progress.phase);
+    if (!phase) return;
+    phase.completed = progress.completed;
+    phase.total = progress.total;
+    saveJob(job);
+  };
+
+  const extension = OUTPUT_EXTENSIONS[job.format];
+  const outputName = `ncc_${job.volume.toLowerCase()}_${Date.now()}`;
+  const outputFile = `${outputName}.${extension}`;
+  const outputPath = path.join(OUTPUT_DIR, outputFile);
+  const imagesDir = `${outputName}_images`;
+
+  const buffer = fs.readFileSync(jobInputPath(job.id));
+  const extractOptions = {
+    volumeLabel: job.volume,
+    splitOversized: job.splitOversized,
+    cellLimit: job.format === 'excel' ? EXCEL_CELL_LIMIT : undefined,
+    imageOutput: { dir: path.join(OUTPUT_DIR, imagesDir), relativeDir: imagesDir },
+    onProgress,
+  };
+
+  // CSV is converted and written a section at a time; the other formats need every row at once
+  const { stats, qaReport } = job.format === 'csv'
+    ? await writeNCCCSVFile(buffer, { ...extractOptions, sourceFile: job.sourceFile }, outputPath, { ...job.csvFormat, onProgress })
+    : await writeRowsOutput(job, buffer, extractOptions, outputPath);
+  const qaFiles = writeQualityReport(qaReport, OUTPUT_DIR, `${outputName}_qa`);
+
+  job.status = 'completed';
+  job.outputFile = outputFile;
+  job.schemaVersion = job.format === 'excel' ? '' : NCC_SCHEMA_VERSION;
+  job.imagesDir = fs.existsSync(path.join(OUTPUT_DIR, imagesDir)) ? imagesDir : '';
+  job.qaJsonFile = qaFiles.jsonFile;
+  job.qaHtmlFile = qaFiles.htmlFile;
+  job.qa = pickSummary(qaReport);
+  job.stats = stats;
+  console.log(`[NCC Jobs] ✅ ${job.id}: ${stats.totalRows} rows exported to output/${outputFile}`);
+}
+
+/**
+ * Write a volume's CSV to a file, extracted, converted and written one section at a time
+ * (also used by the synchronous endpoint, which sends the file once it is complete)
+ */
+export async function writeNCCCSVFile(
+  buffer: Buffer,
+  options: NCCExtractOptions & { sourceFile: string },
+  outputPath: string,
+  csvOptions: CSVWriteOptions
+): Promise<{ stats: NCCStats; qaReport: NCCQualityReport }> {
+  const out = fs.createWriteStream(outputPath);
+  return new Promise((resolve, reject) => {
+    out.on('error', reject);
+    writeNCCCSV(buffer, options, out, csvOptions)
+      .then(result => out.end(() => resolve(result)))
+      .catch(reject);
+  });
+}
+
+/**
+ * Other formats: every row is extracted and converted, then written
+ */
+async function writeRowsOutput(
+  job: NCCJob,
+  buffer: Buffer,
+  options: NCCExtractOptions & { onProgress: NCCProgressCallback },
+  outputPath: string
+): Promise<{ stats: NCCStats; qaReport: NCCQualityReport }> {
+  const { onProgress } = options;
+  const { rows, stats, edition } = await extractNCCRows(buffer, options);
+
+  // CSV rows carry the QA flags, so they are built for Excel output too
+  const csvRows = convertToCSVFormat(rows, job.volume, job.sourceFile, edition);
+  const qaReport = buildQualityReport(csvRows);
+  const qa = pickSummary(qaReport);
+
+  if (job.format === 'jsonl') {
+    const out = fs.createWriteStream(outputPath);
+    await new Promise<void>((resolve, reject) => {
+      out.on('error', reject);
+      writeJSONL(csvRows, out, onProgress)
+        .then(() => out.end(() => resolve()))
+        .catch(reject);
+    });
+  } else if (job.format === 'arrow') {
+    fs.writeFileSync(outputPath, createArrowBuffer(csvRows));
+    onProgress({ phase: 'csv_write', completed: 1, total: 1 });
+  } else if (job.format === 'sqlite') {
+    writeSQLite(csvRows, outputPath, { source_file: job.sourceFile, qa_summary: JSON.stringify(qa) });
+    onProgress({ phase: 'csv_write', completed: 1, total: 1 });
+  } else if (job.format === 'chunks') {
+    const chunks = buildRagChunks(csvRows, job.ragChunks, onProgress);
+    const out = fs.createWriteStream(outputPath);
+    await new Promise<void>((resolve, reject) => {
+      out.on('error', reject);
+      writeRagChunks(chunks, out)
+        .then(() => out.end(() => resolve()))
+        .catch(reject);
+    });
+  } else {
+    assertNCCRows(csvRows);
+    fs.writeFileSync(outputPath, createExcelBuffer(rows));
+    onProgress({ phase: 'csv_write', completed: 1, total: 1 });
+  }
+
+  return { stats, qaReport };
+}
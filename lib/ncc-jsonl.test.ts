@@ -0,0 +1,52 @@
+import { PassThrough } from 'stream';
+import { describe, expect, it } from 'vitest';
+import { toUnitRecord, writeJSONL } from '@/lib/ncc-jsonl';
+import { NCC_COLUMN_NAMES } from '@/lib/ncc-schema';
+import { rowByAnchor, sampleNCCRows } from '@/lib/__fixtures__/ncc-rows';
+
+describe('toUnitRecord', () => {
+  const rows = sampleNCCRows();
+
+  it('nests related columns and parses JSON and list columns', () => {
+    const record = toUnitRecord(rowByAnchor(rows, 'VOL1::TABLE::D2D2'));
+    const table = record.table as { id: string; grid: unknown; key_values: string };
+
+    expect(table.id).toBe('D2D2');
+    expect(table.grid).toEqual([{ headers: ['Class', 'Width (m)'], rows: [['3', '1']] }]);
+    expect((record.asset as { type: string }).type).toBe('TABLE');
+    expect(record.state_variation).toBeNull();
+    expect(Array.isArray((record.refs as { internal: unknown }).internal)).toBe(true);
+    expect(record).not.toHaveProperty('table_id');
+  });
+
+  it('keeps numbers typed and makes empty numbers null', () => {
+    expect(toUnitRecord(rowByAnchor(rows, 'VOL1::D2P1')).extract_confidence).toEqual(expect.any(Number));
+    expect(toUnitRecord(rowByAnchor(rows, 'VOL1')).extract_confidence).toBeNull();
+  });
+
+  it('records the state variation of a variation row', () => {
+    const variation = toUnitRecord(rowByAnchor(rows, 'VOL1::NSW::D2D2')).state_variation as { state: string; affects_anchor_id: string };
+    expect(variation.state).toBe('NSW');
+    expect(variation.affects_anchor_id).toBe('VOL1::D2D2');
+  });
+
+  it('keeps schema column order for the top-level keys', () => {
+    const groups = ['refs', 'asset', 'table', 'state_variation'];
+    const columnKeys = Object.keys(toUnitRecord(rows[0])).filter(key => groups.indexOf(key) === -1);
+    expect(columnKeys).toEqual(NCC_COLUMN_NAMES.filter(name => columnKeys.indexOf(name) !== -1));
+  });
+});
+
+describe('writeJSONL', () => {
+  it('writes one record per line', async () => {
+    const rows = sampleNCCRows();
+    const out = new PassThrough();
+    const parts: Buffer[] = [];
+    out.on('data', (part: Buffer) => parts.push(part));
+    await writeJSONL(rows, out);
+    const lines = Buffer.concat(parts).toString('utf8').split('\n');
+
+    expect(lines.pop()).toBe('');
+    expect(lines.map(line => JSON.parse(line).anchor_id)).toEqual(rows.map(row => row.anchor_id));
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * JSONL Export
+ *
+ * One JSON object per NCC row, for vector-store loaders that shouldn't have
+ * to parse JSON out of CSV cells:
+ * - JSON columns (warnings, formula_json, bbox_json) are parsed; empty -> null
+ * - numbers stay numbers; an empty extract_confidence (structural rows) is null
+ * - "|"-separated list columns become arrays
+ * - related columns are nested: refs, asset, table, state_variation
+ *   (asset, table and state_variation are null when the row has none)
+ *
+ * Records keep the schema's column order; a nested object sits where its first
+ * column would be. Rows are validated against lib/ncc-schema before writing.
+ */
+
+import { assertNCCRows, NCC_COLUMNS, NCC_COLUMN_NAMES, NCCColumnName, NCCRow } from '@/lib/ncc-schema';
+import { NCCProgressCallback } from '@/lib/ncc-pipeline';
+
+export type NCCUnitRecord = { [key: string]: unknown };
+
+interface NestedGroup {
+  name: string;
+  fields: { [field: string]: NCCColumnName };
+  optional: boolean; // null when every column is empty
+}
+
+const NESTED_GROUPS: NestedGroup[] = [
+  {
+    name: 'refs',
+    fields: {
+      external: 'external_refs',
+      internal: 'internal_refs',
+      satisfies_pr_ids: 'satisfies_pr_ids',
+      related_unit_ids: 'related_unit_ids',
+      defined_terms_used: 'defined_terms_used',
+      standards: 'standards_referenced',
+    },
+    optional: false,
+  },
+  {
+    name: 'asset',
+    fields: { type: 'asset_type', id: 'asset_id', caption: 'asset_caption', alt_text: 'asset_alt_text', file: 'asset_file' },
+    optional: true,
+  },
+  {
+    name: 'table',
+    fields: {
+      id: 'table_id',
+      label: 'table_label',
+      purpose: 'table_purpose',
+      lte: 'table_lte',
+      grid: 'table_grid_json',
+      key_values: 'table_key_values',
+    },
+    optional: true,
+  },
+  {
+    name: 'state_variation',
+    fields: {
+      state: 'applies_state',
+      action: 'variation_action',
+      affected_unit_label: 'affected_unit_label',
+      affected_subclause: 'affected_subclause',
+      affected_subparts: 'affected_subparts',
+      affects_anchor_id: 'affects_anchor_id',
+    },
+    optional: true,
+  },
+];
+
+// Columns a nested group already carries (state_variation is the same value as applies_state)
+const DROPPED_COLUMNS: NCCColumnName[] = ['state_variation'];
+
+// "|"-separated columns written as arrays; JSON columns holding lists are empty arrays when blank
+const LIST_COLUMNS: NCCColumnName[] = ['standards_referenced', 'notes_quality', 'applies_to_class', 'verification_method_for'];
+const JSON_LIST_COLUMNS: NCCColumnName[] = ['external_refs', 'internal_refs', 'satisfies_pr_ids', 'related_unit_ids', 'defined_terms_used', 'warnings'];
+
+const GROUP_OF: { [column: string]: NestedGroup } = {};
+NESTED_GROUPS.forEach(group => {
+  Object.keys(group.fields).forEach(field => {
+    GROUP_OF[group.fields[field]] = group;
+  });
+});
+
+function recordValue(name: NCCColumnName, value: string | number | boolean): unknown {
+  if (LIST_COLUMNS.indexOf(name) !== -1) {
+    return value === '' ? [] : String(value).split('|');
+  }
+  if (NCC_COLUMNS[name].type === 'json') {
+    if (value === '') return JSON_LIST_COLUMNS.indexOf(name) !== -1 ? [] : null;
+    return JSON.parse(String(value));
+  }
+  if (NCC_COLUMNS[name].type === 'number' && value === '') return null;
+  return value;
+}
+
+/**
+ * Nested record for one NCC row
+ */
+export function toUnitRecord(row: NCCRow): NCCUnitRecord {
+  const record: NCCUnitRecord = {};
+
+  for (const name of NCC_COLUMN_NAMES) {
+    if (DROPPED_COLUMNS.indexOf(name) !== -1) continue;
+    const group = GROUP_OF[name];
+    if (!group) {
+      record[name] = recordValue(name, row[name]);
+      continue;
+    }
+    if (Object.prototype.hasOwnProperty.call(record, group.name)) continue;
+
+    const fields = Object.keys(group.fields);
+    if (group.optional && fields.every(field => row[group.fields[field]] === '')) {
+      record[group.name] = null;
+      continue;
+    }
+    const nested: NCCUnitRecord = {};
+    fields.forEach(field => {
+      nested[field] = recordValue(group.fields[field], row[group.fields[field]]);
+    });
+    record[group.name] = nested;
+  }
+
+  return record;
+}
+
+/**
+ * Write NCC rows as JSONL, one record per line
+ * Lines are batched into ~64 KB writes and the stream's backpressure is respected.
+ */
+export async function writeJSONL(
+  rows: NCCRow[],
+  out: NodeJS.WritableStream,
+  onProgress?: NCCProgressCallback
+): Promise<void> {
+  assertNCCRows(rows);
+
+  const write = async (chunk: string): Promise<void> => {
+    if (!out.write(chunk)) {
+      await new Promise<void>(resolve => out.once('drain', () => resolve()));
+    }
+  };
+
+  let pending = '';
+  for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
+    pending += JSON.stringify(toUnitRecord(rows[rowIndex])) + '\n';
+    if (pending.length >= 65536) {
+      await write(pending);
+      pending = '';
+      if (onProgress) onProgress({ phase: 'csv_write', completed: rowIndex + 1, total: rows.length });
+    }
+  }
+
+  if (pending) await write(pending);
+  if (onProgress) onProgress({ phase: 'csv_write', completed: rows.length, total: rows.length });
+}
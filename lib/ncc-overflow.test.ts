@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { continuationAnchorId, joinContinuationParts, splitOversizedText } from '@/lib/ncc-overflow';
+
+describe('splitOversizedText', () => {
+  it('returns text that fits unchanged', () => {
+    expect(splitOversizedText('short', 10)).toEqual(['short']);
+  });
+
+  it('splits at paragraph breaks first and rejoins exactly', () => {
+    const text = 'First paragraph here.\n\nSecond one.\n\nThird paragraph.';
+    const parts = splitOversizedText(text, 36);
+
+    expect(parts).toEqual(['First paragraph here.\n\nSecond one.\n\n', 'Third paragraph.']);
+    expect(joinContinuationParts(parts)).toBe(text);
+  });
+
+  it('does not split at paragraph breaks inside a table block', () => {
+    const text = 'Intro.\n\n[TABLE]\nrow 1\n\nrow 2\n[/TABLE]';
+    const parts = splitOversizedText(text, 24);
+
+    expect(parts[0]).toBe('Intro.\n\n');
+    expect(parts.every(part => part.length <= 24)).toBe(true);
+    expect(joinContinuationParts(parts)).toBe(text);
+  });
+
+  it('falls back to sentence ends, spaces and hard cuts', () => {
+    expect(splitOversizedText('One sentence. Two sentence.', 16)).toEqual(['One sentence. ', 'Two sentence.']);
+    expect(splitOversizedText('aaaaaaaaaa', 4)).toEqual(['aaaa', 'aaaa', 'aa']);
+  });
+});
+
+describe('continuationAnchorId', () => {
+  it('keeps the base anchor for part 1 and suffixes later parts', () => {
+    expect(continuationAnchorId('VOL1::D2D1', 1)).toBe('VOL1::D2D1');
+    expect(continuationAnchorId('VOL1::D2D1', 3)).toBe('VOL1::D2D1#part3');
+    expect(continuationAnchorId('', 2)).toBe('');
+  });
+});
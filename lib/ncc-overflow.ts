@@ -0,0 +1,104 @@
+/**
+ * Oversized Clause Splitting
+ *
+ * Excel cells hold at most 32,767 characters. Rather than truncating long
+ * clauses (large Specifications, clauses with several tables), the text is
+ * split into ordered continuation parts at the most natural boundary that
+ * fits: paragraph break, then table row, then sentence/word, then a hard cut.
+ *
+ * Split points are positions in the original string, so concatenating the
+ * parts in order reproduces the clause text exactly (see joinContinuationParts).
+ */
+
+export const EXCEL_CELL_LIMIT = 32767;
+
+/**
+ * Find the furthest position in (start, end] matching a boundary regex
+ * The returned position is just after the match, i.e. the start of the next part
+ */
+function lastBoundary(text: string, start: number, end: number, boundary: RegExp): number {
+  const window = text.substring(start, end);
+  const regex = new RegExp(boundary.source, 'g');
+  let best = -1;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(window)) !== null) {
+    const position = match.index + match[0].length;
+    if (position > 0 && position <= window.length) best = position;
+    if (match[0].length === 0) regex.lastIndex++;
+  }
+  return best > 0 ? start + best : -1;
+}
+
+/**
+ * Ranges covered by [TABLE]...[/TABLE] blocks; paragraph breaks inside them are not split points
+ */
+function tableRanges(text: string): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  const regex = /\[TABLE\][\s\S]*?\[\/TABLE\]/g;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text)) !== null) {
+    ranges.push([match.index, match.index + match[0].length]);
+  }
+  return ranges;
+}
+
+/**
+ * Split text into parts no longer than limit
+ * Returns [text] unchanged when it already fits.
+ */
+export function splitOversizedText(text: string, limit: number = EXCEL_CELL_LIMIT): string[] {
+  if (text.length <= limit) return [text];
+
+  const tables = tableRanges(text);
+  const insideTable = (position: number) => tables.some(([from, to]) => position > from && position < to);
+
+  const parts: string[] = [];
+  let start = 0;
+
+  while (text.length - start > limit) {
+    const end = start + limit;
+    let cut = -1;
+
+    // 1. Paragraph boundary outside any table
+    const paragraphRegex = /\n{2,}/g;
+    paragraphRegex.lastIndex = start;
+    let match: RegExpExecArray | null;
+    while ((match = paragraphRegex.exec(text)) !== null) {
+      const position = match.index + match[0].length;
+      if (position > end) break;
+      if (!insideTable(match.index)) cut = position;
+    }
+
+    // 2. Table boundary: between rows of a table
+    if (cut <= start) cut = lastBoundary(text, start, end, /\n/);
+
+    // 3. Sentence end, then any whitespace
+    if (cut <= start) cut = lastBoundary(text, start, end, /[.;:!?]\s+/);
+    if (cut <= start) cut = lastBoundary(text, start, end, /\s+/);
+
+    // 4. Hard cut
+    if (cut <= start) cut = end;
+
+    parts.push(text.substring(start, cut));
+    start = cut;
+  }
+
+  parts.push(text.substring(start));
+  return parts;
+}
+
+/**
+ * Rejoin continuation parts (in part order) into the original clause text
+ */
+export function joinContinuationParts(parts: string[]): string {
+  return parts.join('');
+}
+
+/**
+ * Anchor suffix for a continuation part: part 1 keeps the base anchor,
+ * later parts become "<base>#part2", "<base>#part3", ...
+ */
+export function continuationAnchorId(baseAnchorId: string, partNumber: number): string {
+  if (!baseAnchorId || partNumber <= 1) return baseAnchorId;
+  return `${baseAnchorId}#part${partNumber}`;
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { parseHTML } from 'linkedom';
+import { findPageBreakBeforeStyleIds, markPages, pageLabelFromAnchorId, traceElementPages } from '@/lib/ncc-pages';
+
+const paragraph = (text: string, pPr = '') => `<w:p>${pPr ? `<w:pPr>${pPr}</w:pPr>` : ''}<w:r><w:t>${text}</w:t></w:r></w:p>`;
+const pageBreak = '<w:p><w:r><w:br w:type="page"/></w:r></w:p>';
+
+// Page labels bookmarked in marked XML, in order
+const bookmarkedPages = (xml: string): string[] => (xml.match(/w:name="_ncc_page_[^"]+"/g) || []).map(name => name.slice(18, -1));
+
+describe('findPageBreakBeforeStyleIds', () => {
+  it('lists styles that start a new page', () => {
+    const styles = '<w:styles>'
+      + '<w:style w:type="paragraph" w:styleId="Heading1"><w:pPr><w:pageBreakBefore/></w:pPr></w:style>'
+      + '<w:style w:type="paragraph" w:styleId="Heading2"><w:pPr><w:pageBreakBefore w:val="0"/></w:pPr></w:style>'
+      + '<w:style w:type="paragraph" w:styleId="Normal"></w:style>'
+      + '</w:styles>';
+    expect(findPageBreakBeforeStyleIds(styles)).toEqual(['Heading1']);
+  });
+});
+
+describe('markPages', () => {
+  it('counts explicit page breaks and "page break before" paragraphs', () => {
+    const content = paragraph('one') + pageBreak + paragraph('two') + paragraph('three', '<w:pStyle w:val="Heading1"/>');
+    const marked = markPages(content, '<w:sectPr/>', ['Heading1']);
+
+    expect(bookmarkedPages(marked.xml)).toEqual(['2', '3']);
+    expect(marked.labelAt(0)).toBe('1');
+    expect(marked.labelAt(marked.xml.indexOf('two'))).toBe('2');
+    expect(marked.labelAt(marked.xml.indexOf('three'))).toBe('3');
+  });
+
+  it('starts one page for a break followed by a "page break before" paragraph', () => {
+    const content = paragraph('one') + pageBreak + paragraph('two', '<w:pageBreakBefore/>');
+    expect(bookmarkedPages(markPages(content, '<w:sectPr/>', []).xml)).toEqual(['2']);
+  });
+
+  it('uses rendered page breaks when the document has them', () => {
+    const content = paragraph('one') + pageBreak + '<w:p><w:r><w:lastRenderedPageBreak/><w:t>two</w:t></w:r></w:p>';
+    const marked = markPages(content, '<w:sectPr/>', []);
+
+    expect(bookmarkedPages(marked.xml)).toEqual(['2']);
+    expect(marked.labelAt(marked.xml.indexOf('two'))).toBe('2');
+  });
+
+  it('restarts and reformats numbering at a section break', () => {
+    const content = paragraph('cover', '<w:sectPr><w:pgNumType w:fmt="lowerRoman"/></w:sectPr>')
+      + paragraph('contents')
+      + pageBreak
+      + paragraph('more contents', '<w:sectPr><w:pgNumType w:fmt="lowerRoman"/></w:sectPr>')
+      + paragraph('Section A');
+    const marked = markPages(content, '<w:sectPr><w:pgNumType w:start="1"/></w:sectPr>', []);
+
+    expect(bookmarkedPages(marked.xml)).toEqual(['ii', 'iii', '1']);
+    expect(marked.labelAt(0)).toBe('i');
+    expect(marked.labelAt(marked.xml.indexOf('Section A'))).toBe('1');
+  });
+
+  it('keeps the page across a continuous section break', () => {
+    const content = paragraph('one', '<w:sectPr><w:type w:val="continuous"/></w:sectPr>') + paragraph('two');
+    expect(bookmarkedPages(markPages(content, '<w:sectPr><w:type w:val="continuous"/></w:sectPr>', []).xml)).toEqual([]);
+  });
+});
+
+describe('pageLabelFromAnchorId', () => {
+  it('reads page bookmarks and ignores other anchors', () => {
+    expect(pageLabelFromAnchorId('_ncc_page_iv')).toBe('iv');
+    expect(pageLabelFromAnchorId('_Toc12345')).toBe('');
+  });
+});
+
+describe('traceElementPages', () => {
+  it('gives each element the pages of its first and last text', () => {
+    const { document } = parseHTML(
+      '<html><body>'
+      + '<p>Intro</p>'
+      + '<p><a id="_ncc_page_5"></a>Starts on a new page</p>'
+      + '<p>Runs over <a id="_ncc_page_6"></a>a page break</p>'
+      + '<p>Continues</p>'
+      + '</body></html>'
+    );
+    const pages = traceElementPages(Array.from(document.querySelectorAll('p')), '4');
+
+    expect(pages).toEqual([
+      { start: '4', end: '4' },
+      { start: '5', end: '5' },
+      { start: '5', end: '6' },
+      { start: '6', end: '6' },
+    ]);
+  });
+});
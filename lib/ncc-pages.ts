@@ -0,0 +1,262 @@
+/**
+ * Page Number Tracing
+ *
+ * DOCX has no fixed pages, but the XML records where pages broke:
+ * - <w:lastRenderedPageBreak/> where Word broke the page when the file was last saved
+ * - explicit page breaks (<w:br w:type="page"/>) and "page break before" paragraphs
+ * - section breaks (w:sectPr in a paragraph), which start a new page unless continuous
+ *   and can restart or reformat the numbering (<w:pgNumType w:start="1" w:fmt="lowerRoman"/>)
+ *
+ * When the document has rendered markers they are authoritative (Word already
+ * placed them for manual and section breaks too); otherwise the explicit breaks
+ * are counted. Each new page is marked with a bookmark named "_ncc_page_<label>",
+ * which mammoth keeps as <a id="_ncc_page_<label>">, so rows can be given the
+ * printed page labels ("12", "iv") of their first and last paragraph.
+ */
+
+export const PAGE_BOOKMARK_PREFIX = '_ncc_page_';
+
+// Bookmark ids well above the ones Word assigns
+const BOOKMARK_ID_BASE = 900000;
+
+export interface PageMarkedXml {
+  xml: string;
+  // Page label in effect at an offset of the marked XML
+  labelAt(offset: number): string;
+}
+
+interface SectionProps {
+  restart: number | null;
+  format: string;      // w:fmt, e.g. "decimal", "lowerRoman"
+  continuous: boolean;
+}
+
+interface PageEvent {
+  offset: number;       // Insert position in the original XML
+  kind: 'page' | 'section';
+  section?: number;     // Index into the section list, for section starts
+}
+
+/**
+ * Style ids whose paragraph properties include "page break before"
+ */
+export function findPageBreakBeforeStyleIds(stylesXml: string): string[] {
+  const ids: string[] = [];
+  const styleRegex = /<w:style\b[^>]*w:styleId="([^"]+)"[^>]*>([\s\S]*?)<\/w:style>/g;
+  let match: RegExpExecArray | null;
+  while ((match = styleRegex.exec(stylesXml)) !== null) {
+    if (isOn(match[2], 'w:pageBreakBefore')) ids.push(match[1]);
+  }
+  return ids;
+}
+
+/**
+ * Insert page bookmarks into the body content of document.xml
+ *
+ * @param content - Body XML without the final w:sectPr
+ * @param finalSectPr - The body-level w:sectPr (properties of the last section)
+ * @param breakBeforeStyleIds - Paragraph styles that start a new page
+ */
+export function markPages(content: string, finalSectPr: string, breakBeforeStyleIds: string[]): PageMarkedXml {
+  const rendered = content.indexOf('<w:lastRenderedPageBreak') !== -1;
+  const events: PageEvent[] = [];
+
+  // Sections: each paragraph-level sectPr ends a section; the next paragraph starts the next one
+  const sections: SectionProps[] = [];
+  const sectPrRegex = /<w:sectPr\b[\s\S]*?<\/w:sectPr>/g;
+  let match: RegExpExecArray | null;
+  while ((match = sectPrRegex.exec(content)) !== null) {
+    sections.push(parseSectionProps(match[0]));
+    const paragraphEnd = content.indexOf('</w:p>', match.index);
+    const nextStart = paragraphEnd === -1 ? -1 : paragraphContentStart(content, paragraphEnd);
+    if (nextStart !== -1) events.push({ offset: nextStart, kind: 'section', section: sections.length });
+  }
+  sections.push(parseSectionProps(finalSectPr));
+
+  if (rendered) {
+    const renderedRegex = /<w:lastRenderedPageBreak\s*\/>/g;
+    while ((match = renderedRegex.exec(content)) !== null) {
+      events.push({ offset: runStart(content, match.index), kind: 'page' });
+    }
+  } else {
+    const breakRegex = /<w:br\b[^>]*w:type="page"[^>]*\/>/g;
+    while ((match = breakRegex.exec(content)) !== null) {
+      const runEnd = content.indexOf('</w:r>', match.index);
+      events.push({ offset: runEnd === -1 ? match.index : runEnd + '</w:r>'.length, kind: 'page' });
+    }
+
+    const styleRegex = breakBeforeStyleIds.length > 0
+      ? new RegExp(`<w:pStyle w:val="(?:${breakBeforeStyleIds.map(id => id.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})"`)
+      : null;
+    const paragraphRegex = /<w:p[ >]/g;
+    while ((match = paragraphRegex.exec(content)) !== null) {
+      const pPrEnd = content.indexOf('</w:pPr>', match.index);
+      const paragraphEnd = content.indexOf('</w:p>', match.index);
+      if (pPrEnd === -1 || (paragraphEnd !== -1 && pPrEnd > paragraphEnd)) continue;
+      const pPr = content.substring(match.index, pPrEnd);
+      if (pPr.indexOf('<w:p ', 1) !== -1 || pPr.indexOf('<w:p>', 1) !== -1) continue; // pPr of a later paragraph
+      if (isOn(pPr, 'w:pageBreakBefore') || (styleRegex && styleRegex.test(pPr))) {
+        events.push({ offset: pPrEnd + '</w:pPr>'.length, kind: 'page' });
+      }
+    }
+  }
+
+  events.sort((a, b) => a.offset - b.offset || (a.kind === 'section' ? -1 : 1));
+
+  // Walk the events, inserting a bookmark wherever a new page starts
+  let number = sections[0].restart !== null ? sections[0].restart : 1;
+  let format = sections[0].format;
+  let pendingRestart: number | null = null;
+  let lastPageOffset = -1;
+  let bookmarkId = BOOKMARK_ID_BASE;
+
+  const parts: string[] = [];
+  const labels: Array<{ offset: number; label: string }> = [{ offset: 0, label: formatPageNumber(number, format) }];
+  let copied = 0;
+  let outputLength = 0;
+
+  const startPage = (offset: number) => {
+    // Page breaks with no text between them (break then "page break before") start one page, not two
+    if (lastPageOffset !== -1 && !/<w:t[ >]/.test(content.substring(lastPageOffset, offset))) return;
+    lastPageOffset = offset;
+    number = pendingRestart !== null ? pendingRestart : number + 1;
+    pendingRestart = null;
+
+    const label = formatPageNumber(number, format);
+    const chunk = content.substring(copied, offset);
+    parts.push(chunk);
+    outputLength += chunk.length;
+    copied = offset;
+
+    const bookmark = `<w:bookmarkStart w:id="${bookmarkId}" w:name="${PAGE_BOOKMARK_PREFIX}${label}"/><w:bookmarkEnd w:id="${bookmarkId}"/>`;
+    bookmarkId++;
+    labels.push({ offset: outputLength, label });
+    parts.push(bookmark);
+    outputLength += bookmark.length;
+  };
+
+  for (const event of events) {
+    if (event.kind === 'section') {
+      const props = sections[event.section!];
+      format = props.format;
+      pendingRestart = props.restart;
+      if (!rendered && !props.continuous) startPage(event.offset);
+    } else {
+      startPage(event.offset);
+    }
+  }
+  parts.push(content.substring(copied));
+
+  return {
+    xml: parts.join(''),
+    labelAt(offset: number): string {
+      let label = labels[0].label;
+      for (const entry of labels) {
+        if (entry.offset > offset) break;
+        label = entry.label;
+      }
+      return label;
+    },
+  };
+}
+
+/**
+ * Page label from a mammoth bookmark anchor id ('' for other anchors)
+ */
+export function pageLabelFromAnchorId(id: string): string {
+  return id.indexOf(PAGE_BOOKMARK_PREFIX) === 0 ? id.substring(PAGE_BOOKMARK_PREFIX.length) : '';
+}
+
+/**
+ * First and last page of each element, in document order
+ * An element starts on the page of a bookmark that precedes all of its text,
+ * otherwise on the page the previous element ended on.
+ */
+export function traceElementPages(elements: Element[], startLabel: string): Array<{ start: string; end: string }> {
+  const pages: Array<{ start: string; end: string }> = [];
+  let current = startLabel;
+
+  for (const element of elements) {
+    const html = element.innerHTML || '';
+    const anchorRegex = new RegExp(`<a id="${PAGE_BOOKMARK_PREFIX}([^"]+)"`, 'g');
+    let start = current;
+    let end = current;
+    let match: RegExpExecArray | null;
+    let first = true;
+    while ((match = anchorRegex.exec(html)) !== null) {
+      if (first && html.substring(0, match.index).replace(/<[^>]+>/g, '').trim() === '') {
+        start = match[1];
+      }
+      first = false;
+      end = match[1];
+    }
+    pages.push({ start, end });
+    current = end;
+  }
+
+  return pages;
+}
+
+function parseSectionProps(sectPr: string): SectionProps {
+  const pgNumType = sectPr.match(/<w:pgNumType\b[^>]*>/);
+  const start = pgNumType ? pgNumType[0].match(/w:start="(\d+)"/) : null;
+  const format = pgNumType ? pgNumType[0].match(/w:fmt="([^"]+)"/) : null;
+  return {
+    restart: start ? parseInt(start[1], 10) : null,
+    format: format ? format[1] : 'decimal',
+    continuous: /<w:type w:val="continuous"/.test(sectPr),
+  };
+}
+
+/**
+ * Whether a toggle property is set: <w:x/>, <w:x w:val="1"/> or "true"/"on"
+ */
+function isOn(xml: string, tag: string): boolean {
+  const match = xml.match(new RegExp(`<${tag}\\b([^>]*)\\/?>`));
+  if (!match) return false;
+  const value = match[1].match(/w:val="([^"]*)"/);
+  return !value || /^(1|true|on)$/i.test(value[1]);
+}
+
+/**
+ * Start of the run containing an offset (where a bookmark can be inserted)
+ */
+function runStart(xml: string, offset: number): number {
+  const start = Math.max(xml.lastIndexOf('<w:r>', offset), xml.lastIndexOf('<w:r ', offset));
+  return start === -1 ? offset : start;
+}
+
+/**
+ * First content position of the paragraph after an offset (after its w:pPr, if any)
+ */
+function paragraphContentStart(xml: string, offset: number): number {
+  const paragraphRegex = /<w:p[ >]/g;
+  paragraphRegex.lastIndex = offset;
+  const match = paragraphRegex.exec(xml);
+  if (!match) return -1;
+  const openEnd = xml.indexOf('>', match.index) + 1;
+  if (xml.charAt(openEnd - 2) === '/') return -1; // Self-closing <w:p/>
+  const pPrMatch = xml.substring(openEnd).match(/^\s*<w:pPr\b[\s\S]*?<\/w:pPr>/);
+  return pPrMatch ? openEnd + pPrMatch[0].length : openEnd;
+}
+
+const ROMAN_NUMERALS: Array<[number, string]> = [
+  [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+  [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i'],
+];
+
+/**
+ * Printed form of a page number: decimal, lowerRoman or upperRoman
+ */
+function formatPageNumber(number: number, format: string): string {
+  if (format !== 'lowerRoman' && format !== 'upperRoman') return String(number);
+  let remaining = number;
+  let roman = '';
+  for (const [value, numeral] of ROMAN_NUMERALS) {
+    while (remaining >= value) {
+      roman += numeral;
+      remaining -= value;
+    }
+  }
+  return format === 'upperRoman' ? roman.toUpperCase() : roman;
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { extractSatisfiedPrLabels, getPathwayRole, linkPathways, PathwayInput } from '@/lib/ncc-pathways';
+
+const unit = (unitLabel: string, text = ''): PathwayInput => ({
+  anchorId: `VOL1::${unitLabel}`,
+  unitLabel,
+  unitType: 'OTHER',
+  textPrLabels: extractSatisfiedPrLabels(text),
+});
+
+const anchorsOf = (units: PathwayInput[]): Map<string, string> => new Map(units.map(u => [u.unitLabel, u.anchorId] as [string, string]));
+
+describe('getPathwayRole', () => {
+  it('reads the role from the label, then the unit type', () => {
+    expect(getPathwayRole('D2P1', 'OTHER')).toBe('PR');
+    expect(getPathwayRole('D2D1', 'OTHER')).toBe('DTS');
+    expect(getPathwayRole('D2V1', 'OTHER')).toBe('VM');
+    expect(getPathwayRole('', 'VERIFICATION_METHOD')).toBe('VM');
+    expect(getPathwayRole('A5G3', 'GOVERNING_REQUIREMENT')).toBe('');
+  });
+});
+
+describe('extractSatisfiedPrLabels', () => {
+  it('reads PR labels and ranges from satisfaction wording', () => {
+    expect(extractSatisfiedPrLabels('Performance Requirements D2P1 to D2P3 are satisfied by complying with D2D1.')).toEqual([
+      'D2P1',
+      'D2P2',
+      'D2P3',
+    ]);
+    expect(extractSatisfiedPrLabels('Compliance with E3P1 is verified when the test passes.')).toEqual(['E3P1']);
+  });
+
+  it('ignores PR labels outside satisfaction wording', () => {
+    expect(extractSatisfiedPrLabels('See D2P1 for background.')).toEqual([]);
+  });
+});
+
+describe('linkPathways', () => {
+  it('prefers explicit wording over the label grammar', () => {
+    const units = [unit('D2P1'), unit('D2P2'), unit('D2D1', 'Performance Requirement D2P2 is satisfied by this clause.')];
+    const { links, prsWithoutPathway } = linkPathways(units, anchorsOf(units));
+
+    expect(links[2]).toMatchObject({ role: 'DTS', prLabels: ['D2P2'], satisfiesPrAnchorIds: ['VOL1::D2P2'], linkSource: 'TEXT' });
+    expect(prsWithoutPathway).toEqual(['D2P1']);
+  });
+
+  it('falls back to the PRs of the same Part', () => {
+    const units = [unit('D2P1'), unit('D3P1'), unit('D2V1')];
+    const { links } = linkPathways(units, anchorsOf(units));
+
+    expect(links[2]).toMatchObject({ role: 'VM', prLabels: ['D2P1'], linkSource: 'PART' });
+  });
+
+  it('falls back to the PRs of the Section when the Part has none', () => {
+    const units = [unit('C1P1'), unit('C1P2'), unit('D1P1'), unit('C2D2')];
+    const { links, prsWithoutPathway } = linkPathways(units, anchorsOf(units));
+
+    expect(links[3]).toMatchObject({ prLabels: ['C1P1', 'C1P2'], satisfiesPrAnchorIds: ['VOL1::C1P1', 'VOL1::C1P2'], linkSource: 'SECTION' });
+    expect(prsWithoutPathway).toEqual(['D1P1']);
+  });
+
+  it('leaves PRs and other units unlinked', () => {
+    const units = [unit('D2P1'), unit('A5G3')];
+    const { links } = linkPathways(units, anchorsOf(units));
+
+    expect(links.map(link => link.linkSource)).toEqual(['', '']);
+    expect(links[1].role).toBe('');
+  });
+});
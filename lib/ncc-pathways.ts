@@ -0,0 +1,159 @@
+/**
+ * Compliance Pathway Linking
+ *
+ * Connects Deemed-to-Satisfy (DTS) provisions and Verification Methods (VM)
+ * to the Performance Requirements (PR) they satisfy, using:
+ * 1. Explicit wording: "Performance Requirement C1P1 is satisfied by...",
+ *    "Performance Requirements D2P1 to D2P4 are satisfied...",
+ *    "Compliance with E3P1 is verified when..."
+ * 2. NCC 2022 label grammar as a fallback: xPy = PR, xDy = DTS, xVy = VM,
+ *    and a DTS/VM in Part D2 satisfies the PRs of Part D2; where a Part has no
+ *    PRs of its own, those of its Section (NCC 2022 keeps them in Part x1, so
+ *    C2D2 falls back to C1P1, C1P2, ...)
+ *
+ * Also reports PRs that no DTS provision or VM links to.
+ */
+
+export type PathwayRole = 'PR' | 'DTS' | 'VM' | '';
+
+export interface PathwayInput {
+  anchorId: string;
+  unitLabel: string; // National label, e.g. "D2D1", "D2V1" (state prefix already stripped)
+  unitType: string;
+  textPrLabels: string[]; // PRs named in the unit's satisfaction wording (extractSatisfiedPrLabels), so no text is kept
+}
+
+export interface PathwayLink {
+  role: PathwayRole;
+  prLabels: string[];            // PR labels this DTS/VM satisfies (empty for other rows)
+  satisfiesPrAnchorIds: string[]; // Anchors of those PRs that exist in the same run
+  linkSource: 'TEXT' | 'PART' | 'SECTION' | ''; // How the link was found
+}
+
+export interface PathwayLinkResult {
+  links: PathwayLink[];       // One per input, same order
+  prsWithoutPathway: string[]; // PR labels with no DTS or VM linking to them
+}
+
+const LABEL_GRAMMAR = /^(([A-Z])\d+)([PDV])(\d+)/;
+const PR_LABEL = /\b([A-Z]\d+P\d+)\b/g;
+const PR_RANGE = /\b([A-Z]\d+P)(\d+)\s+(?:to|–|-)\s+(?:\1)?(\d+)\b/g;
+
+/**
+ * Sentences that tie a provision to a PR
+ */
+const SATISFACTION_CUES = /performance requirements?|satisf|verif|compliance with|complying with|meets?\b/i;
+
+/**
+ * Determine a unit's pathway role from its label, falling back to unit_type
+ */
+export function getPathwayRole(unitLabel: string, unitType: string): PathwayRole {
+  const match = unitLabel.match(LABEL_GRAMMAR);
+  if (match) {
+    if (match[3] === 'P') return 'PR';
+    if (match[3] === 'D') return 'DTS';
+    if (match[3] === 'V') return 'VM';
+  }
+
+  if (unitType === 'PERFORMANCE_REQUIREMENT') return 'PR';
+  if (unitType === 'DTS_PROVISION') return 'DTS';
+  if (unitType === 'VERIFICATION_METHOD') return 'VM';
+  return '';
+}
+
+/**
+ * Find PR labels referenced in sentences that talk about satisfying/verifying them
+ * Expands ranges such as "D2P1 to D2P4" into D2P1, D2P2, D2P3, D2P4
+ */
+export function extractSatisfiedPrLabels(text: string): string[] {
+  const labels: string[] = [];
+  const addLabel = (label: string) => {
+    if (labels.indexOf(label) === -1) labels.push(label);
+  };
+
+  const sentences = text.split(/(?<=[.;])\s+|\n+/);
+  for (const sentence of sentences) {
+    if (!SATISFACTION_CUES.test(sentence)) continue;
+
+    const rangeRegex = new RegExp(PR_RANGE.source, PR_RANGE.flags);
+    let rangeMatch: RegExpExecArray | null;
+    while ((rangeMatch = rangeRegex.exec(sentence)) !== null) {
+      const from = parseInt(rangeMatch[2], 10);
+      const to = parseInt(rangeMatch[3], 10);
+      // Guard against runaway ranges from malformed text
+      if (to >= from && to - from <= 50) {
+        for (let n = from; n <= to; n++) addLabel(`${rangeMatch[1]}${n}`);
+      }
+    }
+
+    const labelRegex = new RegExp(PR_LABEL.source, PR_LABEL.flags);
+    let labelMatch: RegExpExecArray | null;
+    while ((labelMatch = labelRegex.exec(sentence)) !== null) {
+      addLabel(labelMatch[1]);
+    }
+  }
+
+  return labels;
+}
+
+/**
+ * Link every DTS/VM unit to the PRs it satisfies
+ *
+ * @param units - Clause units in output order (no table, figure or definition rows:
+ *   their labels follow the clause grammar but they satisfy nothing)
+ * @param anchorsByLabel - National label -> anchor_id for the same run
+ */
+export function linkPathways(units: PathwayInput[], anchorsByLabel: Map<string, string>): PathwayLinkResult {
+  // PRs present in this run, grouped by part (e.g. "D2" -> ["D2P1", "D2P2"]) and section ("D")
+  const prLabelsByPart = new Map<string, string[]>();
+  const prLabelsBySection = new Map<string, string[]>();
+  const allPrLabels: string[] = [];
+  units.forEach(unit => {
+    const match = unit.unitLabel.match(LABEL_GRAMMAR);
+    if (!match || match[3] !== 'P') return;
+    const prLabel = match[0];
+    if (allPrLabels.indexOf(prLabel) !== -1) return;
+    allPrLabels.push(prLabel);
+    prLabelsByPart.set(match[1], (prLabelsByPart.get(match[1]) || []).concat(prLabel));
+    prLabelsBySection.set(match[2], (prLabelsBySection.get(match[2]) || []).concat(prLabel));
+  });
+
+  const satisfiedPrs = new Set<string>();
+
+  const links = units.map((unit): PathwayLink => {
+    const role = getPathwayRole(unit.unitLabel, unit.unitType);
+    if (role !== 'DTS' && role !== 'VM') {
+      return { role, prLabels: [], satisfiesPrAnchorIds: [], linkSource: '' };
+    }
+
+    let prLabels = unit.textPrLabels;
+    let linkSource: PathwayLink['linkSource'] = 'TEXT';
+
+    const match = unit.unitLabel.match(LABEL_GRAMMAR);
+    if (prLabels.length === 0 && match && prLabelsByPart.has(match[1])) {
+      prLabels = prLabelsByPart.get(match[1])!;
+      linkSource = 'PART';
+    } else if (prLabels.length === 0 && match && prLabelsBySection.has(match[2])) {
+      prLabels = prLabelsBySection.get(match[2])!;
+      linkSource = 'SECTION';
+    } else if (prLabels.length === 0) {
+      linkSource = '';
+    }
+
+    prLabels.forEach(label => satisfiedPrs.add(label));
+
+    const satisfiesPrAnchorIds: string[] = [];
+    prLabels.forEach(label => {
+      const anchorId = anchorsByLabel.get(label);
+      if (anchorId && satisfiesPrAnchorIds.indexOf(anchorId) === -1) {
+        satisfiesPrAnchorIds.push(anchorId);
+      }
+    });
+
+    return { role, prLabels, satisfiesPrAnchorIds, linkSource };
+  });
+
+  const prsWithoutPathway = allPrLabels.filter(label => !satisfiedPrs.has(label));
+
+  return { links, prsWithoutPathway };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeClausePhrases, joinPhrases } from '@/lib/ncc-phrases';
+
+describe('analyzeClausePhrases', () => {
+  it('joins a lead-in to its list items', () => {
+    const phrases = analyzeClausePhrases('(1) A building must have —\n(a) one exit; or\n(b) two exits.\n(2) Exits must be signed.');
+
+    expect(phrases.requirements).toEqual(['(1) A building must have — (a) one exit; or (b) two exits.', '(2) Exits must be signed.']);
+  });
+
+  it('keeps an "Exemption:" block and its items as one exception', () => {
+    const phrases = analyzeClausePhrases('Doors must swing outwards.\nExemption: The following need not comply:\n(a) a sole-occupancy unit door; and\n(b) a door to a plant room.');
+
+    expect(phrases.requirements).toEqual(['Doors must swing outwards.']);
+    expect(phrases.exceptions).toEqual(['Exemption: The following need not comply: (a) a sole-occupancy unit door; and (b) a door to a plant room.']);
+  });
+
+  it('counts "except where" as an exception, not a condition', () => {
+    const phrases = analyzeClausePhrases('A smoke alarm must be installed except where a sprinkler system is provided, if the building is a Class 1a building.');
+
+    expect(phrases.exceptions).toEqual(['except where a sprinkler system is provided']);
+    expect(phrases.conditions).toEqual(['if the building is a Class 1a building']);
+  });
+
+  it('keeps carve-out sentences whole', () => {
+    const phrases = analyzeClausePhrases('This Part does not apply to a Class 10a building.');
+
+    expect(phrases.exceptions).toEqual(['This Part does not apply to a Class 10a building.']);
+    expect(phrases.requirements).toEqual([]);
+  });
+
+  it('detects must and shall', () => {
+    expect(analyzeClausePhrases('Exits must not be obstructed.')).toMatchObject({ containsMust: true, containsShall: false });
+    expect(analyzeClausePhrases('The door shall open.')).toMatchObject({ containsMust: false, containsShall: true, requirements: ['The door shall open.'] });
+    expect(analyzeClausePhrases('Mustering areas are shown.')).toMatchObject({ containsMust: false, containsShall: false, requirements: [] });
+  });
+
+  it('skips table blocks', () => {
+    expect(analyzeClausePhrases('See the table.\n[TABLE]\nWidth | must be 1 m\n[/TABLE]').requirements).toEqual([]);
+  });
+});
+
+describe('joinPhrases', () => {
+  it('pipe-separates phrases and replaces pipes inside them', () => {
+    expect(joinPhrases(['if a | b', 'where c'])).toBe('if a / b|where c');
+  });
+});
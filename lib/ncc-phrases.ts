@@ -0,0 +1,154 @@
+/**
+ * Clause Phrase Analysis
+ *
+ * Splits clause prose into sentences and picks out:
+ * - requirements: obligation sentences ("must", "shall", including "must not")
+ * - conditions: "if", "where", "unless" and "provided that" phrases
+ * - exceptions: "except ..." phrases, "does not apply to" / "need not comply"
+ *   sentences and NCC 2022 "Exemption:" blocks
+ *
+ * List items ("(a) ...; or") are joined to the lead-in that introduces them,
+ * so "(1) A building must have — (a) one exit; or (b) two exits." is one sentence.
+ * Table blocks are skipped; their content lives in the table rows.
+ */
+
+export interface ClausePhrases {
+  requirements: string[];
+  conditions: string[];
+  exceptions: string[];
+  containsShall: boolean;
+  containsMust: boolean;
+}
+
+const SHALL_PATTERN = /\bshall\b/i;
+const MUST_PATTERN = /\bmust\b/i;
+const OBLIGATION_PATTERN = /\b(must|shall)\b/i;
+
+/**
+ * Start of a condition; the phrase runs to the next comma, semicolon, colon or dash
+ */
+const CONDITION_PATTERN = /\b(if|where|unless|provided that)\b/gi;
+
+/**
+ * "except ..." phrase; like conditions, runs to the next clause break
+ */
+const EXCEPT_PATTERN = /\bexcept\b/gi;
+
+/**
+ * Carve-outs kept as whole sentences
+ */
+const CARVE_OUT_PATTERN = /\b(?:does|do|need|needs) not (?:apply|comply|need to comply)\b|\b(?:is|are) not required\b|\bexempt(?:ed)? from\b/i;
+
+/**
+ * "Exemption:", "Exemptions", "Exceptions -" block openers
+ */
+const EXEMPTION_HEADING_PATTERN = /^(?:exemptions?|exceptions?)\b\s*[:—–-]?\s*/i;
+
+/**
+ * List items that belong to the paragraph before them: "(a)", "(ii)"
+ * Numbered subclauses ("(2)") start a new unit.
+ */
+const LIST_ITEM_PATTERN = /^\((?:[a-z]{1,2}|[ivx]+)\)\s/;
+
+/**
+ * Lead-ins that continue into the next list item
+ */
+const LEAD_IN_END_PATTERN = /(?:[—–:,;-]|\b(?:and|or))\s*$/;
+
+const TABLE_BLOCK_PATTERN = /\[TABLE\][\s\S]*?\[\/TABLE\]/g;
+
+/**
+ * Analyse a clause's text into requirement, condition and exception phrases
+ */
+export function analyzeClausePhrases(text: string): ClausePhrases {
+  const result: ClausePhrases = {
+    requirements: [],
+    conditions: [],
+    exceptions: [],
+    containsShall: SHALL_PATTERN.test(text),
+    containsMust: MUST_PATTERN.test(text),
+  };
+  if (!text) return result;
+
+  const paragraphs = text
+    .replace(TABLE_BLOCK_PATTERN, '\n\n')
+    .split(/\n+/)
+    .map(p => p.replace(/\s+/g, ' ').trim())
+    .filter(p => p.length > 0);
+
+  // Group paragraphs into units: exemption blocks, and lead-ins joined with their list items
+  const units: Array<{ text: string; isExemption: boolean }> = [];
+  for (const paragraph of paragraphs) {
+    const previous = units.length > 0 ? units[units.length - 1] : null;
+    const isListItem = LIST_ITEM_PATTERN.test(paragraph);
+
+    if (previous && isListItem && (previous.isExemption || LEAD_IN_END_PATTERN.test(previous.text))) {
+      previous.text += ' ' + paragraph;
+    } else {
+      units.push({ text: paragraph, isExemption: EXEMPTION_HEADING_PATTERN.test(paragraph) });
+    }
+  }
+
+  for (const unit of units) {
+    if (unit.isExemption) {
+      addUnique(result.exceptions, unit.text);
+      continue;
+    }
+
+    for (const sentence of splitSentences(unit.text)) {
+      if (OBLIGATION_PATTERN.test(sentence)) {
+        addUnique(result.requirements, sentence);
+      }
+      if (CARVE_OUT_PATTERN.test(sentence)) {
+        addUnique(result.exceptions, sentence);
+      } else {
+        extractPhrases(sentence, EXCEPT_PATTERN).forEach(phrase => addUnique(result.exceptions, phrase));
+      }
+      extractPhrases(sentence, CONDITION_PATTERN)
+        .filter(phrase => !/\bexcept\s+$/i.test(sentence.substring(0, sentence.indexOf(phrase))))
+        .forEach(phrase => addUnique(result.conditions, phrase));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Join phrases for a pipe-separated column ("|" inside a phrase becomes "/")
+ */
+export function joinPhrases(phrases: string[]): string {
+  return phrases.map(phrase => phrase.replace(/\|/g, '/')).join('|');
+}
+
+/**
+ * Split a unit into sentences at ". ", "? " or "! " followed by a capital or "("
+ * Decimal numbers ("1.5 m") and mid-sentence abbreviations ("No. 2") don't split.
+ */
+function splitSentences(text: string): string[] {
+  return text
+    .replace(/([.!?])\s+(?=[A-Z(])/g, '$1\u0000')
+    .split('\u0000')
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0);
+}
+
+/**
+ * Phrases from each keyword match to the next clause break (",", ";", ":", dash) or sentence end
+ */
+function extractPhrases(sentence: string, pattern: RegExp): string[] {
+  const phrases: string[] = [];
+  pattern.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(sentence)) !== null) {
+    const rest = sentence.substring(match.index);
+    const end = rest.search(/[,;:—–]|\s-\s/);
+    const phrase = (end === -1 ? rest : rest.substring(0, end)).replace(/[.!?]+$/, '').trim();
+    // Skip bare keywords ("where:" introducing a formula's symbols)
+    if (phrase.split(' ').length >= 3) phrases.push(phrase);
+  }
+  return phrases;
+}
+
+function addUnique(list: string[], value: string): void {
+  if (list.indexOf(value) === -1) list.push(value);
+}
@@ -0,0 +1,276 @@
+import { PassThrough } from 'stream';
+import { describe, expect, it } from 'vitest';
+import { createNCCConverter, parseCSVFormat, writeCSV, writeCSVTable, CSVRow, CSVWriteOptions } from '@/lib/ncc-pipeline';
+import { NCC_COLUMN_NAMES } from '@/lib/ncc-schema';
+import { clause, convertRows, excelRow, rowByAnchor, sampleNCCRows, TEST_EDITION } from '@/lib/__fixtures__/ncc-rows';
+
+describe('convertToCSVFormat: state variations', () => {
+  it('links a variation to the national clause it changes', () => {
+    const rows = convertRows([
+      clause('J7D3', 'DTS_PROVISION', 'J7D3 Artificial lighting\nThe lamp power density must not exceed the allowance.'),
+      clause('NSW J7D3(1)', 'DTS_PROVISION', 'NSW J7D3(1) Artificial lighting\nDelete subclause (1) and replace with the following.'),
+    ]);
+    const variation = rowByAnchor(rows, 'VOL1::NSW::J7D3(1)');
+
+    expect(variation.unit_type).toBe('STATE_VARIATION');
+    expect(variation.applies_state).toBe('NSW');
+    expect(variation.variation_action).toBe('REPLACE');
+    expect(variation.affected_unit_label).toBe('J7D3');
+    expect(variation.affected_subclause).toBe('(1)');
+    expect(variation.affected_subparts).toBe('(1)');
+    expect(variation.affects_anchor_id).toBe('VOL1::J7D3');
+    expect(variation.parent_anchor_id).toBe('VOL1::J7D3');
+  });
+
+  it('never links a variation to a table of the same label', () => {
+    const rows = convertRows([
+      clause('table D2D2', 'TABLE', 'Table D2D2 Minimum widths', { asset_type: 'TABLE', asset_id: 'Table D2D2' }),
+      clause('D2D2', 'DTS_PROVISION', 'D2D2 Widths\nWidths must comply with Table D2D2.'),
+      clause('NSW D2D2', 'DTS_PROVISION', 'NSW D2D2 Widths\nDelete subclause (2).'),
+    ]);
+    expect(rowByAnchor(rows, 'VOL1::NSW::D2D2').affects_anchor_id).toBe('VOL1::D2D2');
+  });
+
+  it('links a Part-level variation to the Part row', () => {
+    const rows = convertRows([
+      clause('J7D3', 'DTS_PROVISION', 'J7D3 Artificial lighting'),
+      clause('NSW Part J7', 'OTHER', 'NSW Part J7\nPart J7 does not apply in NSW.'),
+    ]);
+    const variation = rows.find(row => row.state_variation === 'NSW')!;
+
+    expect(variation.variation_action).toBe('NOT_APPLICABLE');
+    expect(variation.affected_subparts).toBe('');
+    expect(variation.affects_anchor_id).toBe('VOL1::PART_J7');
+  });
+});
+
+describe('convertToCSVFormat: cross-references', () => {
+  it('lists each referenced label once in internal_refs', () => {
+    const rows = convertRows([
+      clause('D2P1', 'PERFORMANCE_REQUIREMENT', 'D2P1 Evacuation'),
+      clause('D2D2', 'DTS_PROVISION', 'D2D2 Widths\nWidths in Table D2D2 satisfy D2P1.'),
+      clause('D2D3', 'DTS_PROVISION', 'D2D3 Exits\nUse Table D2D2, see D2P1 and D2D2.'),
+    ]);
+    const row = rowByAnchor(rows, 'VOL1::D2D3');
+
+    expect(JSON.parse(String(row.internal_refs))).toEqual(['D2D2', 'D2P1']);
+    expect(JSON.parse(String(row.related_unit_ids))).toEqual(['VOL1::D2P1', 'VOL1::D2D2']);
+  });
+
+  it('links table and figure references to the asset rows', () => {
+    const rows = convertRows([
+      clause('D2D2', 'DTS_PROVISION', 'D2D2 Widths\nWidths must comply with Table D2D2 and Figure D2D2a.'),
+      clause('table D2D2', 'TABLE', 'Table D2D2 Minimum widths', { asset_type: 'TABLE', asset_id: 'Table D2D2' }),
+      excelRow({
+        unit_type: 'FIGURE',
+        text: 'Figure D2D2a: Exit width',
+        asset_type: 'IMAGE',
+        asset_id: 'Figure D2D2a',
+        asset_caption: 'Figure D2D2a: Exit width',
+        parent_clause_ref: 'D2D2',
+      }),
+    ]);
+
+    expect(JSON.parse(String(rowByAnchor(rows, 'VOL1::D2D2').related_unit_ids))).toEqual([
+      'VOL1::TABLE::D2D2',
+      'VOL1::FIGURE::D2D2A',
+    ]);
+  });
+});
+
+describe('convertToCSVFormat: compliance pathways', () => {
+  it('links clauses but not the tables and figures labelled after them', () => {
+    const rows = convertRows([
+      clause('D2P1', 'PERFORMANCE_REQUIREMENT', 'D2P1 Evacuation'),
+      clause('D2D14', 'DTS_PROVISION', 'D2D14 Stairs\nStairs must comply with Figure D2D14a.'),
+      excelRow({
+        unit_type: 'FIGURE',
+        text: 'Figure D2D14a: Stair geometry',
+        asset_type: 'IMAGE',
+        asset_id: 'Figure D2D14a',
+        asset_caption: 'Figure D2D14a: Stair geometry',
+        parent_clause_ref: 'D2D14',
+      }),
+      clause('table D2D2', 'TABLE', 'Table D2D2 Minimum widths', { asset_type: 'TABLE', asset_id: 'Table D2D2' }),
+    ]);
+
+    expect(rowByAnchor(rows, 'VOL1::D2D14').satisfies_pr_ids).toBe(JSON.stringify(['VOL1::D2P1']));
+    const figure = rowByAnchor(rows, 'VOL1::FIGURE::D2D14A');
+    expect(figure.satisfies_pr_ids).toBe('');
+    expect(figure.pathway_alternative_to).toBe('');
+    const table = rows.find(row => row.asset_type === 'TABLE')!;
+    expect(table.satisfies_pr_ids).toBe('');
+  });
+
+  it('names DTS as the alternative only for Verification Methods', () => {
+    const rows = convertRows([
+      clause('D2P1', 'PERFORMANCE_REQUIREMENT', 'D2P1 Evacuation'),
+      clause('D2D2', 'DTS_PROVISION', 'D2D2 Exit width'),
+      clause('D2V1', 'VERIFICATION_METHOD', 'D2V1 Evacuation time'),
+    ]);
+
+    expect(rowByAnchor(rows, 'VOL1::D2V1').pathway_alternative_to).toBe('DTS');
+    expect(rowByAnchor(rows, 'VOL1::D2D2').pathway_alternative_to).toBe('');
+    expect(rowByAnchor(rows, 'VOL1::D2P1').pathway_alternative_to).toBe('');
+  });
+
+  it('flags PRs that nothing satisfies', () => {
+    const rows = convertRows([clause('D2P1', 'PERFORMANCE_REQUIREMENT', 'D2P1 Evacuation'), clause('E1P1', 'PERFORMANCE_REQUIREMENT', 'E1P1 Fire')]);
+    expect(JSON.parse(String(rowByAnchor(rows, 'VOL1::E1P1').warnings))).toContain('NO_DTS_OR_VM_PATHWAY');
+  });
+});
+
+describe('convertToCSVFormat: continuation rows', () => {
+  it('gives later parts of a split clause suffixed anchors in order', () => {
+    const rows = convertRows([
+      clause('S5C2', 'SPECIFICATION_CLAUSE', 'S5C2 Fire hazard properties\nFirst half.', { source_location: 'para_1_to_9_part1_of_2' }),
+      clause('S5C2', 'SPECIFICATION_CLAUSE', 'Second half.', { source_location: 'para_1_to_9_part2_of_2' }),
+    ]);
+    const parts = rows.filter(row => row.unit_label === 'S5C2');
+
+    expect(parts.map(row => row.anchor_id)).toEqual(['VOL1::S5C2', 'VOL1::S5C2#part2']);
+    expect(parts.map(row => row.order_in_parent)).toEqual([0, 1]);
+    expect(parts[1].parent_anchor_id).toBe(parts[0].parent_anchor_id);
+  });
+});
+
+describe('convertToCSVFormat: definitions', () => {
+  it('parents definition rows to the row of their definitions heading', () => {
+    const rows = convertRows([
+      excelRow({ unit_type: 'DEFINITION', defined_term: 'Exit', parent_clause_ref: 'Schedule 1', text: 'Exit means a doorway leading to a road.' }),
+      excelRow({ unit_type: 'SCHEDULE', text: 'Schedule 1 Definitions' }),
+    ]);
+    const schedule = rowByAnchor(rows, 'VOL1::SCHEDULE_1');
+    const definition = rowByAnchor(rows, 'VOL1::DEF::EXIT');
+
+    expect(schedule.unit_label).toBe('Schedule 1');
+    expect(definition.parent_anchor_id).toBe('VOL1::SCHEDULE_1');
+    expect(definition.path).toBe('Vol1 > Schedule 1 > Exit');
+  });
+});
+
+describe('convertToCSVFormat: table assets', () => {
+  it('anchors captioned tables on the caption id and others on their position', () => {
+    const rows = convertRows([
+      clause('D2D2', 'DTS_PROVISION', 'D2D2 Travel distances\nSee Table D2D2.'),
+      excelRow({ unit_type: 'TABLE', clause_ref: 'table 0', asset_type: 'TABLE', asset_id: 'Table D2D2', parent_clause_ref: 'D2D2', text: '| Class | Distance |' }),
+      excelRow({ unit_type: 'TABLE', clause_ref: 'table 1', asset_type: 'TABLE', asset_id: 'Table-AUTO-001', parent_clause_ref: 'D2D2', text: '| A | B |' }),
+    ]);
+    const captioned = rowByAnchor(rows, 'VOL1::TABLE::D2D2');
+
+    expect(captioned.table_id).toBe('D2D2');
+    expect(captioned.parent_anchor_id).toBe('VOL1::D2D2');
+    expect(rowByAnchor(rows, 'VOL1::TABLE::1').parent_anchor_id).toBe('VOL1::D2D2');
+  });
+});
+
+describe('convertToCSVFormat: figure assets', () => {
+  const figure = (parentClauseRef: string) =>
+    excelRow({ unit_type: 'FIGURE', text: 'Figure D2D14a: Stair geometry', asset_type: 'IMAGE', asset_id: 'Figure D2D14a', parent_clause_ref: parentClauseRef });
+
+  it('parents a figure to the clause that refers to it rather than the one it sits in', () => {
+    const rows = convertRows([
+      clause('D2D14', 'DTS_PROVISION', 'D2D14 Stairs\nStairs must comply with Figure D2D14a.'),
+      clause('D2D15', 'DTS_PROVISION', 'D2D15 Landings\nLandings must be level.'),
+      figure('D2D15'),
+    ]);
+    expect(rowByAnchor(rows, 'VOL1::FIGURE::D2D14A').parent_anchor_id).toBe('VOL1::D2D14');
+  });
+
+  it('does not parent a figure to a state variation that refers to it', () => {
+    const rows = convertRows([
+      clause('D2D15', 'DTS_PROVISION', 'D2D15 Landings\nLandings must be level.'),
+      figure('D2D15'),
+      clause('NSW D2D14', 'DTS_PROVISION', 'NSW D2D14 Stairs\nStairs must comply with Figure D2D14a.'),
+    ]);
+    const figureRow = rowByAnchor(rows, 'VOL1::FIGURE::D2D14A');
+
+    expect(figureRow.parent_anchor_id).toBe('VOL1::D2D15');
+    // Still linked to the variation, as a related unit
+    expect(JSON.parse(String(figureRow.related_unit_ids))).toContain(rows[rows.length - 1].anchor_id);
+  });
+
+  it('falls back to the clause a figure sits in when nothing refers to it', () => {
+    const rows = convertRows([clause('D2D15', 'DTS_PROVISION', 'D2D15 Landings\nLandings must be level.'), figure('D2D15')]);
+    expect(rowByAnchor(rows, 'VOL1::FIGURE::D2D14A').parent_anchor_id).toBe('VOL1::D2D15');
+  });
+});
+
+describe('parseCSVFormat', () => {
+  it('defaults to single-line comma-separated CSV without a BOM', () => {
+    expect(parseCSVFormat({})).toEqual({ multiline: false, bom: false, delimiter: ',' });
+  });
+
+  it('accepts delimiter names and characters, and rejects others', () => {
+    expect(parseCSVFormat({ newlines: 'keep', bom: 'true', delimiter: 'Semicolon' })).toEqual({ multiline: true, bom: true, delimiter: ';' });
+    expect(parseCSVFormat({ delimiter: '\t' })!.delimiter).toBe('\t');
+    expect(parseCSVFormat({ delimiter: 'colon' })).toBeNull();
+  });
+});
+
+describe('writeCSVTable', () => {
+  const csvText = async (rows: CSVRow[], options: CSVWriteOptions = {}): Promise<string> => {
+    const out = new PassThrough();
+    const parts: Buffer[] = [];
+    out.on('data', (part: Buffer) => parts.push(part));
+    await writeCSVTable(rows, ['id', 'text'], out, options);
+    out.end();
+    return Buffer.concat(parts).toString('utf8');
+  };
+  const rows: CSVRow[] = [{ id: 1, text: 'Line one\r\nline "two"; end' }, { id: 2, text: '' }];
+
+  it('flattens line breaks and quotes fields that need it', async () => {
+    expect(await csvText(rows)).toBe('id,text\n1,"Line one line ""two""; end"\n2,""');
+  });
+
+  it('keeps line breaks inside quoted fields with CRLF records', async () => {
+    expect(await csvText(rows, { multiline: true })).toBe('id,text\r\n1,"Line one\nline ""two""; end"\r\n2,""');
+  });
+
+  it('writes a BOM and quotes fields holding the delimiter', async () => {
+    expect(await csvText(rows.slice(0, 1), { bom: true, delimiter: ';' })).toBe('\ufeffid;text\n1;"Line one line ""two""; end"');
+  });
+
+  it('appends rows to a CSV already started when the header is off', async () => {
+    expect(await csvText(rows, { bom: true, header: false })).toBe('\n1,"Line one line ""two""; end"\n2,""');
+  });
+});
+
+describe('createNCCConverter', () => {
+  it('converts a volume section by section into the same rows as convertToCSVFormat', () => {
+    const sections = [
+      [
+        clause('D2P1', 'PERFORMANCE_REQUIREMENT', 'D2P1 Evacuation\nOccupants must be able to evacuate safely.'),
+        clause('D2D1', 'DTS_PROVISION', 'D2D1 Application\nThis Part applies to Class 2 to 9 buildings. See Figure D2D3.'),
+        clause('D2D2', 'DTS_PROVISION', 'D2D2 Widths\nPerformance Requirement D2P1 is satisfied by D2D2.'),
+      ],
+      [
+        clause('figure D2D3', 'FIGURE', 'Figure D2D3 Exit layout', { asset_type: 'IMAGE', asset_id: 'Figure D2D3', parent_clause_ref: 'D2D2' }),
+        clause('D2D2', 'DTS_PROVISION', 'D2D2 Widths\nA duplicate of the clause.'),
+      ],
+    ];
+    const converter = createNCCConverter('Vol1', 'test.docx');
+    sections.forEach(rows => converter.index(rows));
+    const sectionRows = converter.finish(TEST_EDITION);
+    sections.forEach(rows => sectionRows.push(...converter.convert(rows)));
+
+    expect(sectionRows).toEqual(convertRows(sections[0].concat(sections[1])));
+    // The duplicate is in the next section
+    expect(rowByAnchor(sectionRows, 'VOL1::D2D2').warnings).toContain('DUPLICATE_ANCHOR');
+  });
+});
+
+describe('writeCSV', () => {
+  it('writes NCC rows in schema column order and rejects invalid rows', async () => {
+    const rows = sampleNCCRows();
+    const out = new PassThrough();
+    const parts: Buffer[] = [];
+    out.on('data', (part: Buffer) => parts.push(part));
+    await writeCSV(rows, out);
+    const lines = Buffer.concat(parts).toString('utf8').split('\n');
+
+    expect(lines[0]).toBe(NCC_COLUMN_NAMES.join(','));
+    expect(lines).toHaveLength(rows.length + 1);
+    await expect(writeCSV([{ ...rows[0], anchor_id: 42 }], new PassThrough())).rejects.toThrow();
+  });
+});
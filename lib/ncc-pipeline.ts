@@ -0,0 +1,1967 @@
+/**
+ * NCC DOCX Processing Pipeline
+ *
+ * DOCX -> rows -> CSV/Excel, shared by the synchronous endpoint
+ * (/api/process-ncc-to-excel) and background jobs (lib/ncc-jobs.ts).
+ *
+ * Phases, reported through onProgress:
+ * 1. docx_conversion     - mammoth, one section at a time
+ * 2. boundary_detection  - clause refs that start a new unit
+ * 3. aggregation         - paragraphs and inline tables grouped per clause
+ * 4. table_pass          - every table and figure as its own row
+ * 5. csv_write           - rows written to the output stream
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import mammoth from 'mammoth';
+import * as XLSX from 'xlsx';
+
+import { getDisciplineForClause } from '@/lib/ncc-discipline-mapper';
+import { buildNCCHierarchy, HierarchyNode, NCCHierarchy } from '@/lib/ncc-hierarchy';
+import { parseStateVariation, stripStatePrefix, classifyVariationAction, affectedSubclauses } from '@/lib/ncc-state-variations';
+import { extractInternalRefs, internalRefLabels, internalRefKey, resolveInternalRefs, extractExternalRefs } from '@/lib/ncc-references';
+import { linkPathways, extractSatisfiedPrLabels, PathwayLink } from '@/lib/ncc-pathways';
+import { classifyNCCUnit, NCCUnitType } from '@/lib/ncc-unit-classifier';
+import { EXCEL_CELL_LIMIT, splitOversizedText, continuationAnchorId } from '@/lib/ncc-overflow';
+import { buildTableGrid, serializeTableGrids, TableGrid } from '@/lib/ncc-table-grid';
+import { extractTablesFromRoot, tableToMarkdown } from '@/lib/table-extractor';
+import { splitDocxIntoSections } from '@/lib/ncc-docx-sections';
+import { readNCCEdition, NCCEdition } from '@/lib/ncc-edition';
+import { traceElementPages } from '@/lib/ncc-pages';
+import { applyQualityChecks, createQualityReportBuilder, NCCQualityReport } from '@/lib/ncc-qa';
+import { buildRagText } from '@/lib/ncc-rag';
+import { assertNCCRows, NCC_COLUMN_NAMES, NCCRow } from '@/lib/ncc-schema';
+import { findFigures, figureUnitLabel, figureImageFileName, saveFigureImage, CapturedImage, NCCImageOutput } from '@/lib/ncc-figures';
+import { analyzeClausePhrases, joinPhrases } from '@/lib/ncc-phrases';
+import { extractBuildingClasses, isApplicationClause } from '@/lib/ncc-building-classes';
+import { extractConstants, extractFormulas } from '@/lib/ncc-constants';
+import { isDefinitionsHeading, parseDefinition, extractItalicPhrases, definitionAnchorId, definitionsSectionLabel, definitionsSectionAnchorId, buildGlossary, findDefinedTerms, DefinitionEntry, Glossary } from '@/lib/ncc-glossary';
+
+export interface ExcelRow {
+  volume: string;
+  row_type: 'paragraph' | 'table_cell';
+  heading_level: string; // H1, H2, H3, H4, or blank
+  heading_text: string;
+  unit_type: NCCUnitType;
+  extract_confidence: number; // Classifier confidence (0-1): label grammar > heading cues > default
+  clause_ref: string;
+  text: string;
+  source_location: string;
+  ncc_topic_discipline: string; // Discipline mapping from YAML (e.g., "DisabilityAccess", "Fire")
+  table_grid_json: string; // JSON array of structured grids for the tables in this row
+  table_key_values: string; // Row header x column header pairs, e.g. "CLASS=3|MAX_TRAVEL=20 m"
+  asset_type: '' | 'TABLE' | 'IMAGE';
+  asset_id: string; // "Table D2D2" / "Figure D3D14a", or "Table-AUTO-001" / "Figure-AUTO-001" when no caption is found
+  asset_caption: string; // "Table D2D2: Maximum travel distance"
+  asset_alt_text: string; // Alt text of a figure's images, "|"-separated
+  asset_file: string; // Saved image files relative to the output, "|"-separated ('' if not saved)
+  table_lte: string; // [LTE_TABLE] block from lib/table-extractor
+  notes: string; // Notes detected around the table ("Note: ...", "Notes to Table ...")
+  parent_clause_ref: string; // Clause the table sits in, or the definitions section of a DEFINITION row ('' if none)
+  defined_term: string; // Term a Schedule 1 DEFINITION row defines ('' otherwise)
+  italic_phrases: string; // Italic phrases in the row, "|"-separated - defined terms are set in italics
+  page_start: string; // Printed page label of the row's first paragraph ("12", "iv")
+  page_end: string; // Printed page label of the row's last paragraph
+  qa_flags: string; // QA flags raised during extraction ("ORPHANED_CONTENT", "TRUNCATED_TEXT"), "|"-separated
+}
+
+export type NCCPhase = 'docx_conversion' | 'boundary_detection' | 'aggregation' | 'table_pass' | 'csv_write';
+
+export const NCC_PHASES: Array<{ id: NCCPhase; label: string }> = [
+  { id: 'docx_conversion', label: 'DOCX conversion' },
+  { id: 'boundary_detection', label: 'Clause boundary detection' },
+  { id: 'aggregation', label: 'Aggregation' },
+  { id: 'table_pass', label: 'Table and figure pass' },
+  { id: 'csv_write', label: 'CSV write' },
+];
+
+export interface NCCProgress {
+  phase: NCCPhase;
+  completed: number; // Sections (or rows, for csv_write) done so far
+  total: number;
+}
+
+export type NCCProgressCallback = (progress: NCCProgress) => void;
+
+export interface NCCExtractOptions {
+  volumeLabel: string; // e.g. "Vol1"
+  splitOversized: boolean; // Split text over the cell limit into continuation rows
+  cellLimit?: number; // Longest text a cell may hold; defaults to EXCEL_CELL_LIMIT when splitOversized, else no limit
+  imageOutput?: NCCImageOutput; // Where to save figure images (not saved if omitted)
+  onProgress?: NCCProgressCallback;
+}
+
+export interface NCCStats {
+  paragraphs: number;
+  tableCells: number;
+  figures: number;
+  totalRows: number;
+}
+
+const MAMMOTH_STYLE_MAP = [
+  "p[style-name='Heading 1'] => h1:fresh",
+  "p[style-name='Heading 2'] => h2:fresh",
+  "p[style-name='Heading 3'] => h3:fresh",
+  "p[style-name='Heading 4'] => h4:fresh",
+  "p[style-name='Heading 5'] => h5:fresh",
+  "p[style-name='Heading 6'] => h6:fresh",
+];
+
+/**
+ * Extract NCC rows from a DOCX buffer
+ *
+ * Converts section by section so only one section's HTML and DOM are in memory at a time.
+ * Sections break at "Heading 1" paragraphs (and at clause starts within very long sections).
+ */
+export async function extractNCCRows(
+  buffer: Buffer,
+  options: NCCExtractOptions
+): Promise<{ rows: ExcelRow[]; stats: NCCStats; edition: NCCEdition }> {
+  let rows: ExcelRow[] = [];
+  const { stats, edition } = await extractNCCSections(buffer, options, async sectionRows => {
+    rows = rows.concat(sectionRows);
+  });
+  return { rows, stats, edition };
+}
+
+/**
+ * Extract NCC rows a section at a time, handing each section's rows to onSection
+ * before the next section is converted, so callers can write them out and let them go.
+ */
+export async function extractNCCSections(
+  buffer: Buffer,
+  options: NCCExtractOptions,
+  onSection: (rows: ExcelRow[]) => Promise<void>
+): Promise<{ stats: NCCStats; edition: NCCEdition; sectionCount: number }> {
+  const { volumeLabel, splitOversized, imageOutput, onProgress } = options;
+  const cellLimit = options.cellLimit || (splitOversized ? EXCEL_CELL_LIMIT : Infinity);
+  const report = (phase: NCCPhase, completed: number, total: number) => {
+    if (onProgress) onProgress({ phase, completed, total });
+  };
+  
+  const edition = await readNCCEdition(buffer);
+  const sections = await splitDocxIntoSections(buffer, { isClauseStart: text => !!extractClauseRef(text) });
+  console.log(`[NCC Excel] Converting DOCX to HTML in ${sections.count} section(s)...`);
+  
+  const stats: NCCStats = { paragraphs: 0, tableCells: 0, figures: 0, totalRows: 0 };
+  let clauseRowCount = 0;
+  let continuationCount = 0;
+  const cursor: SectionCursor = { contentIndex: 0, tableIndex: 0, autoTableNumber: 1, figureIndex: 0, autoFigureNumber: 1, page: '1', imageFiles: new Set() };
+  
+  for (let sectionIdx = 0; sectionIdx < sections.count; sectionIdx++) {
+    cursor.page = sections.startPages[sectionIdx];
+    const sectionBuffer = await sections.build(sectionIdx);
+    
+    // Images are kept out of the HTML (no data URIs) and held per section until the figure pass saves them
+    const images = new Map<string, CapturedImage>();
+    const convertImage = mammoth.images.imgElement(image => image.read().then(data => {
+      const src = `ncc-image-${images.size + 1}`;
+      images.set(src, { contentType: image.contentType, data });
+      return { src };
+    }));
+    const mammothResult = await mammoth.convertToHtml({ buffer: sectionBuffer }, { styleMap: MAMMOTH_STYLE_MAP, convertImage });
+    report('docx_conversion', sectionIdx + 1, sections.count);
+    
+    let rows = await extractRowsFromHtml(mammothResult.value, volumeLabel, cellLimit, cursor, { images, output: imageOutput }, phase => report(phase, sectionIdx + 1, sections.count));
+    console.log(`[NCC Excel] Section ${sectionIdx + 1}/${sections.count}: ${rows.length} rows`);
+    clauseRowCount += rows.filter(r => r.clause_ref && !r.clause_ref.startsWith('table')).length;
+    
+    // Overflow: split text longer than the cell limit into continuation rows
+    // instead of truncating, so no clause content is lost
+    if (splitOversized) {
+      const beforeCount = rows.length;
+      rows = splitOversizedRows(rows, cellLimit);
+      continuationCount += rows.length - beforeCount;
+    }
+    
+    // Final validation: Ensure remaining fields are within the cell limit
+    for (const row of rows) {
+      // Truncate heading_text if needed
+      if (row.heading_text && row.heading_text.length > cellLimit) {
+        row.heading_text = row.heading_text.substring(0, cellLimit - 3) + '...';
+        row.qa_flags = row.qa_flags ? `${row.qa_flags}|TRUNCATED_TEXT` : 'TRUNCATED_TEXT';
+      }
+      // Truncate clause_ref if needed (shouldn't happen, but safety check)
+      if (row.clause_ref && row.clause_ref.length > cellLimit) {
+        row.clause_ref = row.clause_ref.substring(0, cellLimit - 3) + '...';
+        row.qa_flags = row.qa_flags ? `${row.qa_flags}|TRUNCATED_TEXT` : 'TRUNCATED_TEXT';
+      }
+    }
+    
+    stats.paragraphs += rows.filter(r => r.row_type === 'paragraph').length;
+    stats.tableCells += rows.filter(r => r.row_type === 'table_cell').length;
+    stats.figures += rows.filter(r => r.asset_type === 'IMAGE').length;
+    stats.totalRows += rows.length;
+    await onSection(rows);
+  }
+  
+  if (continuationCount > 0) {
+    console.log(`[NCC Excel] Split oversized clauses into ${continuationCount} continuation row(s)`);
+  }
+  console.log(`[NCC Excel] Final summary: ${clauseRowCount} clause rows, ${stats.tableCells} table rows, ${stats.totalRows} total rows`);
+  console.log(`[NCC Excel] Extracted: ${stats.paragraphs} paragraphs, ${stats.tableCells} table cells, ${stats.figures} figures, ${stats.totalRows} total rows`);
+  
+  return { stats, edition, sectionCount: sections.count };
+}
+
+/**
+ * Build the Excel workbook for a set of rows
+ * XLSX is a zip container, so unlike CSV it is produced in one piece.
+ * The workbook holds the extraction columns, not the NCC schema (rag_text and the
+ * JSON columns don't fit Excel's cell limit); callers validate the converted
+ * NCC rows first so an invalid run fails in every format.
+ */
+export function createExcelBuffer(rows: ExcelRow[]): Buffer {
+  const wb = XLSX.utils.book_new();
+  const ws = XLSX.utils.json_to_sheet(rows);
+  XLSX.utils.book_append_sheet(wb, ws, 'ncc_units');
+  return XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' });
+}
+/**
+ * Position of the next section within the whole document, so source_location
+ * indices, table/figure numbers, auto ids and page labels stay global across sections
+ */
+interface SectionCursor {
+  contentIndex: number;
+  tableIndex: number;
+  autoTableNumber: number;
+  figureIndex: number;
+  autoFigureNumber: number;
+  page: string; // Page label in effect at the start of the section
+  imageFiles: Set<string>; // Image file names used so far
+}
+
+/**
+ * A section's images, captured during conversion, and where to save them
+ */
+interface SectionImages {
+  images: Map<string, CapturedImage>;
+  output?: NCCImageOutput;
+}
+
+/**
+ * Extract clause, content and table rows from one section's HTML
+ * Advances the cursor past this section's content and tables and reports
+ * each finished pass (boundary detection, aggregation, table pass).
+ */
+async function extractRowsFromHtml(
+  html: string,
+  volumeLabel: string,
+  cellLimit: number,
+  cursor: SectionCursor,
+  sectionImages: SectionImages,
+  onPassComplete: (phase: NCCPhase) => void
+): Promise<ExcelRow[]> {
+  // Log table count in HTML for debugging
+  const tableCountInHtml = (html.match(/<table/gi) || []).length;
+  const paragraphCountInHtml = (html.match(/<p[^>]*>/gi) || []).length;
+  console.log(`[NCC Excel] Found ${tableCountInHtml} <table> tags and ${paragraphCountInHtml} <p> tags in HTML`);
+  
+  // Parse HTML to extract paragraphs and tables
+  // Mammoth outputs HTML fragments, so wrap in a proper HTML structure for linkedom
+  const { DOMParser } = await import('linkedom');
+  const wrappedHtml = `<!DOCTYPE html><html><head><title></title></head><body>${html}</body></html>`;
+  const dom = new DOMParser().parseFromString(wrappedHtml, 'text/html');
+  
+  const rows: ExcelRow[] = [];
+  let tableIndex = cursor.tableIndex;
+
+  // Extract all content in document order: paragraphs, headings, AND tables
+  // Mammoth outputs HTML that might not have a body tag, so check documentElement
+  const root = dom.querySelector('body') || dom.documentElement;
+  const allContent: Array<{ type: 'paragraph' | 'table'; element: Element; index: number }> = [];
+  
+  // Get all block elements and tables in document order
+  // Try multiple selectors to catch all possible elements
+  let allParagraphs: Element[] = [];
+  let allTables: Element[] = [];
+  
+  // Try querySelectorAll on root
+  try {
+    allParagraphs = Array.from(root.querySelectorAll('p, h1, h2, h3, h4, h5, h6, div, li, blockquote'));
+    allTables = Array.from(root.querySelectorAll('table'));
+  } catch (e) {
+    console.warn(`[NCC Excel] querySelectorAll failed, trying alternative method:`, e);
+    // Fallback: try on documentElement directly
+    allParagraphs = Array.from(dom.documentElement.querySelectorAll('p, h1, h2, h3, h4, h5, h6, div, li, blockquote'));
+    allTables = Array.from(dom.documentElement.querySelectorAll('table'));
+  }
+  
+  console.log(`[NCC Excel] querySelectorAll found ${allParagraphs.length} paragraphs and ${allTables.length} tables`);
+  
+  // If still no elements, try a different approach - parse the HTML string directly
+  if (allParagraphs.length === 0 && allTables.length === 0) {
+    console.warn(`[NCC Excel] No elements found with querySelectorAll, trying regex-based extraction`);
+    // This is a fallback - we'll need to process differently
+    // For now, let's check if the HTML structure is different
+    const htmlPreview = html.substring(0, 500);
+    console.log(`[NCC Excel] HTML preview (first 500 chars): ${htmlPreview}`);
+  }
+  
+  // Combine and sort by document position
+  const allElementsWithType: Array<{ type: 'paragraph' | 'table'; element: Element }> = [];
+  
+  // Add paragraphs (skip if inside a table)
+  for (const el of allParagraphs) {
+    // Check if element is inside a table (closest might not work in linkedom)
+    let isInsideTable = false;
+    let parent: Element | null = el.parentElement;
+    while (parent) {
+      const tagName = parent.tagName ? parent.tagName.toLowerCase() : '';
+      if (tagName === 'table') {
+        isInsideTable = true;
+        break;
+      }
+      parent = parent.parentElement;
+    }
+    if (!isInsideTable) {
+      allElementsWithType.push({ type: 'paragraph', element: el });
+    }
+  }
+  
+  // Add tables
+  for (const el of allTables) {
+    allElementsWithType.push({ type: 'table', element: el });
+  }
+
+  // Interleave tables with paragraphs so tables land in the clause they sit in
+  // (DOCUMENT_POSITION_FOLLOWING = 4)
+  allElementsWithType.sort((a, b) => (a.element.compareDocumentPosition(b.element) & 4 ? -1 : 1));
+
+  // Assign indices
+  for (let i = 0; i < allElementsWithType.length; i++) {
+    allContent.push({ ...allElementsWithType[i], index: i });
+  }
+  
+  // First and last page of every content element, from the page bookmarks lib/ncc-pages adds
+  const contentPages = traceElementPages(allContent.map(c => c.element), cursor.page);
+  const contentIndexByElement = new Map<Element, number>();
+  allContent.forEach(c => contentIndexByElement.set(c.element, c.index));
+  
+  // Captions, notes and LTE encoding for every table (indexed by document position)
+  const extractedTables = extractTablesFromRoot(
+    root,
+    allContent.filter(c => c.type === 'paragraph').map(c => c.element.textContent?.trim() || ''),
+    cursor.autoTableNumber
+  );
+  const tableParentClauseRefs = new Map<Element, string>();
+  
+  // Figures: captions and image-only paragraphs leave the text flow and become IMAGE rows in the table pass
+  const figureGroups = findFigures(allContent.map(c => ({
+    text: c.type === 'paragraph' ? c.element.textContent || '' : '',
+    hasImages: c.type === 'paragraph' && c.element.querySelector('img') !== null,
+    isTable: c.type === 'table',
+  })));
+  const figureIndices = new Set<number>();
+  figureGroups.forEach(group => {
+    if (group.captionIndex !== -1) figureIndices.add(group.captionIndex);
+    group.imageIndices.forEach(idx => {
+      if (!(allContent[idx].element.textContent || '').trim()) figureIndices.add(idx);
+    });
+  });
+  
+  console.log(`[NCC Excel] Found ${allContent.length} content elements (${allContent.filter(c => c.type === 'paragraph').length} paragraphs + ${allContent.filter(c => c.type === 'table').length} tables) in document order`);
+  
+  // First pass: identify clause boundaries from paragraphs
+  const clauseBoundaries: Array<{ index: number; clauseRef: string; element: Element }> = [];
+  
+  for (let i = 0; i < allContent.length; i++) {
+    const item = allContent[i];
+    if (item.type === 'paragraph' && !figureIndices.has(i)) {
+      const text = item.element.textContent?.trim() || '';
+      if (!text) continue;
+      
+      const clauseRef = extractClauseRef(text);
+      if (clauseRef) {
+        clauseBoundaries.push({ index: i, clauseRef, element: item.element });
+        if (clauseBoundaries.length <= 5) {
+          console.log(`[NCC Excel] Found clause ${clauseRef} at index ${i}: "${text.substring(0, 100)}"`);
+        }
+      }
+    }
+  }
+  
+  console.log(`[NCC Excel] Found ${clauseBoundaries.length} clause boundaries`);
+  onPassComplete('boundary_detection');
+  
+  if (clauseBoundaries.length === 0) {
+    console.warn(`[NCC Excel] WARNING: No clauses detected! First 10 paragraph texts:`);
+    let paraCount = 0;
+    for (let i = 0; i < allContent.length && paraCount < 10; i++) {
+      if (allContent[i].type === 'paragraph') {
+        const text = allContent[i].element.textContent?.trim() || '';
+        if (text) {
+          console.warn(`  [${i}] "${text.substring(0, 150)}"`);
+          paraCount++;
+        }
+      }
+    }
+  }
+  
+  // Second pass: aggregate all content (paragraphs AND tables) by clause
+  for (let i = 0; i < clauseBoundaries.length; i++) {
+    const { index: startIndex, clauseRef, element: startElement } = clauseBoundaries[i];
+    const endIndex = i < clauseBoundaries.length - 1 
+      ? clauseBoundaries[i + 1].index 
+      : allContent.length;
+    
+    // Collect all content for this clause (paragraphs and tables)
+    const clauseContent: string[] = [];
+    const clauseGrids: TableGrid[] = [];
+    const clauseItalics: string[] = [];
+    let clauseLastIndex = startIndex;
+    let clauseHeadingText = '';
+    let clauseHeadingLevel = '';
+    
+    for (let j = startIndex; j < endIndex; j++) {
+      const item = allContent[j];
+      if (figureIndices.has(j)) continue;
+      
+      if (item.type === 'paragraph') {
+        const text = item.element.textContent?.trim() || '';
+        if (!text) continue;
+        
+        // Skip if this paragraph is actually the next clause (safety check)
+        if (j > startIndex) {
+          const nextClauseRef = extractClauseRef(text);
+          if (nextClauseRef && nextClauseRef !== clauseRef) {
+            // This is the start of the next clause, stop here
+            break;
+          }
+        }
+        
+        clauseContent.push(text);
+        clauseLastIndex = j;
+        extractItalicPhrases(item.element).forEach(phrase => clauseItalics.push(phrase));
+        
+        // Extract heading from the first paragraph (clause heading)
+        if (j === startIndex) {
+          const tagName = item.element.tagName.toLowerCase();
+          
+          if (['h1', 'h2', 'h3', 'h4', 'h5', 'h6'].includes(tagName)) {
+            clauseHeadingLevel = tagName.toUpperCase();
+          }
+          
+          // Extract heading text (text after clause reference)
+          const textAfterRef = text.replace(new RegExp(`^${clauseRef.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*[–—:.-]?\\s*`), '').trim();
+          if (textAfterRef) {
+            // Take first sentence or first 100 chars
+            const sentenceMatch = textAfterRef.match(/^([^.!?]+[.!?])(?:\s|$)/);
+            if (sentenceMatch && sentenceMatch[1].trim().length <= 150) {
+              clauseHeadingText = sentenceMatch[1].trim();
+            } else {
+              const firstLine = textAfterRef.split(/\n/)[0].trim();
+              clauseHeadingText = firstLine.length <= 100 ? firstLine : firstLine.substring(0, 100);
+            }
+          }
+        }
+      } else if (item.type === 'table') {
+        // Check if this table has its own clause ref (if so, it's separate - skip it here)
+        const table = item.element as HTMLTableElement;
+        tableParentClauseRefs.set(table, clauseRef);
+        const tableRows = table.querySelectorAll('tr');
+        let tableHasOwnClauseRef = false;
+        let tableClauseRef = '';
+        
+        for (let rIdx = 0; rIdx < Math.min(3, tableRows.length); rIdx++) {
+          const row = tableRows[rIdx];
+          const cells = row.querySelectorAll('td, th');
+          for (let cIdx = 0; cIdx < Math.min(3, cells.length); cIdx++) {
+            const cell = cells[cIdx];
+            const text = cell.textContent?.trim() || '';
+            const ref = extractClauseRef(text);
+            if (ref && ref !== clauseRef) {
+              // This table has a different clause ref, it's a separate clause
+              tableHasOwnClauseRef = true;
+              tableClauseRef = ref;
+              break;
+            }
+          }
+          if (tableHasOwnClauseRef) break;
+        }
+        
+        if (!tableHasOwnClauseRef) {
+          // This table belongs to the current clause, include it in the clause text
+          const formattedTable = tableToMarkdown(table, '', -1);
+          clauseContent.push(`\n\n[TABLE]\n${formattedTable}\n[/TABLE]`);
+          clauseGrids.push(buildTableGrid(table));
+          clauseLastIndex = j;
+          extractItalicPhrases(table).forEach(phrase => clauseItalics.push(phrase));
+        }
+        // If table has its own clause ref, it will be processed separately in the table extraction pass
+      }
+    }
+    
+    // Combine all content into full clause text
+    const fullClauseText = clauseContent.join('\n\n');
+    
+    // Only add row if we have content
+    if (fullClauseText.trim().length === 0) {
+      console.warn(`[NCC Excel] Warning: Clause ${clauseRef} has no content, skipping`);
+      continue;
+    }
+    
+    // Classify unit type from the label grammar, falling back to heading cues
+    const { unitType, confidence } = classifyNCCUnit(clauseRef, fullClauseText);
+    
+    // Get discipline mapping from YAML (filter by volume)
+    const nccTopicDiscipline = getDisciplineForClause(stripStatePrefix(clauseRef), volumeLabel);
+    
+    const clauseTables = serializeTableGrids(clauseGrids, cellLimit);
+    
+    rows.push({
+      volume: volumeLabel,
+      row_type: 'paragraph',
+      heading_level: clauseHeadingLevel,
+      heading_text: clauseHeadingText,
+      unit_type: unitType,
+      extract_confidence: confidence,
+      clause_ref: clauseRef,
+      text: fullClauseText,
+      source_location: `para_${cursor.contentIndex + startIndex}_to_${cursor.contentIndex + endIndex - 1}`,
+      ncc_topic_discipline: nccTopicDiscipline,
+      table_grid_json: clauseTables.gridJson,
+      table_key_values: clauseTables.keyValues,
+      asset_type: '',
+      asset_id: '',
+      asset_caption: '',
+      asset_alt_text: '',
+      asset_file: '',
+      table_lte: '',
+      notes: '',
+      parent_clause_ref: '',
+      defined_term: '',
+      italic_phrases: uniquePhrases(clauseItalics),
+      page_start: contentPages[startIndex].start,
+      page_end: contentPages[clauseLastIndex].end,
+      qa_flags: '',
+    });
+    
+    if (rows.length <= 5) {
+      console.log(`[NCC Excel] Added clause row ${rows.length}: ${clauseRef} (${fullClauseText.length} chars, ${clauseContent.length} content items)`);
+    }
+  }
+  
+  console.log(`[NCC Excel] Created ${rows.length} clause rows from ${clauseBoundaries.length} clause boundaries`);
+  
+  // Third pass: add content that comes before any clause (introductory content)
+  // and any remaining content that wasn't captured
+  const processedIndices = new Set<number>();
+  
+  // Mark all indices that were processed in clause aggregation
+  for (let j = 0; j < clauseBoundaries.length; j++) {
+    const startIdx = clauseBoundaries[j].index;
+    const endIdx = j < clauseBoundaries.length - 1 
+      ? clauseBoundaries[j + 1].index 
+      : allContent.length;
+    for (let k = startIdx; k < endIdx; k++) {
+      processedIndices.add(k);
+    }
+  }
+  
+  // Definitions: entries under a "Schedule 1 Definitions" heading become one DEFINITION row
+  // per term; paragraphs that don't start a new entry ("(a) ...", notes) continue the previous one.
+  // The heading itself, any preamble and tables are left to the pass below.
+  for (let i = 0; i < allContent.length; i++) {
+    const item = allContent[i];
+    if (processedIndices.has(i) || item.type !== 'paragraph') continue;
+    if (!isDefinitionsHeading(item.element.textContent || '')) continue;
+    
+    // Definitions hang under the heading's row ("Schedule 1"), labelled in convertToCSVFormat
+    const sectionLabel = definitionsSectionLabel(item.element.textContent || '');
+    let current: { entry: DefinitionEntry; start: number; end: number; content: string[]; italics: string[] } | null = null;
+    const pushDefinition = () => {
+      if (!current) return;
+      rows.push({
+        volume: volumeLabel,
+        row_type: 'paragraph',
+        heading_level: '',
+        heading_text: current.entry.term,
+        unit_type: 'DEFINITION',
+        extract_confidence: current.entry.fromItalics ? 0.9 : 0.7,
+        clause_ref: '',
+        text: current.content.join('\n\n'),
+        source_location: `para_${cursor.contentIndex + current.start}_to_${cursor.contentIndex + current.end}`,
+        ncc_topic_discipline: '',
+        table_grid_json: '',
+        table_key_values: '',
+        asset_type: '',
+        asset_id: '',
+        asset_caption: '',
+        asset_alt_text: '',
+        asset_file: '',
+        table_lte: '',
+        notes: '',
+        parent_clause_ref: sectionLabel,
+        defined_term: current.entry.term,
+        italic_phrases: uniquePhrases(current.italics),
+        page_start: contentPages[current.start].start,
+        page_end: contentPages[current.end].end,
+        qa_flags: '',
+      });
+    };
+    
+    let definitionCount = 0;
+    for (let j = i + 1; j < allContent.length; j++) {
+      if (figureIndices.has(j)) continue;
+      if (processedIndices.has(j)) break;
+      const nextItem = allContent[j];
+      if (nextItem.type !== 'paragraph') continue;
+      const text = nextItem.element.textContent?.trim() || '';
+      if (!text) continue;
+      
+      // Any heading other than an A-Z divider ends the definitions
+      if (/^h[1-6]$/i.test(nextItem.element.tagName)) {
+        if (/^[A-Z]$/.test(text)) continue;
+        break;
+      }
+      
+      const entry = parseDefinition(nextItem.element);
+      if (entry) {
+        pushDefinition();
+        current = { entry, start: j, end: j, content: [text], italics: extractItalicPhrases(nextItem.element) };
+        definitionCount++;
+      } else if (current) {
+        current.content.push(text);
+        current.end = j;
+        extractItalicPhrases(nextItem.element).forEach(phrase => current!.italics.push(phrase));
+      } else {
+        continue;
+      }
+      processedIndices.add(j);
+    }
+    pushDefinition();
+    console.log(`[NCC Excel] Extracted ${definitionCount} definition(s) under "${(item.element.textContent || '').trim()}"`);
+  }
+  
+  // Process any remaining unprocessed content (figures are rows of their own)
+  figureIndices.forEach(idx => processedIndices.add(idx));
+  for (let i = 0; i < allContent.length; i++) {
+    if (processedIndices.has(i)) continue;
+    
+    const item = allContent[i];
+    const otherContent: string[] = [];
+    const otherGrids: TableGrid[] = [];
+    const otherItalics: string[] = [];
+    let otherLastIndex = i;
+    
+    if (item.type === 'paragraph') {
+      const text = item.element.textContent?.trim() || '';
+      if (!text) continue;
+      
+      // Collect following unprocessed content until we hit a processed one or clause
+      otherContent.push(text);
+      extractItalicPhrases(item.element).forEach(phrase => otherItalics.push(phrase));
+      for (let j = i + 1; j < allContent.length; j++) {
+        if (processedIndices.has(j)) break;
+        
+        const nextItem = allContent[j];
+        if (nextItem.type === 'paragraph') {
+          const nextText = nextItem.element.textContent?.trim() || '';
+          if (!nextText) continue;
+          
+          // Check if next paragraph is a new clause
+          if (extractClauseRef(nextText)) break;
+          
+          otherContent.push(nextText);
+          otherLastIndex = j;
+          extractItalicPhrases(nextItem.element).forEach(phrase => otherItalics.push(phrase));
+          processedIndices.add(j);
+        } else if (nextItem.type === 'table') {
+          // Include tables in the content
+          const table = nextItem.element as HTMLTableElement;
+          const formattedTable = tableToMarkdown(table, '', -1);
+          otherContent.push(`\n\n[TABLE]\n${formattedTable}\n[/TABLE]`);
+          otherGrids.push(buildTableGrid(table));
+          otherLastIndex = j;
+          processedIndices.add(j);
+        }
+      }
+    } else if (item.type === 'table') {
+      // Standalone table without clause ref
+      const table = item.element as HTMLTableElement;
+      const formattedTable = tableToMarkdown(table, '', -1);
+      otherContent.push(`[TABLE]\n${formattedTable}\n[/TABLE]`);
+      otherGrids.push(buildTableGrid(table));
+    }
+    
+    if (otherContent.length === 0) continue;
+    
+    const combinedText = otherContent.join('\n\n');
+    
+    const { unitType, confidence } = classifyNCCUnit('', combinedText);
+    
+    // Get discipline mapping (empty clause_ref means no discipline)
+    const nccTopicDiscipline = '';
+    
+    const otherTables = serializeTableGrids(otherGrids, cellLimit);
+    
+    rows.push({
+      volume: volumeLabel,
+      row_type: item.type === 'table' ? 'table_cell' : 'paragraph',
+      heading_level: '',
+      heading_text: '',
+      unit_type: unitType,
+      extract_confidence: confidence,
+      clause_ref: '',
+      text: combinedText,
+      source_location: `content_${cursor.contentIndex + i}_to_${cursor.contentIndex + i + otherContent.length - 1}`,
+      ncc_topic_discipline: nccTopicDiscipline,
+      table_grid_json: otherTables.gridJson,
+      table_key_values: otherTables.keyValues,
+      asset_type: '',
+      asset_id: '',
+      asset_caption: '',
+      asset_alt_text: '',
+      asset_file: '',
+      table_lte: '',
+      notes: '',
+      parent_clause_ref: '',
+      defined_term: '',
+      italic_phrases: uniquePhrases(otherItalics),
+      page_start: contentPages[i].start,
+      page_end: contentPages[otherLastIndex].end,
+      // Headings are structure the hierarchy rebuilds; anything else here sits outside every clause
+      qa_flags: /^h[1-6]$/i.test(item.element.tagName) ? '' : 'ORPHANED_CONTENT',
+    });
+    
+    processedIndices.add(i);
+    // Skip the content we just processed
+    i += otherContent.length - 1;
+  }
+  
+  // Final validation: log any unprocessed content (should be none)
+  const unprocessedCount = allContent.length - processedIndices.size;
+  if (unprocessedCount > 0) {
+    console.warn(`[NCC Excel] Warning: ${unprocessedCount} content elements were not processed`);
+  }
+  
+  // Log summary before table processing
+  const clauseRowCount = rows.filter(r => r.clause_ref && !r.clause_ref.startsWith('table')).length;
+  console.log(`[NCC Excel] Summary before table processing: ${clauseRowCount} clause rows, ${rows.length - clauseRowCount} other rows`);
+
+  onPassComplete('aggregation');
+
+  // Fourth pass: Extract ALL tables as separate rows
+  // This ensures no tables are missed, even if they're also included in clause text
+  const tables = dom.querySelectorAll('table');
+  console.log(`[NCC Excel] Found ${tables.length} tables in DOM`);
+  
+  if (tables.length === 0 && tableCountInHtml > 0) {
+    console.warn(`[NCC Excel] Warning: Found ${tableCountInHtml} <table> tags in HTML but ${tables.length} tables in DOM - tables may not be parsed correctly`);
+  }
+  
+  // Extract ALL tables - don't skip any
+  for (let tIdx = 0; tIdx < tables.length; tIdx++) {
+    const table = tables[tIdx];
+    
+    const tableRows = table.querySelectorAll('tr');
+    
+    // Check if table has a clause reference in any cell (especially first row/first cell)
+    // Look for patterns like H2V1a, H2V1b which are separate table clauses
+    let tableClauseRef = '';
+    let tableHasClauseRef = false;
+    let clauseRefRowIndex = -1;
+    let clauseRefCellIndex = -1;
+    
+    // Check all rows and cells for clause references (not just first few)
+    for (let rIdx = 0; rIdx < tableRows.length; rIdx++) {
+      const row = tableRows[rIdx];
+      const cells = row.querySelectorAll('td, th');
+      for (let cIdx = 0; cIdx < cells.length; cIdx++) {
+        const cell = cells[cIdx];
+        const text = cell.textContent?.trim() || '';
+        const ref = extractClauseRef(text);
+        if (ref) {
+          // Add "table " prefix to all table clause refs
+          tableClauseRef = `table ${ref}`;
+          tableHasClauseRef = true;
+          clauseRefRowIndex = rIdx;
+          clauseRefCellIndex = cIdx;
+          break;
+        }
+      }
+      if (tableHasClauseRef) break;
+    }
+    
+    // Log table detection for debugging
+    if (tableRows.length > 0) {
+      console.log(`[NCC Excel] Table ${tableIndex}: ${tableRows.length} rows, hasClauseRef: ${tableHasClauseRef}, clauseRef: ${tableClauseRef || 'none'}`);
+    }
+    
+    // Convert table to RAG-friendly format (markdown-style)
+    const formattedTable = tableToMarkdown(table, tableClauseRef, clauseRefRowIndex);
+    const tableGrid = serializeTableGrids([buildTableGrid(table)], cellLimit);
+    
+    // Caption, notes and LTE block from lib/table-extractor (absent for tables with no rows)
+    const extracted = extractedTables.find(t => t.tableIndex === tIdx);
+    if (extracted && extracted.lteText.length > cellLimit) {
+      console.warn(`[NCC Excel] LTE block for ${extracted.id} (${extracted.lteText.length} chars) exceeds cell limit, omitted`);
+    }
+    // Auto-generated ids ("Table-AUTO-001") mean no caption was found
+    const hasCaption = !!extracted && !extracted.id.startsWith('Table-AUTO-');
+    const tableContentIndex = contentIndexByElement.get(table);
+    const tablePages = tableContentIndex !== undefined ? contentPages[tableContentIndex] : null;
+    const tableAsset = {
+      asset_type: 'TABLE' as const,
+      asset_id: extracted ? extracted.id : `table_${tableIndex}`,
+      asset_caption: hasCaption && extracted ? (extracted.title ? `${extracted.id}: ${extracted.title}` : extracted.id) : '',
+      asset_alt_text: '',
+      asset_file: '',
+      table_lte: extracted && extracted.lteText.length <= cellLimit ? extracted.lteText : '',
+      notes: extracted ? extracted.notes : '',
+      parent_clause_ref: tableParentClauseRefs.get(table) || '',
+      defined_term: '',
+      italic_phrases: uniquePhrases(extractItalicPhrases(table)),
+      page_start: tablePages ? tablePages.start : cursor.page,
+      page_end: tablePages ? tablePages.end : cursor.page,
+      qa_flags: extracted && extracted.lteText.length > cellLimit ? 'TRUNCATED_TEXT' : '',
+    };
+    
+    // All tables should be included, with or without clause refs
+    // If table has its own clause ref (like H2V1b), it's a separate clause - don't mix with parent
+    if (tableHasClauseRef) {
+      // Extract heading text from the clause ref cell
+      // Note: tableClauseRef already has "table " prefix
+      const baseClauseRef = tableClauseRef.replace(/^table\s+/i, ''); // Remove prefix for text extraction
+      let tableHeadingText = '';
+      if (clauseRefRowIndex >= 0 && clauseRefCellIndex >= 0) {
+        const clauseRow = tableRows[clauseRefRowIndex];
+        const cells = clauseRow.querySelectorAll('td, th');
+        if (cells[clauseRefCellIndex]) {
+          const cell = cells[clauseRefCellIndex];
+          const text = cell.textContent?.trim() || '';
+          // Extract text after clause ref (use base ref without "table " prefix)
+          const textAfterRef = text.replace(new RegExp(`^${baseClauseRef.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*[–—:.-]?\\s*`), '').trim();
+          if (textAfterRef) {
+            const sentenceMatch = textAfterRef.match(/^([^.!?]+[.!?])(?:\s|$)/);
+            if (sentenceMatch && sentenceMatch[1].trim().length <= 150) {
+              tableHeadingText = sentenceMatch[1].trim();
+            } else {
+              const firstLine = textAfterRef.split(/\n/)[0].trim();
+              tableHeadingText = firstLine.length <= 100 ? firstLine : firstLine.substring(0, 100);
+            }
+          }
+        }
+      }
+      
+      const { unitType, confidence } = classifyNCCUnit(tableClauseRef, formattedTable);
+      
+      const tableText = formattedTable;
+      
+      // Get discipline mapping from YAML (use baseClauseRef without "table " prefix, filter by volume)
+      const nccTopicDiscipline = getDisciplineForClause(stripStatePrefix(baseClauseRef), volumeLabel);
+      
+      rows.push({
+        volume: volumeLabel,
+        row_type: 'table_cell',
+        heading_level: '',
+        heading_text: tableHeadingText,
+        unit_type: unitType,
+        extract_confidence: confidence,
+        clause_ref: tableClauseRef, // Already has "table " prefix
+        text: tableText,
+        source_location: `table_${tableIndex}_${baseClauseRef}`,
+        ncc_topic_discipline: nccTopicDiscipline,
+        table_grid_json: tableGrid.gridJson,
+        table_key_values: tableGrid.keyValues,
+        ...tableAsset,
+      });
+    } else {
+      // Table without clause ref - still format as RAG table, use "table" as clause_ref
+      const tableText = formattedTable;
+      
+      const { unitType, confidence } = classifyNCCUnit(`table ${tableIndex}`, tableText);
+      
+      // No discipline mapping for tables without clause refs
+      const nccTopicDiscipline = '';
+      
+      rows.push({
+        volume: volumeLabel,
+        row_type: 'table_cell',
+        heading_level: '',
+        heading_text: '',
+        unit_type: unitType,
+        extract_confidence: confidence,
+        clause_ref: `table ${tableIndex}`, // Use "table" prefix even without clause ref
+        text: tableText,
+        source_location: `table_${tableIndex}`,
+        ncc_topic_discipline: nccTopicDiscipline,
+        table_grid_json: tableGrid.gridJson,
+        table_key_values: tableGrid.keyValues,
+        ...tableAsset,
+      });
+    }
+    
+    tableIndex++;
+  }
+  
+  // Figures: one IMAGE row per caption and its images, parented to the clause it sits in
+  const clauseRefAt = (index: number): string => {
+    let ref = '';
+    for (const boundary of clauseBoundaries) {
+      if (boundary.index > index) break;
+      ref = boundary.clauseRef;
+    }
+    return ref;
+  };
+  
+  let savedImageCount = 0;
+  for (const group of figureGroups) {
+    const { caption } = group;
+    const assetId = caption ? caption.id : `Figure-AUTO-${String(cursor.autoFigureNumber++).padStart(3, '0')}`;
+    const indices = group.captionIndex !== -1 ? group.imageIndices.concat([group.captionIndex]) : group.imageIndices;
+    const firstIndex = Math.min(...indices);
+    const lastIndex = Math.max(...indices);
+    
+    const altTexts: string[] = [];
+    const files: string[] = [];
+    const images: Element[] = [];
+    group.imageIndices.forEach(idx => Array.from(allContent[idx].element.querySelectorAll('img')).forEach(img => images.push(img)));
+    images.forEach((img, imgIdx) => {
+      const alt = (img.getAttribute('alt') || '').trim();
+      if (alt) altTexts.push(alt);
+      
+      const captured = sectionImages.images.get(img.getAttribute('src') || '');
+      if (!captured || !sectionImages.output) return;
+      let fileName = figureImageFileName(volumeLabel, assetId, imgIdx + 1, captured.contentType);
+      // The same caption twice in a volume ("Figure 1" in two Specifications) must not overwrite the first
+      if (cursor.imageFiles.has(fileName)) {
+        fileName = figureImageFileName(volumeLabel, `${assetId} ${cursor.figureIndex}`, imgIdx + 1, captured.contentType);
+      }
+      cursor.imageFiles.add(fileName);
+      files.push(saveFigureImage(sectionImages.output, fileName, captured.data));
+    });
+    savedImageCount += files.length;
+    
+    const captionElement = caption ? allContent[group.captionIndex].element : null;
+    const parentClauseRef = clauseRefAt(firstIndex);
+    
+    rows.push({
+      volume: volumeLabel,
+      row_type: 'paragraph',
+      heading_level: '',
+      heading_text: caption ? caption.title : '',
+      unit_type: 'FIGURE',
+      extract_confidence: caption ? 0.9 : 0.5,
+      clause_ref: '',
+      text: captionElement ? (captionElement.textContent || '').trim() : altTexts.join('\n\n'),
+      source_location: `figure_${cursor.figureIndex}`,
+      ncc_topic_discipline: parentClauseRef ? getDisciplineForClause(stripStatePrefix(parentClauseRef), volumeLabel) : '',
+      table_grid_json: '',
+      table_key_values: '',
+      asset_type: 'IMAGE',
+      asset_id: assetId,
+      asset_caption: caption ? (caption.title ? `${caption.id}: ${caption.title}` : caption.id) : '',
+      asset_alt_text: uniquePhrases(altTexts),
+      asset_file: files.join('|'),
+      table_lte: '',
+      notes: '',
+      parent_clause_ref: parentClauseRef,
+      defined_term: '',
+      italic_phrases: captionElement ? uniquePhrases(extractItalicPhrases(captionElement)) : '',
+      page_start: contentPages[firstIndex].start,
+      page_end: contentPages[lastIndex].end,
+      qa_flags: '',
+    });
+    cursor.figureIndex++;
+  }
+  if (figureGroups.length > 0) {
+    console.log(`[NCC Excel] Found ${figureGroups.length} figure(s), ${savedImageCount} image file(s) saved`);
+  }
+  
+  onPassComplete('table_pass');
+  
+  cursor.contentIndex += allContent.length;
+  cursor.tableIndex = tableIndex;
+  cursor.autoTableNumber += extractedTables.filter(t => t.id.startsWith('Table-AUTO-')).length;
+  
+  return rows;
+}
+
+/**
+ * Distinct phrases, "|"-separated (for the italic_phrases field)
+ */
+function uniquePhrases(phrases: string[]): string {
+  return phrases.filter((phrase, idx) => phrases.indexOf(phrase) === idx).join('|');
+}
+
+/**
+ * Split rows whose text exceeds the cell limit into ordered continuation rows
+ * Each part keeps the clause identity; source_location gains "_partN_of_M" so the CSV
+ * conversion can give parts 2..M the anchors "<base>#part2", "<base>#part3", ...
+ */
+function splitOversizedRows(rows: ExcelRow[], cellLimit: number): ExcelRow[] {
+  const result: ExcelRow[] = [];
+  
+  for (const row of rows) {
+    const parts = splitOversizedText(row.text, cellLimit);
+    if (parts.length === 1) {
+      result.push(row);
+      continue;
+    }
+    
+    console.warn(`[NCC Excel] Clause ${row.clause_ref || row.source_location} split into ${parts.length} parts (${row.text.length} chars)`);
+    parts.forEach((part, partIdx) => {
+      result.push({
+        ...row,
+        text: part,
+        source_location: `${row.source_location}_part${partIdx + 1}_of_${parts.length}`,
+        // Grids describe the whole unit; keep them on the first part only
+        table_grid_json: partIdx === 0 ? row.table_grid_json : '',
+        table_key_values: partIdx === 0 ? row.table_key_values : '',
+        table_lte: partIdx === 0 ? row.table_lte : '',
+      });
+    });
+  }
+  
+  return result;
+}
+
+/**
+ * A CSV row: NCC rows (lib/ncc-schema) or other tables such as the edition change log
+ */
+export interface CSVRow {
+  [key: string]: string | number | boolean;
+}
+
+/**
+ * Convert Excel rows to CSV format with all fillable columns
+ */
+export function convertToCSVFormat(rows: ExcelRow[], volumeLabel: string, sourceFile: string, edition: NCCEdition): NCCRow[] {
+  const converter = createNCCConverter(volumeLabel, sourceFile);
+  converter.index(rows);
+  const structuralRows = converter.finish(edition);
+  return structuralRows.concat(converter.convert(rows));
+}
+
+/**
+ * Row conversion in two steps, so a volume can be converted one section at a time:
+ * index() each section's rows in document order, finish() to build the document-wide
+ * lookups (hierarchy, anchors, pathways, glossary) and get the structural rows, then
+ * convert() the same sections again in the same order. Between the steps only small
+ * per-row identities are kept, not the rows.
+ */
+export interface NCCConverter {
+  index(rows: ExcelRow[]): void;
+  finish(edition: NCCEdition): NCCRow[];
+  convert(rows: ExcelRow[]): NCCRow[];
+}
+
+export function createNCCConverter(volumeLabel: string, sourceFile: string): NCCConverter {
+  // Extract section_code and part_code from clause_ref
+  // NCC Structure: C1F1 -> section_code: "C", part_code: "C1", unit_label: "C1F1"
+  // NCC Structure: D2D1 -> section_code: "D", part_code: "D2", unit_label: "D2D1"
+  // NCC Structure: A5G1 -> section_code: "A", part_code: "A5", unit_label: "A5G1"
+  // NCC Structure: P2.1 -> section_code: "P", part_code: "P2", unit_label: "P2.1"
+  const extractSectionAndPart = (clauseRef: string): { section: string; part: string } => {
+    if (!clauseRef) return { section: '', part: '' };
+    
+    // Remove "table " prefix
+    const cleanRef = clauseRef.replace(/^table\s+/i, '').trim();
+    
+    // Pattern 1: Letter+Number+Letter+Number (e.g., C1F1, D2D1, A5G1, S1C2a, S1C2A)
+    // Structure: [Section Letter][Part Number][Clause Letter][Clause Number][optional suffix]
+    // Example: C1F1 -> section: "C", part: "C1"
+    // Example: S1C2A -> section: "S", part: "S1"
+    const match = cleanRef.match(/^([A-Z])(\d+)([A-Z]\d+[a-zA-Z]?)$/);
+    if (match) {
+      const sectionLetter = match[1]; // "C"
+      const partNumber = match[2];    // "1"
+      return { section: sectionLetter, part: sectionLetter + partNumber }; // "C", "C1"
+    }
+    
+    // Pattern 2: Letter+Number+Dot+Number (e.g., P2.1, V1.2)
+    // Structure: [Section Letter][Part Number].[Clause Number]
+    // Example: P2.1 -> section: "P", part: "P2"
+    const match2 = cleanRef.match(/^([A-Z])(\d+)\.(\d+)/);
+    if (match2) {
+      const sectionLetter = match2[1]; // "P"
+      const partNumber = match2[2];     // "2"
+      return { section: sectionLetter, part: sectionLetter + partNumber }; // "P", "P2"
+    }
+    
+    // Pattern 3: Simple Letter+Number (e.g., P2, V1, H4)
+    // This might be a section or part reference
+    const match3 = cleanRef.match(/^([A-Z])(\d+)$/);
+    if (match3) {
+      const sectionLetter = match3[1]; // "P"
+      const partNumber = match3[2];    // "2"
+      return { section: sectionLetter, part: sectionLetter + partNumber }; // "P", "P2"
+    }
+    
+    return { section: '', part: '' };
+  };
+  
+  // Extract para_start and para_end from source_location
+  const extractParaRange = (sourceLocation: string): { start: number; end: number } => {
+    const match = sourceLocation.match(/para_(\d+)_to_(\d+)/);
+    if (match) {
+      return { start: parseInt(match[1], 10), end: parseInt(match[2], 10) };
+    }
+    return { start: 0, end: 0 };
+  };
+  
+  // Generate anchor_id from clause_ref
+  // State variations keep their prefix as a separate segment: "NSW J7D3(1)" -> "VOL1::NSW::J7D3(1)"
+  const generateAnchorId = (clauseRef: string, volumeLabel: string): string => {
+    if (!clauseRef) return '';
+    const cleanRef = clauseRef.replace(/^table\s+/i, '').trim().replace(/\s+/g, '::');
+    const volumeUpper = volumeLabel.toUpperCase().replace(/\s+/g, '_');
+    return `${volumeUpper}::${cleanRef}`;
+  };
+  
+  // Caption label of a table asset: "Table D2D2" -> "D2D2" ('' for auto ids such as "Table-AUTO-001")
+  const tableCaptionLabel = (assetId: string): string => {
+    const match = assetId.match(/^Table\s+(.+)$/i);
+    return match ? match[1].toUpperCase() : '';
+  };
+  
+  // Table asset rows: "table D2D2" -> "VOL1::TABLE::D2D2", so they never collide with the clause they sit in
+  const generateTableAnchorId = (unitLabel: string, volumeLabel: string): string => {
+    const volumeUpper = volumeLabel.toUpperCase().replace(/\s+/g, '_');
+    return `${volumeUpper}::TABLE::${unitLabel.replace(/\s+/g, '::')}`;
+  };
+  
+  // Figure asset rows: "Figure D3D14a" -> "VOL1::FIGURE::D3D14A"
+  const generateFigureAnchorId = (unitLabel: string, volumeLabel: string): string => {
+    const volumeUpper = volumeLabel.toUpperCase().replace(/\s+/g, '_');
+    return `${volumeUpper}::FIGURE::${unitLabel}`;
+  };
+  
+  // Infer normative_status from unit_type
+  const inferNormativeStatus = (unitType: string): string => {
+    if (['PERFORMANCE_REQUIREMENT', 'DTS_PROVISION', 'VERIFICATION_METHOD', 'GOVERNING_REQUIREMENT', 'SPECIFICATION_CLAUSE'].includes(unitType)) {
+      return 'NORMATIVE';
+    }
+    return 'INFORMATIVE';
+  };
+  
+  // Infer ncc_pathway from unit_type
+  const inferNCCPathway = (unitType: string): string => {
+    if (unitType === 'PERFORMANCE_REQUIREMENT') return 'PERFORMANCE';
+    if (unitType === 'DTS_PROVISION') return 'DTS';
+    if (unitType === 'VERIFICATION_METHOD') return 'VERIFICATION';
+    if (unitType === 'FUNCTIONAL_STATEMENT') return 'FUNCTIONAL';
+    return 'OBJECTIVE';
+  };
+  
+  // Track table labels by table_id to ensure consistency across multiple rows for the same table
+  const tableLabelMap = new Map<string, string>();
+  
+  // Helper function to validate if a table_id matches NCC style patterns
+  // Valid patterns: C1V1, S1C2A, B1D4, P2.1, etc.
+  // Invalid: "1", "2", "3", "14", etc. (numeric only)
+  const isValidNCCTableId = (tableId: string): boolean => {
+    if (!tableId || tableId.trim() === '') return false;
+    
+    const cleanId = tableId.trim();
+    
+    // Pattern 1: Letter+Number+Letter+Number+OptionalLetter (e.g., S1C2A, C1V1, B1D4)
+    // This is the most common pattern for NCC tables
+    if (/^[A-Z]\d+[A-Z]\d+[a-zA-Z]?$/.test(cleanId)) {
+      return true;
+    }
+    
+    // Pattern 2: Letter+Number+Dot+Number (e.g., P2.1, V1.2)
+    if (/^[A-Z]\d+\.\d+$/.test(cleanId)) {
+      return true;
+    }
+    
+    // Reject numeric-only values (e.g., "1", "2", "3", "14")
+    // These are noise, not NCC table references
+    if (/^\d+$/.test(cleanId)) {
+      return false;
+    }
+    
+    // Reject other non-NCC patterns
+    return false;
+  };
+  
+  // Helper function to detect if a row is a table and extract table info
+  const extractTableInfo = (clauseRef: string, headingText: string, unitLabel: string): { tableId: string; tableLabel: string } => {
+    // Check if this is a table row
+    // Tables have clause_ref starting with "table " OR title starting with "Table"
+    const isTableRow = clauseRef.toLowerCase().startsWith('table ') || 
+                      (headingText && headingText.trim().toLowerCase().startsWith('table '));
+    
+    if (!isTableRow) {
+      return { tableId: '', tableLabel: '' };
+    }
+    
+    // Extract table_id from unit_label (e.g., "S1C2A" from "S1C2A" or "table S1C2A")
+    // This ensures all rows referencing the same table share the same table_id
+    const tableId = unitLabel.trim();
+    
+    // CRITICAL: Only treat as a table if table_id matches NCC style patterns
+    // Filter out noise like "1", "2", "3", etc.
+    if (!isValidNCCTableId(tableId)) {
+      return { tableId: '', tableLabel: '' };
+    }
+    
+    // Extract table_label from heading_text if it starts with "Table"
+    let tableLabel = '';
+    if (headingText && headingText.trim().toLowerCase().startsWith('table ')) {
+      // Extract the full table label (e.g., "Table S1C2a: FRLs deemed to be achieved by walls - masonry")
+      const tableMatch = headingText.match(/^(Table\s+[^:]+(?::\s*[^\n]+)?)/i);
+      if (tableMatch) {
+        tableLabel = tableMatch[1].trim();
+      } else {
+        // Fallback: use the heading text as-is if it starts with "Table"
+        tableLabel = headingText.trim();
+      }
+      
+      // Store in map so other rows for the same table can use this label
+      if (tableLabel && !tableLabelMap.has(tableId)) {
+        tableLabelMap.set(tableId, tableLabel);
+      }
+    } else if (tableLabelMap.has(tableId)) {
+      // If this row doesn't have a table label but we've seen one before for this table_id, reuse it
+      tableLabel = tableLabelMap.get(tableId) || '';
+    }
+    
+    return { tableId, tableLabel };
+  };
+  
+  // Resolve a row's identity (labels, section/part, anchors)
+  const identifyRow = (row: ExcelRow) => {
+    // State variations ("NSW J7D3(1)") take section/part from the national clause they vary
+    const variation = parseStateVariation(row.clause_ref.replace(/^table\s+/i, ''));
+    let { section, part } = extractSectionAndPart(variation ? variation.baseLabel : row.clause_ref);
+    const { start, end } = extractParaRange(row.source_location);
+    
+    // Continuation parts of a split clause share the base anchor: "<base>", "<base>#part2", ...
+    // Remove "table " prefix from unit_label; definitions are labelled by their term, figures and captioned tables
+    // by their caption label (uncaptioned tables keep their position, "table 3"), and the unlabeled row of a
+    // definitions heading by its section ("Schedule 1") so definitions can hang under it
+    const definitionsHeading = !row.clause_ref && !row.asset_type && !row.defined_term && isDefinitionsHeading(row.text.split('\n')[0]);
+    const unitLabel = row.asset_type === 'IMAGE'
+      ? figureUnitLabel(row.asset_id)
+      : row.asset_type === 'TABLE' && tableCaptionLabel(row.asset_id)
+        ? tableCaptionLabel(row.asset_id)
+        : definitionsHeading
+          ? definitionsSectionLabel(row.text.split('\n')[0])
+          : row.defined_term || row.clause_ref.replace(/^table\s+/i, '').trim();
+    
+    const baseAnchorId = row.asset_type === 'TABLE'
+      ? generateTableAnchorId(unitLabel, volumeLabel)
+      : row.asset_type === 'IMAGE'
+        ? generateFigureAnchorId(unitLabel, volumeLabel)
+        : row.defined_term
+          ? definitionAnchorId(row.defined_term, volumeLabel)
+          : definitionsHeading
+            ? definitionsSectionAnchorId(unitLabel, volumeLabel)
+            : generateAnchorId(row.clause_ref, volumeLabel);
+    const partMatch = row.source_location.match(/_part(\d+)_of_\d+$/);
+    const anchorId = continuationAnchorId(baseAnchorId, partMatch ? parseInt(partMatch[1], 10) : 1);
+    
+    // Extract table_id and table_label for table rows
+    const { tableId, tableLabel } = extractTableInfo(row.clause_ref, row.heading_text, unitLabel);
+    
+    // Fallback: If section/part extraction from clause_ref failed, try extracting from table_id or unit_label
+    // This is critical for table rows where clause_ref might be empty or not match patterns
+    if ((!section || !part) && (tableId || unitLabel)) {
+      const fallbackRef = tableId || unitLabel;
+      const fallbackResult = extractSectionAndPart(fallbackRef);
+      if (fallbackResult.section && fallbackResult.part) {
+        section = fallbackResult.section;
+        part = fallbackResult.part;
+      }
+    }
+    
+    return { section, part, start, end, anchorId, unitLabel, tableId, tableLabel, variation };
+  };
+  
+  // What index() keeps per row for finish() and convert(): the identity plus the few
+  // row facts the document-wide lookups need
+  interface IndexedRow {
+    identity: ReturnType<typeof identifyRow>;
+    assetType: string;
+    assetId: string;
+    clauseRef: string;
+    parentClauseRef: string;
+    definedTerm: string;
+    unitType: string;
+    figureRefs: string[];   // Figure labels the row refers to (clause rows only)
+    textPrLabels: string[]; // PRs named in its satisfaction wording (clause rows only)
+  }
+  const indexed: IndexedRow[] = [];
+  
+  // Building classes of each Part's Application clause, inherited by rows without class wording
+  const partClasses = new Map<string, string[]>();
+  
+  // Document-wide lookups, built by finish()
+  const nationalAnchorsByLabel = new Map<string, string>();
+  const refAnchorsByLabel = new Map<string, string>();
+  const figureReferrers = new Map<string, number[]>();
+  const pathwayLinks = new Map<number, PathwayLink>();
+  const prsWithoutPathway = new Set<string>();
+  const anchorCounts = new Map<string, number>();
+  let hierarchy: NCCHierarchy = { structuralNodes: [], unitNodes: [] };
+  let glossary: Glossary = buildGlossary([]);
+  let edition: NCCEdition;
+  let convertedCount = 0;
+  
+  const index = (rows: ExcelRow[]): void => {
+    rows.forEach(row => {
+      const identity = identifyRow(row);
+      const isClauseRow = !row.asset_type && !row.defined_term;
+      const classes = extractBuildingClasses(row.text);
+      if (identity.part && !identity.variation && classes.length > 0 && !partClasses.has(identity.part) && isApplicationClause(row.unit_type, row.heading_text)) {
+        partClasses.set(identity.part, classes);
+      }
+      indexed.push({
+        identity,
+        assetType: row.asset_type,
+        assetId: row.asset_id,
+        clauseRef: row.clause_ref,
+        parentClauseRef: row.parent_clause_ref,
+        definedTerm: row.defined_term,
+        unitType: row.unit_type,
+        figureRefs: row.asset_type
+          ? []
+          : extractInternalRefs(row.text, identity.unitLabel).filter(ref => ref.kind === 'FIGURE').map(ref => ref.label),
+        textPrLabels: isClauseRow ? extractSatisfiedPrLabels(row.text) : [],
+      });
+    });
+  };
+  
+  const finish = (runEdition: NCCEdition): NCCRow[] => {
+    edition = runEdition;
+  
+    // Anchor lookup for national clauses, used to link each variation to the provision it changes
+    // Table and figure assets share their clause's label and are left out (as in ncc-batch collectRefAnchors)
+    indexed.forEach(entry => {
+      const identity = entry.identity;
+      if (entry.assetType) return;
+      if (identity.anchorId && !identity.variation && !nationalAnchorsByLabel.has(identity.unitLabel)) {
+        nationalAnchorsByLabel.set(identity.unitLabel, identity.anchorId);
+      }
+    });
+  
+    // Figures link back to the clauses that refer to them
+    indexed.forEach((entry, idx) => {
+      entry.figureRefs.forEach(label => {
+        const referrers = figureReferrers.get(label) || [];
+        if (referrers.indexOf(idx) === -1) referrers.push(idx);
+        figureReferrers.set(label, referrers);
+      });
+    });
+  
+    // Build Volume > Section > Part > Clause > Subclause tree for path/parent/order
+    // Table rows hang under the clause they sit in, figure rows under a national clause that refers
+    // to them (the one they sit in if it does, else the first) or, when none does, under the clause
+    // they sit in; both appear in paths by their asset id; definitions
+    // hang under their definitions section row ("Vol1 > Schedule 1 > Fire-source feature")
+    hierarchy = buildNCCHierarchy(
+      indexed.map(entry => {
+        const identity = entry.identity;
+        if (entry.assetType) {
+          const referrerRefs = (entry.assetType === 'IMAGE' ? figureReferrers.get(identity.unitLabel) || [] : [])
+            .filter(refIdx => indexed[refIdx].clauseRef && !indexed[refIdx].identity.variation)
+            .map(refIdx => indexed[refIdx].clauseRef);
+          const parentRef = referrerRefs.length === 0 || referrerRefs.indexOf(entry.parentClauseRef) !== -1
+            ? entry.parentClauseRef
+            : referrerRefs[0];
+          return {
+            unitLabel: entry.assetId,
+            sectionCode: identity.section,
+            partCode: identity.part,
+            anchorId: identity.anchorId,
+            attachToLabel: parentRef ? parentRef.replace(/^table\s+/i, '') : undefined,
+          };
+        }
+        return {
+          unitLabel: identity.unitLabel,
+          sectionCode: identity.section,
+          partCode: identity.part,
+          anchorId: identity.anchorId,
+          attachToLabel: identity.variation && !identity.variation.isPartLevel
+            ? identity.variation.baseLabel
+            : entry.definedTerm ? entry.parentClauseRef || undefined : undefined,
+        };
+      }),
+      volumeLabel
+    );
+  
+    // Link DTS provisions and Verification Methods to the Performance Requirements they satisfy;
+    // only clause rows take part (table/figure labels look like clause labels, definitions are terms)
+    const clauseRowIdxs = indexed.map((entry, idx) => idx).filter(idx => !indexed[idx].assetType && !indexed[idx].definedTerm);
+    const pathways = linkPathways(
+      clauseRowIdxs.map(idx => {
+        const { anchorId, unitLabel, variation } = indexed[idx].identity;
+        return {
+          anchorId,
+          unitLabel: variation ? variation.label : unitLabel,
+          unitType: indexed[idx].unitType,
+          textPrLabels: indexed[idx].textPrLabels,
+        };
+      }),
+      nationalAnchorsByLabel
+    );
+    clauseRowIdxs.forEach((rowIdx, i) => pathwayLinks.set(rowIdx, pathways.links[i]));
+    pathways.prsWithoutPathway.forEach(label => prsWithoutPathway.add(label));
+    if (pathways.prsWithoutPathway.length > 0) {
+      console.warn(`[CSV Conversion] ${pathways.prsWithoutPathway.length} Performance Requirement(s) have no DTS or VM pathway: ${pathways.prsWithoutPathway.join(', ')}`);
+    }
+  
+    // Structural rows (Volume, Section, Part) come first so parent anchors resolve to real rows
+    const structuralRows = hierarchy.structuralNodes.map(node => {
+      const structuralRow = createStructuralRow(node, volumeLabel, sourceFile, edition);
+      if (node.level === 'PART' && partClasses.has(node.partCode)) {
+        structuralRow.applies_to_class = partClasses.get(node.partCode)!.join('|');
+      }
+      structuralRow.rag_text = buildRagText(structuralRow);
+      return structuralRow;
+    });
+  
+    // Anchor lookup for cross-references: clause labels, part codes ("Part J7", "Specification 5" -> S5)
+    // and table/figure assets under their own keys ("Table D2D2" -> TABLE::D2D2)
+    nationalAnchorsByLabel.forEach((anchor, label) => refAnchorsByLabel.set(label, anchor));
+    indexed.forEach(entry => {
+      const identity = entry.identity;
+      const kind = entry.assetType === 'TABLE' ? 'TABLE' : entry.assetType === 'IMAGE' ? 'FIGURE' : '';
+      if (!kind || !identity.anchorId || identity.variation) return;
+      const key = internalRefKey({ kind, label: identity.unitLabel.toUpperCase() });
+      if (!refAnchorsByLabel.has(key)) refAnchorsByLabel.set(key, identity.anchorId);
+    });
+    hierarchy.structuralNodes.forEach(n => {
+      if (n.level === 'PART' && !refAnchorsByLabel.has(n.partCode)) {
+        refAnchorsByLabel.set(n.partCode, n.anchorId);
+      }
+    });
+  
+    // Schedule 1 glossary: term -> definition row, for the defined terms each row uses
+    glossary = buildGlossary(
+      indexed
+        .map(entry => ({ term: entry.definedTerm, anchorId: entry.identity.anchorId }))
+        .filter(entry => entry.term && entry.anchorId.indexOf('#') === -1)
+    );
+    if (glossary.entries.size > 0) {
+      console.log(`[CSV Conversion] Glossary: ${glossary.entries.size} defined term(s)`);
+    }
+  
+    // Anchor use across the whole run, for the DUPLICATE_ANCHOR check of each converted section
+    structuralRows.forEach(row => anchorCounts.set(row.anchor_id, (anchorCounts.get(row.anchor_id) || 0) + 1));
+    indexed.forEach(entry => {
+      const anchorId = entry.identity.anchorId;
+      if (anchorId) anchorCounts.set(anchorId, (anchorCounts.get(anchorId) || 0) + 1);
+    });
+  
+    return structuralRows;
+  };
+  
+  const convert = (rows: ExcelRow[]): NCCRow[] => {
+    const csvRows: NCCRow[] = [];
+    for (let sectionRowIdx = 0; sectionRowIdx < rows.length; sectionRowIdx++) {
+      const row = rows[sectionRowIdx];
+      const rowIdx = convertedCount++;
+      const { section, part, start, end, anchorId, unitLabel, tableId, tableLabel, variation } = indexed[rowIdx].identity;
+      const node = hierarchy.unitNodes[rowIdx];
+    
+      // State variation fields - national rows leave these empty
+      let variationAction = '';
+      let affectsAnchorId = '';
+      if (variation) {
+        variationAction = classifyVariationAction(row.text);
+        affectsAnchorId = variation.isPartLevel
+          ? hierarchy.structuralNodes.find(n => n.level === 'PART' && n.partCode === variation.baseLabel)?.anchorId || ''
+          : nationalAnchorsByLabel.get(variation.baseLabel) || '';
+      }
+    
+      // Cross-references: NCC labels resolve within this run, standards are normalised
+      const internalRefs = extractInternalRefs(row.text, row.asset_type ? row.asset_id : unitLabel);
+      const relatedAnchorIds = resolveInternalRefs(internalRefs, refAnchorsByLabel);
+      if (row.asset_type === 'IMAGE') {
+        (figureReferrers.get(unitLabel) || []).forEach(idx => {
+          const referrerAnchorId = indexed[idx].identity.anchorId;
+          if (relatedAnchorIds.indexOf(referrerAnchorId) === -1) relatedAnchorIds.push(referrerAnchorId);
+        });
+      }
+      const externalRefs = extractExternalRefs(row.text);
+    
+      // Defined terms: resolved to their definition rows alongside the clause references
+      const termsUsed = findDefinedTerms(glossary, row.text, row.italic_phrases ? row.italic_phrases.split('|') : [], row.defined_term);
+      termsUsed.forEach(entry => {
+        if (relatedAnchorIds.indexOf(entry.anchorId) === -1) relatedAnchorIds.push(entry.anchorId);
+      });
+    
+      // Obligations, conditions and carve-outs from the clause prose
+      const phrases = analyzeClausePhrases(row.text);
+      const rowClasses = extractBuildingClasses(row.text);
+      const appliesToClass = rowClasses.length > 0 ? rowClasses : partClasses.get(part) || [];
+    
+      // Limits and formulas as data (constant_value/constant_name are parallel, pipe-separated lists);
+      // table rows keep their values in table_grid_json, figure rows only carry a caption
+      const constants = row.asset_type ? [] : extractConstants(row.text);
+      const formulas = row.asset_type ? [] : extractFormulas(row.text);
+    
+      // Compliance pathway: DTS/VM -> PR links, and PRs that nothing satisfies
+      // (warnings start from the QA flags raised during extraction)
+      const pathway: PathwayLink = pathwayLinks.get(rowIdx) || { role: '', prLabels: [], satisfiesPrAnchorIds: [], linkSource: '' };
+      const rowWarnings: string[] = row.qa_flags ? row.qa_flags.split('|') : [];
+      if (pathway.role === 'PR' && prsWithoutPathway.has(unitLabel)) {
+        rowWarnings.push('NO_DTS_OR_VM_PATHWAY');
+      }
+    
+      // Debug: Log discipline value for first few rows
+      if (rowIdx < 5 && row.clause_ref) {
+        console.log(`[CSV Conversion] Row ${rowIdx}: clause_ref="${row.clause_ref}", ncc_topic_discipline="${row.ncc_topic_discipline}"`);
+      }
+    
+      const csvRow: NCCRow = {
+        doc_id: edition.docId,
+        volume: volumeLabel,
+        state_variation: variation ? variation.state : '',
+        version_date: edition.versionDate,
+        edition_label: edition.editionLabel,
+        source_file: sourceFile,
+        path: node.path,
+        anchor_id: anchorId,
+        parent_anchor_id: node.parentAnchorId,
+        order_in_parent: node.orderInParent,
+        para_start: start,
+        para_end: end,
+        unit_label: unitLabel,
+        unit_type: variation ? 'STATE_VARIATION' : row.unit_type,
+        compliance_weight: '',
+        title: row.heading_text,
+        text: row.text,
+        text_html: '', // Not produced yet: text is plain text, not HTML
+        rag_text: '',
+        notes: row.notes,
+        defined_term: row.defined_term,
+        defined_terms_used: termsUsed.length > 0 ? JSON.stringify(termsUsed.map(entry => entry.term)) : '',
+        contains_shall: phrases.containsShall,
+        contains_must: phrases.containsMust,
+        external_refs: externalRefs.length > 0
+          ? JSON.stringify(externalRefs.map(ref => ({ designation: ref.designation, part: ref.part, year: ref.year, normalized: ref.normalized })))
+          : '',
+        internal_refs: internalRefs.length > 0 ? JSON.stringify(internalRefLabels(internalRefs)) : '',
+        satisfies_pr_ids: pathway.satisfiesPrAnchorIds.length > 0 ? JSON.stringify(pathway.satisfiesPrAnchorIds) : '',
+        related_unit_ids: relatedAnchorIds.length > 0 ? JSON.stringify(relatedAnchorIds) : '',
+        asset_type: row.asset_type,
+        asset_id: row.asset_id,
+        asset_caption: row.asset_caption,
+        asset_alt_text: row.asset_alt_text,
+        asset_file: row.asset_file,
+        table_lte: row.table_lte,
+        page_start: row.page_start,
+        page_end: row.page_end,
+        bbox_json: '',
+        extract_confidence: row.extract_confidence,
+        warnings: rowWarnings.length > 0 ? JSON.stringify(rowWarnings) : '',
+        ncc_pathway: inferNCCPathway(row.unit_type),
+        normative_status: inferNormativeStatus(row.unit_type),
+        conditionality: 'ALWAYS',
+        heading_context: row.heading_level,
+        raw_title: row.heading_text,
+        raw_text: row.text,
+        applies_state: variation ? variation.state : '',
+        variation_action: variationAction,
+        affected_unit_label: variation ? variation.baseLabel : '',
+        affected_subparts: variation ? affectedSubclauses(variation, row.text).join('|') : '',
+        affects_anchor_id: affectsAnchorId,
+        table_grid_json: row.table_grid_json,
+        table_key_values: row.table_key_values,
+        base_unit_label: variation ? variation.baseLabel : unitLabel,
+        affected_subclause: variation ? variation.subclause : '',
+        conditions_text: joinPhrases(phrases.conditions),
+        exceptions_text: joinPhrases(phrases.exceptions),
+        requirements_list: joinPhrases(phrases.requirements),
+        standards_referenced: externalRefs.map(ref => ref.normalized).join('|'),
+        notes_quality: '',
+        discipline: row.ncc_topic_discipline,
+        table_purpose: '',
+        table_id: tableId,
+        table_label: tableLabel,
+        applies_to_volume: volumeLabel.replace(/^Vol/i, 'V'),
+        applies_to_class: appliesToClass.join('|'),
+        volume_hierarchy: '',
+        dataset_coverage: '',
+        scope_conditions: '',
+        formula_json: formulas.length > 0 ? JSON.stringify(formulas) : '',
+        constant_value: constants.map(constant => constant.value + constant.unit).join('|'),
+        constant_name: constants.map(constant => constant.name).join('|'),
+        // A Verification Method backs a Performance Solution, the alternative to DTS; DTS is the default pathway
+        pathway_alternative_to: pathway.role === 'VM' && pathway.prLabels.length > 0 ? 'DTS' : '',
+        verification_method_for: pathway.role === 'VM' ? pathway.prLabels.join('|') : '',
+        section_code: section,
+        part_code: part,
+        indexable: true,
+      };
+    
+      csvRows.push(csvRow);
+    }
+  
+    // rag_text: header (type, label, path, title) and body (text, notes, exceptions)
+    csvRows.forEach(csvRow => {
+      csvRow.rag_text = buildRagText(csvRow);
+    });
+
+    // QA: flag missing text, suspicious clause refs, duplicate anchors, ... and adjust confidence
+    applyQualityChecks(csvRows, anchorCounts);
+  
+    return csvRows;
+  };
+  
+  return { index, finish, convert };
+}
+
+/**
+ * Create a CSV row for a structural hierarchy node (Volume, Section or Part)
+ * Structural rows carry no text; they exist so parent_anchor_id always points at a real row.
+ */
+function createStructuralRow(node: HierarchyNode, volumeLabel: string, sourceFile: string, edition: NCCEdition): NCCRow {
+  return {
+    doc_id: edition.docId,
+    volume: volumeLabel,
+    state_variation: '',
+    version_date: edition.versionDate,
+    edition_label: edition.editionLabel,
+    source_file: sourceFile,
+    path: node.path,
+    anchor_id: node.anchorId,
+    parent_anchor_id: node.parentAnchorId,
+    order_in_parent: node.orderInParent,
+    para_start: 0,
+    para_end: 0,
+    unit_label: node.label,
+    unit_type: node.level,
+    compliance_weight: '',
+    title: node.label,
+    text: '',
+    text_html: '',
+    rag_text: '',
+    notes: '',
+    defined_term: '',
+    defined_terms_used: '',
+    contains_shall: false,
+    contains_must: false,
+    external_refs: '',
+    internal_refs: '',
+    satisfies_pr_ids: '',
+    related_unit_ids: '',
+    asset_type: '',
+    asset_id: '',
+    asset_caption: '',
+    asset_alt_text: '',
+    asset_file: '',
+    table_lte: '',
+    page_start: '',
+    page_end: '',
+    bbox_json: '',
+    extract_confidence: '',
+    warnings: '',
+    ncc_pathway: '',
+    normative_status: 'INFORMATIVE',
+    conditionality: 'ALWAYS',
+    heading_context: '',
+    raw_title: node.label,
+    raw_text: '',
+    applies_state: '',
+    variation_action: '',
+    affected_unit_label: '',
+    affected_subparts: '',
+    affects_anchor_id: '',
+    table_grid_json: '',
+    table_key_values: '',
+    base_unit_label: '',
+    affected_subclause: '',
+    conditions_text: '',
+    exceptions_text: '',
+    requirements_list: '',
+    standards_referenced: '',
+    notes_quality: '',
+    discipline: '',
+    table_purpose: '',
+    table_id: '',
+    table_label: '',
+    applies_to_volume: volumeLabel.replace(/^Vol/i, 'V'),
+    applies_to_class: '',
+    volume_hierarchy: '',
+    dataset_coverage: '',
+    scope_conditions: '',
+    formula_json: '',
+    constant_value: '',
+    constant_name: '',
+    pathway_alternative_to: '',
+    verification_method_for: '',
+    section_code: node.sectionCode,
+    part_code: node.partCode,
+    indexable: false,
+  };
+}
+
+/**
+ * CSV dialect, chosen per export
+ * Single-line mode (the default) turns line breaks in values into spaces for strict
+ * parsers; multiline mode keeps them inside quoted fields (RFC 4180, CRLF between
+ * records), so paragraphs and [TABLE] blocks keep their layout.
+ */
+export interface CSVFormatOptions {
+  multiline?: boolean;
+  bom?: boolean;      // UTF-8 byte order mark, so Excel opens the file as UTF-8
+  delimiter?: string; // One of CSV_DELIMITERS (default ",")
+}
+
+export interface CSVWriteOptions extends CSVFormatOptions {
+  header?: boolean; // Write the BOM and header row (default true); false appends rows to a CSV already started
+  onProgress?: NCCProgressCallback;
+}
+
+/**
+ * Supported delimiters by request field value
+ */
+export const CSV_DELIMITERS: { [name: string]: string } = {
+  comma: ',',
+  semicolon: ';',
+  tab: '\t',
+  pipe: '|',
+};
+
+/**
+ * CSV format from request fields: newlines ("keep" or "flatten"), bom ("true"),
+ * delimiter (a CSV_DELIMITERS name or the character itself)
+ * Returns null if the delimiter is not supported.
+ */
+export function parseCSVFormat(fields: { newlines?: string; bom?: string; delimiter?: string }): CSVFormatOptions | null {
+  let delimiter = ',';
+  if (fields.delimiter) {
+    const name = fields.delimiter.toLowerCase();
+    if (CSV_DELIMITERS[name]) {
+      delimiter = CSV_DELIMITERS[name];
+    } else if (Object.keys(CSV_DELIMITERS).some(key => CSV_DELIMITERS[key] === fields.delimiter)) {
+      delimiter = fields.delimiter;
+    } else {
+      return null;
+    }
+  }
+  return {
+    multiline: fields.newlines === 'keep',
+    bom: fields.bom === 'true' || fields.bom === '1',
+    delimiter,
+  };
+}
+
+/**
+ * Write NCC rows as CSV, in schema column order
+ * The rows are validated against lib/ncc-schema first; nothing is written if they don't match.
+ */
+export async function writeCSV(
+  rows: CSVRow[],
+  out: NodeJS.WritableStream,
+  options: CSVWriteOptions = {}
+): Promise<void> {
+  assertNCCRows(rows);
+  await writeCSVTable(rows, NCC_COLUMN_NAMES, out, options);
+}
+
+/**
+ * Extract a DOCX and write its NCC rows as CSV, one section at a time
+ * The first pass indexes each section for the document-wide lookups and spills its rows
+ * to a temporary file; the second reads the sections back one by one, converts them and
+ * writes them out. Only one section's rows and the small per-row index are held at once.
+ * The QA report is built as the rows are written.
+ */
+export async function writeNCCCSV(
+  buffer: Buffer,
+  options: NCCExtractOptions & { sourceFile: string },
+  out: NodeJS.WritableStream,
+  csvOptions: CSVWriteOptions = {}
+): Promise<{ stats: NCCStats; edition: NCCEdition; rowCount: number; qaReport: NCCQualityReport }> {
+  const converter = createNCCConverter(options.volumeLabel, options.sourceFile);
+  const spillFile = path.join(os.tmpdir(), `ncc_sections_${process.pid}_${Date.now()}_${Math.random().toString(36).slice(2)}.tmp`);
+  const spillFd = fs.openSync(spillFile, 'w+');
+  
+  try {
+    const sectionSizes: number[] = [];
+    const { stats, edition } = await extractNCCSections(buffer, options, async rows => {
+      converter.index(rows);
+      sectionSizes.push(fs.writeSync(spillFd, JSON.stringify(rows)));
+    });
+    
+    const structuralRows = converter.finish(edition);
+    const rowCount = structuralRows.length + stats.totalRows;
+    const qaReport = createQualityReportBuilder();
+    const report = (completed: number) => {
+      if (csvOptions.onProgress) csvOptions.onProgress({ phase: 'csv_write', completed, total: rowCount });
+    };
+    
+    assertNCCRows(structuralRows);
+    await writeCSVTable(structuralRows, NCC_COLUMN_NAMES, out, { ...csvOptions, onProgress: undefined });
+    qaReport.add(structuralRows);
+    let written = structuralRows.length;
+    report(written);
+    
+    let position = 0;
+    for (const size of sectionSizes) {
+      const data = Buffer.alloc(size);
+      fs.readSync(spillFd, data, 0, size, position);
+      position += size;
+      
+      const csvRows = converter.convert(JSON.parse(data.toString('utf8')));
+      assertNCCRows(csvRows);
+      await writeCSVTable(csvRows, NCC_COLUMN_NAMES, out, { ...csvOptions, header: false, onProgress: undefined });
+      qaReport.add(csvRows);
+      written += csvRows.length;
+      report(written);
+    }
+    
+    return { stats, edition, rowCount, qaReport: qaReport.build() };
+  } finally {
+    fs.closeSync(spillFd);
+    fs.unlinkSync(spillFile);
+  }
+}
+
+/**
+ * Write CSV content to a stream, one row at a time
+ * Rows are batched into ~64 KB writes and the stream's backpressure is respected,
+ * so the full CSV text is never held in memory.
+ */
+export async function writeCSVTable(
+  rows: CSVRow[],
+  columns: string[],
+  out: NodeJS.WritableStream,
+  options: CSVWriteOptions = {}
+): Promise<void> {
+  const delimiter = options.delimiter || ',';
+  const recordSeparator = options.multiline ? '\r\n' : '\n';
+  const onProgress = options.onProgress;
+  
+  // CSV escape function - handles all edge cases
+  // CRITICAL: This function must properly escape all special characters
+  const escapeCSV = (value: any): string => {
+    // Handle null/undefined
+    if (value === null || value === undefined) return '""';
+    
+    // Handle boolean values before converting to string
+    let str: string;
+    if (typeof value === 'boolean') {
+      str = value ? 'true' : 'false';
+    } else if (typeof value === 'number') {
+      str = String(value);
+    } else {
+      str = String(value);
+    }
+    
+    if (options.multiline) {
+      // Line breaks stay inside the quoted field (RFC 4180); normalised to \n
+      str = str.replace(/\r\n?/g, '\n');
+    } else {
+      // CRITICAL: Replace newlines and carriage returns with spaces
+      // This ensures CSV compatibility with all parsers (Excel, etc.)
+      // Multiline fields in CSV are valid per RFC 4180 but break many parsers
+      str = str.replace(/\r\n/g, ' ').replace(/\r/g, ' ').replace(/\n/g, ' ');
+    }
+    
+    // Always quote if:
+    // 1. Contains the delimiter, a quote or a line break
+    // 2. Starts or ends with whitespace
+    // 3. Is empty string (to preserve it)
+    const needsQuoting = 
+      str.includes(delimiter) || 
+      str.includes('"') ||
+      str.includes('\n') ||
+      str.trim() !== str ||
+      str === '';
+    
+    if (needsQuoting) {
+      // CRITICAL: Escape internal double quotes by doubling them (RFC 4180)
+      str = str.replace(/"/g, '""');
+      // Wrap in quotes
+      return `"${str}"`;
+    }
+    
+    return str;
+  };
+  
+  const write = async (chunk: string): Promise<void> => {
+    if (!out.write(chunk)) {
+      await new Promise<void>(resolve => out.once('drain', () => resolve()));
+    }
+  };
+  
+  // Generate header
+  let pending = options.header === false ? '' : (options.bom ? '\uFEFF' : '') + columns.map(escapeCSV).join(delimiter);
+  
+  // Generate rows - in single-line mode each row is guaranteed to be on a single line
+  for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
+    const row = rows[rowIndex];
+    let rowString: string;
+    try {
+      rowString = columns.map(col => {
+        const value = row[col];
+        return escapeCSV(value);
+      }).join(delimiter);
+    } catch (error) {
+      console.error(`[CSV Generation] Error processing row ${rowIndex}:`, error);
+      // Write a safe row with empty values
+      rowString = columns.map(() => '""').join(delimiter);
+    }
+    
+    pending += recordSeparator + rowString;
+    if (pending.length >= 65536) {
+      await write(pending);
+      pending = '';
+      if (onProgress) onProgress({ phase: 'csv_write', completed: rowIndex + 1, total: rows.length });
+    }
+  }
+  
+  if (pending) await write(pending);
+  if (onProgress) onProgress({ phase: 'csv_write', completed: rows.length, total: rows.length });
+}
+
+/**
+ * Extract clause reference from text (best effort)
+ * Handles patterns like H2V1, H2V1a, H2V1b, etc.
+ * State variations are returned with their prefix, e.g. "NSW J7D3(1)"
+ */
+function extractClauseRef(text: string): string {
+  // State/territory variations keep their prefix ("NSW J7D3(1)") so they never
+  // merge into, or get mistaken for, the national clause they vary
+  const variation = parseStateVariation(text);
+  if (variation) {
+    return `${variation.state} ${variation.label}`;
+  }
+  
+  // Patterns: H4D3, D2D1, A2G2, P2.1, V1.2, H2V1a, H2V1b, S1C2a, S1C3b, etc.
+  // CRITICAL: Check for patterns WITH letter suffixes FIRST (more specific)
+  // This ensures S1C2a is extracted instead of just S1C2 when both appear
+  
+  // Pattern 1: Most specific - letter+number+letter+number+letter (e.g., S1C2a, H2V1b, S1C3b)
+  // This MUST come first to prioritize suffixed references
+  // Matches: "S1C2a", "Table S1C2a", "Tables S1C2a, S1C2b", etc.
+  const suffixedPattern = /\b([A-Z]\d+[A-Z]\d+[a-z])\b/i;
+  const suffixedMatch = text.match(suffixedPattern);
+  if (suffixedMatch && suffixedMatch[1]) {
+    return suffixedMatch[1].toUpperCase(); // Return S1C2A, H2V1B, etc.
+  }
+  
+  // Pattern 2: Letter+number+letter+number (e.g., H2V1, H4D3, D2D1, A2G2, S1C2)
+  // Only match if no suffixed version was found
+  const doublePattern = /\b([A-Z]\d+[A-Z]\d+)\b/i;
+  const doubleMatch = text.match(doublePattern);
+  if (doubleMatch && doubleMatch[1]) {
+    return doubleMatch[1].toUpperCase();
+  }
+  
+  // Pattern 3: Letter+number+dot+number (e.g., P2.1, V1.2)
+  const dotPattern = /\b([A-Z]\d+\.\d+)\b/i;
+  const dotMatch = text.match(dotPattern);
+  if (dotMatch && dotMatch[1]) {
+    return dotMatch[1].toUpperCase();
+  }
+  
+  // Pattern 4: Simple letter+number (e.g., P2, V1, H4)
+  const simplePattern = /\b([A-Z]\d+)\b/i;
+  const simpleMatch = text.match(simplePattern);
+  if (simpleMatch && simpleMatch[1]) {
+    return simpleMatch[1].toUpperCase();
+  }
+
+  return '';
+}
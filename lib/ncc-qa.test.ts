@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { qualityHeaderValue, qualityReportHeaderValue, summarizeQuality } from '@/lib/ncc-qa';
+
+const row = (unitType: string, warnings: string[], confidence: number) => ({
+  unit_type: unitType,
+  indexable: unitType !== 'VOLUME',
+  warnings: warnings.length > 0 ? JSON.stringify(warnings) : '',
+  extract_confidence: confidence,
+});
+
+describe('summarizeQuality', () => {
+  it('counts flagged and low-confidence content rows, skipping structural rows', () => {
+    const summary = summarizeQuality([
+      row('VOLUME', ['MISSING_TEXT'], 0.1),
+      row('DTS_PROVISION', ['MISSING_TITLE', 'TRUNCATED_TEXT'], 0.75),
+      row('DTS_PROVISION', [], 0.95),
+      row('OTHER', ['ORPHANED_CONTENT', 'TRUNCATED_TEXT'], 0.3),
+    ]);
+
+    expect(summary.row_count).toBe(3);
+    expect(summary.flagged_rows).toBe(2);
+    expect(summary.low_confidence_rows).toBe(1);
+    expect(summary.mean_confidence).toBe(0.67);
+    expect(summary.warning_counts).toEqual({ MISSING_TITLE: 1, TRUNCATED_TEXT: 2, ORPHANED_CONTENT: 1 });
+  });
+});
+
+describe('qualityHeaderValue', () => {
+  it('keeps only the totals', () => {
+    const summary = summarizeQuality([row('DTS_PROVISION', ['MISSING_TITLE'], 0.9)]);
+    expect(JSON.parse(qualityHeaderValue(summary))).toEqual({
+      row_count: 1,
+      flagged_rows: 1,
+      mean_confidence: 0.9,
+      low_confidence_rows: 0,
+    });
+  });
+});
+
+describe('qualityReportHeaderValue', () => {
+  it('points at both report files', () => {
+    expect(JSON.parse(qualityReportHeaderValue('output', { jsonFile: 'ncc_vol1_1_qa.json', htmlFile: 'ncc_vol1_1_qa.html' }))).toEqual({
+      json: 'output/ncc_vol1_1_qa.json',
+      html: 'output/ncc_vol1_1_qa.html',
+    });
+  });
+});
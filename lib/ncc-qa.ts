@@ -0,0 +1,338 @@
+/**
+ * Extraction QA
+ *
+ * Flags rows whose extraction looks wrong and summarises a run:
+ * - MISSING_TEXT: a content row with no text
+ * - MISSING_TITLE: a labelled clause with no title
+ * - TABLE_BLOB_ONLY: a table kept as text with no structured grid
+ * - SUSPICIOUS_CLAUSE_REF: a clause whose text doesn't start with its label
+ *   (a boundary detected from a mention, e.g. "... must comply with D2D1")
+ * - DUPLICATE_ANCHOR: an anchor_id used by more than one row
+ * - TRUNCATED_TEXT: a field cut to fit a cell, or text Excel will cut when opening the CSV
+ * - ORPHANED_CONTENT: content outside any clause, picked up by the unprocessed content pass
+ *
+ * Flags go into `warnings` (JSON array, with content findings such as
+ * NO_DTS_OR_VM_PATHWAY) and `notes_quality` (extraction flags only, pipe-separated);
+ * each flag lowers the row's extract_confidence. The run report is built from
+ * those columns, so it can be regenerated from any CSV export.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { EXCEL_CELL_LIMIT } from '@/lib/ncc-overflow';
+
+export type NCCQualityFlag =
+  | 'MISSING_TEXT'
+  | 'MISSING_TITLE'
+  | 'TABLE_BLOB_ONLY'
+  | 'SUSPICIOUS_CLAUSE_REF'
+  | 'DUPLICATE_ANCHOR'
+  | 'TRUNCATED_TEXT'
+  | 'ORPHANED_CONTENT';
+
+/**
+ * Confidence lost per flag, with a description for the report
+ */
+export const QUALITY_FLAGS: { [flag in NCCQualityFlag]: { penalty: number; description: string } } = {
+  MISSING_TEXT: { penalty: 0.5, description: 'Content row with no text' },
+  MISSING_TITLE: { penalty: 0.05, description: 'Labelled clause with no title' },
+  TABLE_BLOB_ONLY: { penalty: 0.1, description: 'Table kept as text only, no structured grid' },
+  SUSPICIOUS_CLAUSE_REF: { penalty: 0.3, description: 'Clause text does not start with its label' },
+  DUPLICATE_ANCHOR: { penalty: 0.2, description: 'anchor_id shared with another row' },
+  TRUNCATED_TEXT: { penalty: 0.2, description: 'Text cut to fit a cell, or longer than an Excel cell' },
+  ORPHANED_CONTENT: { penalty: 0.2, description: 'Content outside any clause' },
+};
+
+export const LOW_CONFIDENCE = 0.5;
+
+const SAMPLES_PER_WARNING = 10;
+
+// Words that may precede a label in a heading
+const LABEL_HEADING_WORD = /^(?:EXPLANATORY )?(?:PART|SECTION|TABLE|FIGURE|SPECIFICATION|SCHEDULE) /;
+
+type QARow = { [key: string]: string | number | boolean };
+
+export interface NCCQualitySample {
+  anchor_id: string;
+  unit_label: string;
+  unit_type: string;
+  page_start: string;
+  excerpt: string;
+}
+
+export interface NCCQualitySummary {
+  row_count: number;       // Content rows (structural Volume/Section/Part rows excluded)
+  flagged_rows: number;
+  warning_counts: { [warning: string]: number };
+  mean_confidence: number;
+  low_confidence_rows: number;
+}
+
+export interface NCCQualityReport extends NCCQualitySummary {
+  generated_at: string;
+  source_files: string[];
+  volumes: string[];
+  unit_type_counts: { [unitType: string]: number };
+  samples: { [warning: string]: NCCQualitySample[] };
+}
+
+/**
+ * Whether a flag is about the extraction (notes_quality) rather than the NCC content
+ */
+function isQualityFlag(warning: string): warning is NCCQualityFlag {
+  return Object.prototype.hasOwnProperty.call(QUALITY_FLAGS, warning);
+}
+
+/**
+ * Structural rows (Volume, Section, Part) carry no text by design
+ */
+function isContentRow(row: QARow): boolean {
+  return row.indexable !== false;
+}
+
+/**
+ * Check every row, merging the flags into warnings/notes_quality and lowering extract_confidence
+ *
+ * @param rows - CSV rows; `warnings` may already hold a JSON array (content findings and
+ *   flags raised during extraction), which is kept
+ * @param anchorCounts - anchor_id use across the whole run, when rows are one section of it;
+ *   counted from rows otherwise
+ */
+export function applyQualityChecks(rows: QARow[], anchorCounts?: Map<string, number>): void {
+  if (!anchorCounts) {
+    anchorCounts = new Map<string, number>();
+    for (const row of rows) {
+      const anchorId = String(row.anchor_id || '');
+      if (anchorId) anchorCounts.set(anchorId, (anchorCounts.get(anchorId) || 0) + 1);
+    }
+  }
+  const counts = anchorCounts;
+
+  for (const row of rows) {
+    if (!isContentRow(row)) continue;
+    const warnings: string[] = row.warnings ? JSON.parse(String(row.warnings)) : [];
+    const add = (warning: string) => {
+      if (warnings.indexOf(warning) === -1) warnings.push(warning);
+    };
+
+    const text = String(row.text || '');
+    const unitLabel = String(row.unit_label || '');
+    const anchorId = String(row.anchor_id || '');
+    const isClause = !!unitLabel && !row.asset_type && !row.defined_term;
+
+    if (!text.trim()) add('MISSING_TEXT');
+    if (isClause && !String(row.title || '').trim()) add('MISSING_TITLE');
+    if ((row.asset_type === 'TABLE' || text.indexOf('[TABLE]') !== -1) && !row.table_grid_json) add('TABLE_BLOB_ONLY');
+    // Continuation parts start mid-clause
+    if (isClause && text.trim() && anchorId.indexOf('#') === -1 && !startsWithLabel(text, unitLabel)) add('SUSPICIOUS_CLAUSE_REF');
+    if (anchorId && (counts.get(anchorId) || 0) > 1) add('DUPLICATE_ANCHOR');
+    if (text.length > EXCEL_CELL_LIMIT) add('TRUNCATED_TEXT');
+
+    const qualityFlags = warnings.filter(isQualityFlag);
+    row.warnings = warnings.length > 0 ? JSON.stringify(warnings) : '';
+    row.notes_quality = qualityFlags.join('|');
+    if (typeof row.extract_confidence === 'number') {
+      const penalty = qualityFlags.reduce((sum, flag) => sum + QUALITY_FLAGS[flag].penalty, 0);
+      row.extract_confidence = Math.round(Math.max(0, row.extract_confidence - penalty) * 100) / 100;
+    }
+  }
+}
+
+/**
+ * Whether the text opens with the label ("D2D1 ...", "NSW D2D1(2) ...", "Part D2 ...", "Table D2D2 ...")
+ */
+function startsWithLabel(text: string, unitLabel: string): boolean {
+  const normalize = (value: string) => value.replace(/\s+/g, ' ').trim().toUpperCase();
+  const opening = normalize(text).replace(LABEL_HEADING_WORD, '');
+  return opening.indexOf(normalize(unitLabel)) === 0;
+}
+
+/**
+ * Counts from a set of checked rows (for response headers and job records)
+ */
+export function summarizeQuality(rows: QARow[]): NCCQualitySummary {
+  const builder = createQualityReportBuilder();
+  builder.add(rows);
+  return pickSummary(builder.build());
+}
+
+/**
+ * The summary part of a run report (for job records)
+ */
+export function pickSummary(report: NCCQualitySummary): NCCQualitySummary {
+  return {
+    row_count: report.row_count,
+    flagged_rows: report.flagged_rows,
+    warning_counts: report.warning_counts,
+    mean_confidence: report.mean_confidence,
+    low_confidence_rows: report.low_confidence_rows,
+  };
+}
+
+/**
+ * Totals of a summary for the X-NCC-QA-Summary response header
+ * Per-warning counts stay out of headers (servers cap them at 8-16 KB); they are
+ * in the rows' warnings column and the saved run report.
+ */
+export function qualityHeaderValue(summary: NCCQualitySummary): string {
+  return JSON.stringify({
+    row_count: summary.row_count,
+    flagged_rows: summary.flagged_rows,
+    mean_confidence: summary.mean_confidence,
+    low_confidence_rows: summary.low_confidence_rows,
+  });
+}
+
+/**
+ * Where a saved run report is, for the X-NCC-QA-Report response header
+ * dir is the report's directory relative to the app root, e.g. "output" or "output/ncc_batch_1767197662617"
+ */
+export function qualityReportHeaderValue(dir: string, files: { jsonFile: string; htmlFile: string }): string {
+  return JSON.stringify({ json: `${dir}/${files.jsonFile}`, html: `${dir}/${files.htmlFile}` });
+}
+
+/**
+ * Run report: the summary plus unit type counts and sample rows per warning
+ */
+export function buildQualityReport(rows: QARow[]): NCCQualityReport {
+  const builder = createQualityReportBuilder();
+  builder.add(rows);
+  return builder.build();
+}
+
+/**
+ * Run report built from batches of checked rows, for runs written one section at a time
+ */
+export function createQualityReportBuilder(): { add(rows: QARow[]): void; build(): NCCQualityReport } {
+  const report: NCCQualityReport = {
+    generated_at: '',
+    source_files: [],
+    volumes: [],
+    row_count: 0,
+    flagged_rows: 0,
+    warning_counts: {},
+    mean_confidence: 0,
+    low_confidence_rows: 0,
+    unit_type_counts: {},
+    samples: {},
+  };
+  let confidenceTotal = 0;
+  let confidenceCount = 0;
+
+  const add = (rows: QARow[]): void => {
+    for (const row of rows) {
+      const sourceFile = String(row.source_file || '');
+      const volume = String(row.volume || '');
+      if (sourceFile && report.source_files.indexOf(sourceFile) === -1) report.source_files.push(sourceFile);
+      if (volume && report.volumes.indexOf(volume) === -1) report.volumes.push(volume);
+      if (!isContentRow(row)) continue;
+
+      report.row_count++;
+      const unitType = String(row.unit_type || '');
+      report.unit_type_counts[unitType] = (report.unit_type_counts[unitType] || 0) + 1;
+
+      const warnings: string[] = row.warnings ? JSON.parse(String(row.warnings)) : [];
+      if (warnings.length > 0) report.flagged_rows++;
+      warnings.forEach(warning => {
+        report.warning_counts[warning] = (report.warning_counts[warning] || 0) + 1;
+        const samples = report.samples[warning] || (report.samples[warning] = []);
+        if (samples.length >= SAMPLES_PER_WARNING) return;
+        samples.push({
+          anchor_id: String(row.anchor_id || ''),
+          unit_label: String(row.unit_label || ''),
+          unit_type: unitType,
+          page_start: String(row.page_start || ''),
+          excerpt: String(row.text || '').replace(/\s+/g, ' ').trim().substring(0, 160),
+        });
+      });
+      if (typeof row.extract_confidence === 'number') {
+        confidenceTotal += row.extract_confidence;
+        confidenceCount++;
+        if (row.extract_confidence < LOW_CONFIDENCE) report.low_confidence_rows++;
+      }
+    }
+  };
+
+  const build = (): NCCQualityReport => ({
+    ...report,
+    generated_at: new Date().toISOString(),
+    mean_confidence: confidenceCount > 0 ? Math.round((confidenceTotal / confidenceCount) * 100) / 100 : 0,
+  });
+
+  return { add, build };
+}
+
+/**
+ * Standalone HTML page for a run report
+ */
+export function renderQualityReportHtml(report: NCCQualityReport): string {
+  const escape = (value: string | number) => String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+  const describe = (warning: string) => (isQualityFlag(warning) ? QUALITY_FLAGS[warning].description : 'Content finding');
+
+  const warningRows = Object.keys(report.warning_counts)
+    .sort((a, b) => report.warning_counts[b] - report.warning_counts[a])
+    .map(warning => `<tr><td><code>${escape(warning)}</code></td><td>${escape(describe(warning))}</td><td>${report.warning_counts[warning]}</td></tr>`)
+    .join('\n');
+  const unitTypeRows = Object.keys(report.unit_type_counts)
+    .sort()
+    .map(unitType => `<tr><td>${escape(unitType)}</td><td>${report.unit_type_counts[unitType]}</td></tr>`)
+    .join('\n');
+  const sampleSections = Object.keys(report.samples)
+    .map(warning => `<h3><code>${escape(warning)}</code></h3>
+<table>
+<tr><th>anchor_id</th><th>unit_label</th><th>unit_type</th><th>page</th><th>text</th></tr>
+${report.samples[warning].map(sample => `<tr><td>${escape(sample.anchor_id)}</td><td>${escape(sample.unit_label)}</td><td>${escape(sample.unit_type)}</td><td>${escape(sample.page_start)}</td><td>${escape(sample.excerpt)}</td></tr>`).join('\n')}
+</table>`)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>NCC extraction QA report</title>
+<style>
+body { font-family: sans-serif; margin: 2em; }
+table { border-collapse: collapse; margin-bottom: 1.5em; }
+th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; vertical-align: top; }
+</style>
+</head>
+<body>
+<h1>NCC extraction QA report</h1>
+<p>${escape(report.source_files.join(', '))} (${escape(report.volumes.join(', '))}), generated ${escape(report.generated_at)}</p>
+<table>
+<tr><th>Rows</th><td>${report.row_count}</td></tr>
+<tr><th>Flagged rows</th><td>${report.flagged_rows}</td></tr>
+<tr><th>Mean confidence</th><td>${report.mean_confidence}</td></tr>
+<tr><th>Rows below ${LOW_CONFIDENCE} confidence</th><td>${report.low_confidence_rows}</td></tr>
+</table>
+<h2>Warnings</h2>
+<table>
+<tr><th>Warning</th><th>Meaning</th><th>Rows</th></tr>
+${warningRows}
+</table>
+<h2>Unit types</h2>
+<table>
+<tr><th>unit_type</th><th>Rows</th></tr>
+${unitTypeRows}
+</table>
+<h2>Samples</h2>
+${sampleSections}
+</body>
+</html>
+`;
+}
+
+/**
+ * Write a report as <baseName>.json and <baseName>.html, returning the file names
+ */
+export function writeQualityReport(report: NCCQualityReport, dir: string, baseName: string): { jsonFile: string; htmlFile: string } {
+  const jsonFile = `${baseName}.json`;
+  const htmlFile = `${baseName}.html`;
+  fs.writeFileSync(path.join(dir, jsonFile), JSON.stringify(report, null, 2));
+  fs.writeFileSync(path.join(dir, htmlFile), renderQualityReportHtml(report));
+  return { jsonFile, htmlFile };
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { buildRagChunks, buildRagText, chunkRagText, estimateTokens, parseRagChunkOptions } from '@/lib/ncc-rag';
+import { sampleNCCRows } from '@/lib/__fixtures__/ncc-rows';
+
+const source = (text: string, title = 'Widths') => ({
+  unit_type: 'DTS_PROVISION',
+  unit_label: 'D2D2',
+  path: 'Vol1 > Section D > Part D2 > D2D2',
+  title,
+  text,
+  notes: '',
+  exceptions_text: '',
+});
+
+describe('buildRagText', () => {
+  it('puts the header before the body and leaves empty lines out', () => {
+    expect(buildRagText(source('Exits must be 1 m wide.'))).toBe(
+      '[DTS_PROVISION] D2D2\npath: Vol1 > Section D > Part D2 > D2D2\ntitle: Widths\ntext: Exits must be 1 m wide.'
+    );
+  });
+
+  it('does not repeat a text that is only the title', () => {
+    expect(buildRagText(source('Part D2 Provision for escape', 'Part D2 Provision for escape'))).toBe(
+      '[DTS_PROVISION] D2D2\npath: Vol1 > Section D > Part D2 > D2D2\ntitle: Part D2 Provision for escape'
+    );
+  });
+});
+
+describe('chunkRagText', () => {
+  const longText = Array.from({ length: 60 }, (_, i) => `Sentence ${i + 1} sets a requirement for exits.`).join(' ');
+
+  it('keeps a unit that fits the budget as one chunk', () => {
+    expect(chunkRagText(source('Exits must be 1 m wide.'))).toEqual([buildRagText(source('Exits must be 1 m wide.'))]);
+  });
+
+  it('splits long units under the budget, repeating the header and overlapping sentences', () => {
+    const chunks = chunkRagText(source(longText), { maxTokens: 100, overlapTokens: 20 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => {
+      expect(chunk.indexOf('[DTS_PROVISION] D2D2\npath: Vol1 > Section D > Part D2 > D2D2\ntitle: Widths\n')).toBe(0);
+      expect(estimateTokens(chunk)).toBeLessThanOrEqual(100);
+    });
+    const lastOfFirst = chunks[0].match(/Sentence (\d+)[^S]*$/)![1];
+    expect(chunks[1]).toContain(`Sentence ${lastOfFirst} `);
+  });
+});
+
+describe('buildRagChunks', () => {
+  it('chunks content rows only and keeps their anchors', () => {
+    const rows = sampleNCCRows();
+    const chunks = buildRagChunks(rows);
+    const contentRows = rows.filter(row => row.indexable);
+
+    expect(chunks.map(chunk => chunk.anchor_id)).toEqual(contentRows.map(row => row.anchor_id));
+    expect(chunks[0].chunk_id).toBe(`${chunks[0].row}:1`);
+    expect(chunks[0].parent_anchor_id).toBe(rows[chunks[0].row - 1].parent_anchor_id);
+    expect(chunks[0].rag_text).toBe(rows[chunks[0].row - 1].rag_text);
+  });
+});
+
+describe('parseRagChunkOptions', () => {
+  it('defaults and validates the token budget and overlap', () => {
+    expect(parseRagChunkOptions({})).toEqual({ maxTokens: 512, overlapTokens: 64 });
+    expect(parseRagChunkOptions({ tokens: '128' })).toEqual({ maxTokens: 128, overlapTokens: 32 });
+    expect(parseRagChunkOptions({ tokens: '32' })).toBeNull();
+    expect(parseRagChunkOptions({ tokens: '128', overlap: '64' })).toBeNull();
+    expect(parseRagChunkOptions({ tokens: '12.5' })).toBeNull();
+  });
+});
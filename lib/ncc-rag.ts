@@ -0,0 +1,240 @@
+/**
+ * RAG Text and Chunking
+ *
+ * Builds the rag_text of each NCC row, the text an embedding step indexes:
+ *   [UNIT_TYPE] LABEL
+ *   path: Vol1 > Section D > Part D2
+ *   title: ...
+ *   text: ...
+ *   notes: ...
+ *   exceptions: ...
+ * (lines with nothing to say are left out, as is a text that only repeats the title)
+ *
+ * Long units are split into overlapping chunks under a token budget. Every
+ * chunk repeats the header (type, label, path, title) so it stands on its own,
+ * and keeps the row's anchor_id and parent_anchor_id. Chunks break at line
+ * ends, then sentence ends, then spaces; the next chunk starts with the last
+ * sentences of the previous one, up to the overlap budget.
+ *
+ * Tokens are estimated (no tokenizer dependency): the larger of the word and
+ * punctuation count and a quarter of the characters, which errs high for
+ * English text, so chunks stay under the budget of common embedding models.
+ */
+
+import { assertNCCRows, NCCRow } from '@/lib/ncc-schema';
+import { NCCProgressCallback } from '@/lib/ncc-pipeline';
+
+export interface NCCRagChunkOptions {
+  maxTokens: number;     // Token budget per chunk, header included
+  overlapTokens: number; // Tokens repeated from the end of the previous chunk
+}
+
+export const DEFAULT_RAG_CHUNK_OPTIONS: NCCRagChunkOptions = { maxTokens: 512, overlapTokens: 64 };
+
+// Smallest budget accepted from a request
+const MIN_CHUNK_TOKENS = 64;
+
+export interface NCCRagChunk {
+  chunk_id: string;          // "<row>:<chunk_index>", unique within the export
+  row: number;               // 1-based row of the dataset the chunk comes from
+  chunk_index: number;       // 1-based
+  chunk_count: number;
+  anchor_id: string;
+  parent_anchor_id: string;
+  doc_id: string;
+  volume: string;
+  unit_label: string;
+  unit_type: string;
+  token_count: number;
+  rag_text: string;
+}
+
+type RagSource = Pick<NCCRow, 'unit_type' | 'unit_label' | 'path' | 'title' | 'text' | 'notes' | 'exceptions_text'>;
+
+/**
+ * Estimated token count of a text
+ */
+export function estimateTokens(text: string): number {
+  const pieces = text.match(/[A-Za-z]+|\d+|[^\sA-Za-z\d]/g);
+  return Math.max(pieces ? pieces.length : 0, Math.ceil(text.length / 4));
+}
+
+function ragHeader(row: RagSource): string {
+  const lines = [row.unit_label ? `[${row.unit_type}] ${row.unit_label}` : `[${row.unit_type}]`];
+  if (row.path) lines.push(`path: ${row.path}`);
+  // Structural rows use the label as title; don't repeat it
+  if (row.title && row.title !== row.unit_label) lines.push(`title: ${row.title}`);
+  return lines.join('\n');
+}
+
+function ragBody(row: RagSource): string {
+  const lines: string[] = [];
+  // Headings whose text is their title already have it in the header
+  if (row.text && row.text.trim() !== row.title.trim()) lines.push(`text: ${row.text}`);
+  if (row.notes) lines.push(`notes: ${row.notes}`);
+  if (row.exceptions_text) lines.push(`exceptions: ${row.exceptions_text}`);
+  return lines.join('\n');
+}
+
+/**
+ * rag_text of a row: header and the whole body
+ */
+export function buildRagText(row: RagSource): string {
+  const body = ragBody(row);
+  return body ? `${ragHeader(row)}\n${body}` : ragHeader(row);
+}
+
+/**
+ * Split positions (just after a line end, sentence end or space) within [start, end)
+ */
+function boundaries(text: string, start: number, end: number, boundary: RegExp): number[] {
+  const positions: number[] = [];
+  const regex = new RegExp(boundary.source, 'g');
+  regex.lastIndex = start;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text)) !== null && match.index < end) {
+    const position = match.index + match[0].length;
+    if (position < end) positions.push(position);
+    if (match[0].length === 0) regex.lastIndex++;
+  }
+  return positions;
+}
+
+/**
+ * Cut text into [start, end) segments that each fit the budget: lines, then sentences,
+ * then words; a single word over the budget is cut by length
+ */
+function segmentText(text: string, budget: number): Array<[number, number]> {
+  const segments: Array<[number, number]> = [];
+  const levels = [/\n+/, /[.;!?]\s+/, /\s+/];
+
+  const split = (start: number, end: number, level: number): void => {
+    if (estimateTokens(text.substring(start, end)) <= budget) {
+      segments.push([start, end]);
+      return;
+    }
+    if (level >= levels.length) {
+      const size = Math.max(1, budget * 4);
+      for (let position = start; position < end; position += size) {
+        segments.push([position, Math.min(end, position + size)]);
+      }
+      return;
+    }
+    const cuts = [start].concat(boundaries(text, start, end, levels[level]), [end]);
+    for (let i = 0; i < cuts.length - 1; i++) {
+      if (cuts[i + 1] > cuts[i]) split(cuts[i], cuts[i + 1], level + 1);
+    }
+  };
+
+  split(0, text.length, 0);
+  return segments;
+}
+
+/**
+ * Chunk texts for one row: the header followed by overlapping windows of the body
+ */
+export function chunkRagText(row: RagSource, options: NCCRagChunkOptions = DEFAULT_RAG_CHUNK_OPTIONS): string[] {
+  const header = ragHeader(row);
+  const body = ragBody(row);
+  const full = body ? `${header}\n${body}` : header;
+  if (!body || estimateTokens(full) <= options.maxTokens) return [full];
+
+  // A header longer than the budget still leaves a quarter of it for the body
+  const budget = Math.max(options.maxTokens - estimateTokens(header) - 1, Math.floor(options.maxTokens / 4));
+  const segments = segmentText(body, budget);
+  const tokens = segments.map(([start, end]) => estimateTokens(body.substring(start, end)));
+
+  const chunks: string[] = [];
+  let first = 0;
+  while (first < segments.length) {
+    let last = first;
+    let used = tokens[first];
+    while (last + 1 < segments.length && used + tokens[last + 1] <= budget) {
+      last++;
+      used += tokens[last];
+    }
+    chunks.push(`${header}\n${body.substring(segments[first][0], segments[last][1]).trim()}`);
+    if (last === segments.length - 1) break;
+
+    // Step back over whole segments that fit the overlap, but always move forward
+    let next = last + 1;
+    let overlap = 0;
+    while (next - 1 > first && overlap + tokens[next - 1] <= options.overlapTokens) {
+      next--;
+      overlap += tokens[next];
+    }
+    first = next;
+  }
+  return chunks;
+}
+
+/**
+ * Chunks of all content rows (structural rows are not indexable and have none)
+ * The rows are validated against lib/ncc-schema first.
+ */
+export function buildRagChunks(
+  rows: NCCRow[],
+  options: NCCRagChunkOptions = DEFAULT_RAG_CHUNK_OPTIONS,
+  onProgress?: NCCProgressCallback
+): NCCRagChunk[] {
+  assertNCCRows(rows);
+  const chunks: NCCRagChunk[] = [];
+
+  rows.forEach((row, index) => {
+    if (!row.indexable) return;
+    const texts = chunkRagText(row, options);
+    texts.forEach((ragText, chunkIndex) => {
+      chunks.push({
+        chunk_id: `${index + 1}:${chunkIndex + 1}`,
+        row: index + 1,
+        chunk_index: chunkIndex + 1,
+        chunk_count: texts.length,
+        anchor_id: row.anchor_id,
+        parent_anchor_id: row.parent_anchor_id,
+        doc_id: row.doc_id,
+        volume: row.volume,
+        unit_label: row.unit_label,
+        unit_type: row.unit_type,
+        token_count: estimateTokens(ragText),
+        rag_text: ragText,
+      });
+    });
+    if (onProgress && (index + 1) % 500 === 0) onProgress({ phase: 'csv_write', completed: index + 1, total: rows.length });
+  });
+
+  if (onProgress) onProgress({ phase: 'csv_write', completed: rows.length, total: rows.length });
+  return chunks;
+}
+
+/**
+ * Write chunks as JSONL, one chunk per line
+ */
+export async function writeRagChunks(chunks: NCCRagChunk[], out: NodeJS.WritableStream): Promise<void> {
+  const write = async (text: string): Promise<void> => {
+    if (!out.write(text)) {
+      await new Promise<void>(resolve => out.once('drain', () => resolve()));
+    }
+  };
+
+  let pending = '';
+  for (const chunk of chunks) {
+    pending += JSON.stringify(chunk) + '\n';
+    if (pending.length >= 65536) {
+      await write(pending);
+      pending = '';
+    }
+  }
+  if (pending) await write(pending);
+}
+
+/**
+ * Chunk options from request fields: chunk_tokens and chunk_overlap (both optional)
+ * Returns null if either is not a number in range.
+ */
+export function parseRagChunkOptions(fields: { tokens?: string; overlap?: string }): NCCRagChunkOptions | null {
+  const maxTokens = fields.tokens ? Number(fields.tokens) : DEFAULT_RAG_CHUNK_OPTIONS.maxTokens;
+  const overlapTokens = fields.overlap ? Number(fields.overlap) : Math.min(DEFAULT_RAG_CHUNK_OPTIONS.overlapTokens, Math.floor(maxTokens / 4));
+  if (!isFinite(maxTokens) || Math.floor(maxTokens) !== maxTokens || maxTokens < MIN_CHUNK_TOKENS) return null;
+  if (!isFinite(overlapTokens) || Math.floor(overlapTokens) !== overlapTokens || overlapTokens < 0 || overlapTokens >= maxTokens / 2) return null;
+  return { maxTokens, overlapTokens };
+}
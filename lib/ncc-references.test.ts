@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import {
+  extractExternalRefs,
+  extractInternalRefs,
+  extractVolumeQualifiedRefs,
+  internalRefLabels,
+  resolveInternalRefs,
+} from '@/lib/ncc-references';
+
+describe('extractInternalRefs', () => {
+  it('finds clauses, tables, figures, parts and specifications', () => {
+    const refs = extractInternalRefs('Comply with D2D1(2), Table S1C2a, Figure D3D14a, Part J7 and Specification 5.');
+    expect(refs.map(ref => `${ref.kind}:${ref.label}`)).toEqual([
+      'TABLE:S1C2A',
+      'FIGURE:D3D14A',
+      'SPECIFICATION:S5',
+      'PART:J7',
+      'CLAUSE:D2D1',
+    ]);
+  });
+
+  it('leaves out the clause being scanned', () => {
+    expect(extractInternalRefs('D2D2 must comply with D2D1', 'D2D2').map(ref => ref.label)).toEqual(['D2D1']);
+    expect(extractInternalRefs('D2D2 must comply with Table D2D2', 'D2D2').map(ref => ref.kind)).toEqual(['TABLE']);
+    expect(extractInternalRefs('Table D2D2 Minimum widths for D2D2', 'Table D2D2').map(ref => ref.kind)).toEqual(['CLAUSE']);
+  });
+});
+
+describe('internalRefLabels', () => {
+  it('lists each label once when it is referenced under two kinds', () => {
+    const refs = extractInternalRefs('Widths in Table D2D2 apply; see D2P1 and D2D2.');
+    expect(refs).toHaveLength(3);
+    expect(internalRefLabels(refs)).toEqual(['D2D2', 'D2P1']);
+  });
+});
+
+describe('resolveInternalRefs', () => {
+  it('keeps references that resolve, each anchor once', () => {
+    const anchors = new Map([['D2D1', 'VOL1::D2D1'], ['J7', 'VOL1::PART_J7']]);
+    const refs = extractInternalRefs('See D2D1, Part J7, D9D9 and D2D1(3).');
+    expect(resolveInternalRefs(refs, anchors)).toEqual(['VOL1::PART_J7', 'VOL1::D2D1']);
+  });
+
+  it('resolves tables and figures to their assets, not the clause of the same label', () => {
+    const anchors = new Map([
+      ['D2D2', 'VOL1::D2D2'],
+      ['TABLE::D2D2', 'VOL1::TABLE::D2D2'],
+      ['FIGURE::D2D14A', 'VOL1::FIGURE::D2D14A'],
+    ]);
+    const refs = extractInternalRefs('Widths in Table D2D2 apply; see Figure D2D14a and Table D2D9.');
+    expect(resolveInternalRefs(refs, anchors)).toEqual(['VOL1::TABLE::D2D2', 'VOL1::FIGURE::D2D14A']);
+  });
+});
+
+describe('extractExternalRefs', () => {
+  it('normalises standards and ABCB documents', () => {
+    const refs = extractExternalRefs('Tested to AS 1530.4, AS/NZS 3500.1:2021, AS 1288-2006 and the ABCB Housing Provisions.');
+    expect(refs.map(ref => ref.normalized)).toEqual(['AS 1530.4', 'AS/NZS 3500.1:2021', 'AS 1288:2006', 'ABCB Housing Provisions']);
+    expect(refs[1]).toMatchObject({ designation: 'AS/NZS 3500', part: '1', year: '2021' });
+  });
+});
+
+describe('extractVolumeQualifiedRefs', () => {
+  it('reads the volume a reference points into', () => {
+    expect(extractVolumeQualifiedRefs('as required by D2D1 of Volume One and Part H1 of NCC Volume Two')).toEqual([
+      { label: 'D2D1', volume: 'Vol1', raw: 'D2D1 of Volume One' },
+      { label: 'H1', volume: 'Vol2', raw: 'Part H1 of NCC Volume Two' },
+    ]);
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Cross-Reference Extraction for NCC Clause Text
+ *
+ * Finds three kinds of references in clause text:
+ * - Internal: NCC labels ("D2D1", "Table S1C2a", "Part J7", "Specification 5")
+ *   which are resolved to anchor_ids of rows in the same run
+ * - External: referenced documents ("AS 1530.4", "AS/NZS 3500.1:2021",
+ *   "ABCB Housing Provisions") normalised to designation / part / year
+ * - Volume-qualified: NCC labels pointing into another volume
+ *   ("D2D1 of Volume One"), resolved across volumes in batch runs
+ *
+ * Deterministic, regex-based - no AI/LLM.
+ */
+
+import { normalizeVolumeLabel } from '@/lib/ncc-volumes';
+
+export type InternalRefKind = 'CLAUSE' | 'TABLE' | 'FIGURE' | 'PART' | 'SPECIFICATION';
+
+export interface InternalRef {
+  kind: InternalRefKind;
+  label: string; // Canonical label used for anchor lookup, e.g. "D2D1", "S1C2A", "J7", "S5"
+  raw: string;   // Text as it appeared, e.g. "Table S1C2a"
+}
+
+export interface VolumeQualifiedRef {
+  label: string;  // Canonical label, e.g. "D2D1", "H1"
+  volume: string; // Volume label from lib/ncc-volumes, e.g. "Vol1"
+  raw: string;
+}
+
+export interface ExternalRef {
+  designation: string; // e.g. "AS/NZS 3500", "ABCB Housing Provisions"
+  part: string;        // e.g. "1" for AS/NZS 3500.1, '' if none
+  year: string;        // e.g. "2021", '' if undated
+  normalized: string;  // e.g. "AS/NZS 3500.1:2021"
+  raw: string;
+}
+
+/**
+ * Internal reference patterns, most specific first
+ * Each match is consumed so "Table S1C2a" is not reported again as a bare clause
+ */
+const INTERNAL_REF_PATTERNS: Array<{ kind: InternalRefKind; regex: RegExp; toLabel: (m: RegExpExecArray) => string }> = [
+  {
+    kind: 'TABLE',
+    regex: /\bTables?\s+([A-Z]\d+[A-Z]\d+[a-z]?)\b/g,
+    toLabel: m => m[1].toUpperCase(),
+  },
+  {
+    kind: 'FIGURE',
+    regex: /\bFigures?\s+([A-Z]\d+[A-Z]\d+[a-z]?)\b/g,
+    toLabel: m => m[1].toUpperCase(),
+  },
+  {
+    kind: 'SPECIFICATION',
+    regex: /\bSpecification\s+(\d+)\b/g,
+    toLabel: m => `S${m[1]}`,
+  },
+  {
+    kind: 'PART',
+    regex: /\bPart\s+([A-Z]\d+)\b/g,
+    toLabel: m => m[1],
+  },
+  {
+    kind: 'CLAUSE',
+    regex: /\b([A-Z]\d+[A-Z]\d+[a-z]?)(?:\([0-9a-z]+\))*/g,
+    toLabel: m => m[1].toUpperCase(),
+  },
+];
+
+/**
+ * "<label> of/in [NCC [2022]] Volume One|Two|Three|1|2|3" and "Part <code> of Volume Two"
+ */
+const VOLUME_QUALIFIED_PATTERN = /\b(?:Part\s+)?([A-Z]\d+(?:[A-Z]\d+[a-z]?)?)(?:\([0-9a-z]+\))*\s+(?:of|in)\s+(?:the\s+)?(?:NCC\s+(?:2022\s+)?)?(Volume\s+(?:One|Two|Three|[123]))\b/g;
+
+/**
+ * Standards designations: AS, NZS, AS/NZS, ISO, IEC, EN and their combinations
+ * Captures number, optional dotted part, optional year (":2021" or "-2014")
+ * Examples: "AS 1530.4", "AS/NZS 3500.1:2021", "AS ISO 717.1", "AS 1288-2006"
+ */
+const STANDARD_PATTERN = /\b((?:AS\/NZS|AS|NZS)(?:\s+(?:ISO|IEC|EN)(?:\/IEC)?)?|ISO(?:\/IEC)?|EN)\s+(\d{2,5})((?:\.\d+)*)(?:\s*(?::|-|–)\s*(\d{4}))?\b/g;
+
+/**
+ * ABCB-published documents referenced from the NCC
+ */
+const ABCB_PATTERN = /\bABCB\s+(Housing Provisions(?: Standard)?|Livable Housing Design Standard|(?:Standard|Protocol|Handbook) for (?:[A-Za-z-]+\s?){1,8}?(?=[.,;:()]|\s+(?:and|or|in|to|is|must)\b|$))/g;
+
+/**
+ * Extract internal NCC references from clause text
+ *
+ * @param text - Clause text
+ * @param ownLabel - Label of the unit being scanned ("D2D2", "Table D2D2", "Figure D3D14a"); excluded from the results
+ */
+export function extractInternalRefs(text: string, ownLabel = ''): InternalRef[] {
+  const refs: InternalRef[] = [];
+  const seen = new Set<string>();
+  const ownAsset = ownLabel.match(/^(table|figure)\s+(.+)$/i);
+  const ownKey = ownAsset
+    ? internalRefKey({ kind: ownAsset[1].toUpperCase() as InternalRefKind, label: ownAsset[2].toUpperCase() })
+    : ownLabel.toUpperCase();
+
+  // Blank out consumed spans so less specific patterns don't re-match them
+  let remaining = text;
+
+  for (const pattern of INTERNAL_REF_PATTERNS) {
+    const regex = new RegExp(pattern.regex.source, pattern.regex.flags);
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(remaining)) !== null) {
+      const label = pattern.toLabel(match);
+      const key = `${pattern.kind}:${label}`;
+      if (internalRefKey({ kind: pattern.kind, label }) !== ownKey && !seen.has(key)) {
+        seen.add(key);
+        refs.push({ kind: pattern.kind, label, raw: match[0] });
+      }
+    }
+    remaining = remaining.replace(regex, m => ' '.repeat(m.length));
+  }
+
+  return refs;
+}
+
+/**
+ * Labels of internal references for the internal_refs column, each once
+ * A label can come back under two kinds ("Table D2D2" and "D2D2"); the column only holds labels.
+ */
+export function internalRefLabels(refs: InternalRef[]): string[] {
+  const labels: string[] = [];
+  refs.forEach(ref => {
+    if (labels.indexOf(ref.label) === -1) labels.push(ref.label);
+  });
+  return labels;
+}
+
+/**
+ * Anchor lookup key of a reference: tables and figures are keyed by kind ("TABLE::D2D2",
+ * "FIGURE::D3D14A") so "Table D2D2" reaches the table asset rather than clause D2D2
+ */
+export function internalRefKey(ref: Pick<InternalRef, 'kind' | 'label'>): string {
+  return ref.kind === 'TABLE' || ref.kind === 'FIGURE' ? `${ref.kind}::${ref.label}` : ref.label;
+}
+
+/**
+ * Resolve internal references to anchor_ids from the same run
+ * Unresolved references are dropped (they point outside the processed volume)
+ *
+ * @param refs - References from extractInternalRefs
+ * @param anchorsByLabel - internalRefKey -> anchor_id (clause labels, part codes, table and figure keys)
+ */
+export function resolveInternalRefs(refs: InternalRef[], anchorsByLabel: Map<string, string>): string[] {
+  const anchors: string[] = [];
+  for (const ref of refs) {
+    const anchorId = anchorsByLabel.get(internalRefKey(ref));
+    if (anchorId && anchors.indexOf(anchorId) === -1) {
+      anchors.push(anchorId);
+    }
+  }
+  return anchors;
+}
+
+/**
+ * Extract external document references (Australian Standards, ISO, ABCB documents)
+ */
+export function extractExternalRefs(text: string): ExternalRef[] {
+  const refs: ExternalRef[] = [];
+  const seen = new Set<string>();
+
+  const standardRegex = new RegExp(STANDARD_PATTERN.source, STANDARD_PATTERN.flags);
+  let match: RegExpExecArray | null;
+  while ((match = standardRegex.exec(text)) !== null) {
+    const body = match[1].replace(/\s+/g, ' ');
+    const number = match[2];
+    const part = match[3] ? match[3].substring(1) : '';
+    const year = match[4] || '';
+
+    const designation = `${body} ${number}`;
+    const normalized = designation + (part ? `.${part}` : '') + (year ? `:${year}` : '');
+    if (!seen.has(normalized)) {
+      seen.add(normalized);
+      refs.push({ designation, part, year, normalized, raw: match[0] });
+    }
+  }
+
+  const abcbRegex = new RegExp(ABCB_PATTERN.source, ABCB_PATTERN.flags);
+  while ((match = abcbRegex.exec(text)) !== null) {
+    const designation = `ABCB ${match[1].trim().replace(/\s+/g, ' ')}`;
+    if (!seen.has(designation)) {
+      seen.add(designation);
+      refs.push({ designation, part: '', year: '', normalized: designation, raw: match[0] });
+    }
+  }
+
+  return refs;
+}
+
+/**
+ * Extract references that name the volume they point into ("D2D1 of Volume One")
+ */
+export function extractVolumeQualifiedRefs(text: string): VolumeQualifiedRef[] {
+  const refs: VolumeQualifiedRef[] = [];
+  const seen = new Set<string>();
+
+  const regex = new RegExp(VOLUME_QUALIFIED_PATTERN.source, VOLUME_QUALIFIED_PATTERN.flags);
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text)) !== null) {
+    const label = match[1].toUpperCase();
+    const volume = normalizeVolumeLabel(match[2]);
+    if (!volume) continue;
+    const key = `${volume}:${label}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      refs.push({ label, volume, raw: match[0] });
+    }
+  }
+
+  return refs;
+}
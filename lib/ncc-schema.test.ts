@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { assertNCCRows, NCC_COLUMN_NAMES, validateNCCRows } from '@/lib/ncc-schema';
+import { sampleNCCRows } from '@/lib/__fixtures__/ncc-rows';
+
+describe('validateNCCRows', () => {
+  it('accepts converted rows', () => {
+    const rows = sampleNCCRows();
+    expect(validateNCCRows(rows)).toEqual([]);
+    expect(Object.keys(rows[0])).toEqual(NCC_COLUMN_NAMES);
+  });
+
+  it('reports missing, extra, mistyped and disallowed values', () => {
+    const [row] = sampleNCCRows();
+    const broken: { [key: string]: unknown } = { ...row, extra: 'x', para_start: '3', unit_type: 'CHAPTER', warnings: '[oops' };
+    delete broken.title;
+
+    const issues = validateNCCRows([broken as typeof row]).map(issue => `${issue.column}: ${issue.message}`);
+    expect(issues.sort()).toEqual([
+      'extra: column not in schema',
+      'para_start: expected number, got string',
+      'title: missing',
+      'unit_type: "CHAPTER" is not one of the allowed values',
+      'warnings: invalid JSON',
+    ]);
+  });
+
+  it('requires rag_text on every row', () => {
+    const rows = sampleNCCRows();
+    rows[0].rag_text = '';
+    expect(validateNCCRows(rows)).toEqual([{ row: 0, column: 'rag_text', message: 'required value is empty' }]);
+  });
+});
+
+describe('assertNCCRows', () => {
+  it('throws with the first issues', () => {
+    const rows = sampleNCCRows();
+    rows[1].unit_type = 'CHAPTER';
+    expect(() => assertNCCRows(rows)).toThrow(/schema 1\.\d+\.\d+ \(1 issue\(s\)\): row 1 unit_type/);
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * NCC Row Schema
+ *
+ * The column contract for every NCC dataset export (CSV, JSONL, Arrow, the batch
+ * dataset and manifest): column order, value types, enumerations and which
+ * columns must be filled. Exports are validated against it before they are
+ * written, so a change to the row shape fails loudly here instead of quietly
+ * shifting columns for downstream loaders.
+ *
+ * NCC_SCHEMA_VERSION is stamped into the batch manifest, job records and the
+ * X-NCC-Schema-Version response header. Bump the major version when a column
+ * is removed, renamed, retyped or moved, the minor version when a column is
+ * added or an enumeration grows.
+ */
+
+import { NCC_UNIT_TYPES } from '@/lib/ncc-unit-classifier';
+import { NCC_STATES, VARIATION_ACTIONS } from '@/lib/ncc-state-variations';
+
+export const NCC_SCHEMA_VERSION = '1.1.0';
+
+export type NCCColumnType = 'string' | 'number' | 'boolean' | 'json';
+
+export interface NCCColumn {
+  type: NCCColumnType;
+  // 'all': never empty; 'content': never empty on content rows (structural Volume/Section/Part rows may be)
+  required?: 'all' | 'content';
+  values?: readonly string[]; // Allowed values besides ''
+}
+
+/**
+ * One row of the NCC dataset (column groups as in NCC_CSV_STRUCTURE_SPECIFICATION.md)
+ */
+export type NCCRow = {
+  // Identity fields
+  doc_id: string;
+  volume: string;
+  state_variation: string;
+  version_date: string;
+  edition_label: string;
+  source_file: string;
+  // Navigation & hierarchy
+  path: string;
+  anchor_id: string;
+  parent_anchor_id: string;
+  order_in_parent: number;
+  para_start: number;
+  para_end: number;
+  // NCC semantics
+  unit_label: string;
+  unit_type: string;
+  compliance_weight: string;
+  // Text payload
+  title: string;
+  text: string;
+  text_html: string;
+  rag_text: string;
+  notes: string;
+  defined_term: string;
+  defined_terms_used: string;
+  contains_shall: boolean;
+  contains_must: boolean;
+  // References & links
+  external_refs: string;
+  internal_refs: string;
+  satisfies_pr_ids: string;
+  related_unit_ids: string;
+  // Figures & tables
+  asset_type: '' | 'TABLE' | 'IMAGE';
+  asset_id: string;
+  asset_caption: string;
+  asset_alt_text: string;
+  asset_file: string;
+  table_lte: string;
+  // Traceability & QA
+  page_start: string;
+  page_end: string;
+  bbox_json: string;
+  extract_confidence: number | '';
+  warnings: string;
+  // NCC pathway & status
+  ncc_pathway: string;
+  normative_status: string;
+  conditionality: string;
+  // Context & raw data
+  heading_context: string;
+  raw_title: string;
+  raw_text: string;
+  // State variations
+  applies_state: string;
+  variation_action: string;
+  affected_unit_label: string;
+  affected_subparts: string;
+  affects_anchor_id: string;
+  // Table & structure data
+  table_grid_json: string;
+  table_key_values: string;
+  // State variation details
+  base_unit_label: string;
+  affected_subclause: string;
+  // Extracted phrases
+  conditions_text: string;
+  exceptions_text: string;
+  requirements_list: string;
+  standards_referenced: string;
+  // Quality flags
+  notes_quality: string;
+  // Decision-oriented fields
+  discipline: string;
+  table_purpose: string;
+  table_id: string;
+  table_label: string;
+  applies_to_volume: string;
+  applies_to_class: string;
+  // Advanced decision fields
+  volume_hierarchy: string;
+  dataset_coverage: string;
+  scope_conditions: string;
+  formula_json: string;
+  constant_value: string;
+  constant_name: string;
+  pathway_alternative_to: string;
+  verification_method_for: string;
+  // Identity validation
+  section_code: string;
+  part_code: string;
+  indexable: boolean;
+};
+
+export type NCCColumnName = keyof NCCRow;
+
+/**
+ * Column definitions; key order is the column order of every export
+ */
+export const NCC_COLUMNS: { [C in NCCColumnName]: NCCColumn } = {
+  doc_id: { type: 'string', required: 'all' },
+  volume: { type: 'string', required: 'all' },
+  state_variation: { type: 'string', values: NCC_STATES },
+  version_date: { type: 'string' },
+  edition_label: { type: 'string' },
+  source_file: { type: 'string', required: 'all' },
+  path: { type: 'string', required: 'all' },
+  anchor_id: { type: 'string' },
+  parent_anchor_id: { type: 'string' },
+  order_in_parent: { type: 'number', required: 'all' },
+  para_start: { type: 'number', required: 'all' },
+  para_end: { type: 'number', required: 'all' },
+  unit_label: { type: 'string' },
+  unit_type: { type: 'string', required: 'all', values: NCC_UNIT_TYPES },
+  compliance_weight: { type: 'string', values: ['MANDATORY', 'OPTIONAL_PATHWAY', 'NON_MANDATORY'] },
+  title: { type: 'string' },
+  text: { type: 'string' },
+  text_html: { type: 'string' },
+  rag_text: { type: 'string', required: 'all' },
+  notes: { type: 'string' },
+  defined_term: { type: 'string' },
+  defined_terms_used: { type: 'json' },
+  contains_shall: { type: 'boolean', required: 'all' },
+  contains_must: { type: 'boolean', required: 'all' },
+  external_refs: { type: 'json' },
+  internal_refs: { type: 'json' },
+  satisfies_pr_ids: { type: 'json' },
+  related_unit_ids: { type: 'json' },
+  asset_type: { type: 'string', values: ['TABLE', 'IMAGE'] },
+  asset_id: { type: 'string' },
+  asset_caption: { type: 'string' },
+  asset_alt_text: { type: 'string' },
+  asset_file: { type: 'string' },
+  table_lte: { type: 'string' },
+  page_start: { type: 'string', required: 'content' },
+  page_end: { type: 'string', required: 'content' },
+  bbox_json: { type: 'json' },
+  extract_confidence: { type: 'number', required: 'content' },
+  warnings: { type: 'json' },
+  ncc_pathway: { type: 'string', required: 'content', values: ['PERFORMANCE', 'DTS', 'VERIFICATION', 'OBJECTIVE', 'FUNCTIONAL'] },
+  normative_status: { type: 'string', required: 'all', values: ['NORMATIVE', 'INFORMATIVE'] },
+  conditionality: { type: 'string', required: 'all', values: ['ALWAYS', 'IF_DTS_SELECTED', 'IF_PERFORMANCE_SELECTED'] },
+  heading_context: { type: 'string' },
+  raw_title: { type: 'string' },
+  raw_text: { type: 'string' },
+  applies_state: { type: 'string', values: NCC_STATES },
+  variation_action: { type: 'string', values: VARIATION_ACTIONS },
+  affected_unit_label: { type: 'string' },
+  affected_subparts: { type: 'string' },
+  affects_anchor_id: { type: 'string' },
+  table_grid_json: { type: 'json' },
+  table_key_values: { type: 'string' },
+  base_unit_label: { type: 'string' },
+  affected_subclause: { type: 'string' },
+  conditions_text: { type: 'string' },
+  exceptions_text: { type: 'string' },
+  requirements_list: { type: 'string' },
+  standards_referenced: { type: 'string' },
+  notes_quality: { type: 'string' },
+  discipline: { type: 'string' },
+  table_purpose: { type: 'string' },
+  table_id: { type: 'string' },
+  table_label: { type: 'string' },
+  applies_to_volume: { type: 'string', required: 'all' },
+  applies_to_class: { type: 'string' },
+  volume_hierarchy: { type: 'string' },
+  dataset_coverage: { type: 'string' },
+  scope_conditions: { type: 'string' },
+  formula_json: { type: 'json' },
+  constant_value: { type: 'string' },
+  constant_name: { type: 'string' },
+  pathway_alternative_to: { type: 'string', values: ['DTS', 'PERFORMANCE_SOLUTION'] },
+  verification_method_for: { type: 'string' },
+  section_code: { type: 'string' },
+  part_code: { type: 'string' },
+  indexable: { type: 'boolean', required: 'all' },
+};
+
+export const NCC_COLUMN_NAMES = Object.keys(NCC_COLUMNS) as NCCColumnName[];
+
+export interface NCCSchemaIssue {
+  row: number;    // 0-based row index
+  column: string;
+  message: string;
+}
+
+type SchemaRow = { [key: string]: string | number | boolean };
+
+// Validation stops collecting after this many issues
+const MAX_ISSUES = 100;
+
+/**
+ * Check rows against the schema: column set, value types, enumerations and required values
+ */
+export function validateNCCRows(rows: SchemaRow[]): NCCSchemaIssue[] {
+  const issues: NCCSchemaIssue[] = [];
+
+  for (let rowIndex = 0; rowIndex < rows.length && issues.length < MAX_ISSUES; rowIndex++) {
+    const row = rows[rowIndex];
+    const add = (column: string, message: string) => issues.push({ row: rowIndex, column, message });
+
+    for (const key of Object.keys(row)) {
+      if (!Object.prototype.hasOwnProperty.call(NCC_COLUMNS, key)) add(key, 'column not in schema');
+    }
+
+    const isContent = row.indexable !== false;
+    for (const name of NCC_COLUMN_NAMES) {
+      const column = NCC_COLUMNS[name];
+      if (!Object.prototype.hasOwnProperty.call(row, name)) {
+        add(name, 'missing');
+        continue;
+      }
+      const value = row[name];
+      if (value === '') {
+        if (column.required === 'all' || (column.required === 'content' && isContent)) add(name, 'required value is empty');
+        continue;
+      }
+
+      if (column.type === 'number' || column.type === 'boolean') {
+        if (typeof value !== column.type) add(name, `expected ${column.type}, got ${typeof value}`);
+        continue;
+      }
+      if (typeof value !== 'string') {
+        add(name, `expected string, got ${typeof value}`);
+        continue;
+      }
+      if (column.values && column.values.indexOf(value) === -1) {
+        add(name, `"${value}" is not one of the allowed values`);
+      }
+      if (column.type === 'json') {
+        try {
+          JSON.parse(value);
+        } catch (error) {
+          add(name, 'invalid JSON');
+        }
+      }
+    }
+  }
+
+  return issues.slice(0, MAX_ISSUES);
+}
+
+/**
+ * Throw if any row breaks the schema (called by every export before writing)
+ */
+export function assertNCCRows(rows: SchemaRow[]): void {
+  const issues = validateNCCRows(rows);
+  if (issues.length === 0) return;
+  const shown = issues.slice(0, 5).map(issue => `row ${issue.row} ${issue.column}: ${issue.message}`);
+  throw new Error(
+    `NCC rows do not match schema ${NCC_SCHEMA_VERSION} (${issues.length >= MAX_ISSUES ? `${MAX_ISSUES}+` : issues.length} issue(s)): ${shown.join('; ')}`
+  );
+}
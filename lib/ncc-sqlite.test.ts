@@ -0,0 +1,49 @@
+import Database from 'better-sqlite3';
+import { afterAll, describe, expect, it } from 'vitest';
+import { createSQLiteBuffer } from '@/lib/ncc-sqlite';
+import { NCC_SCHEMA_VERSION } from '@/lib/ncc-schema';
+import { sampleNCCRows } from '@/lib/__fixtures__/ncc-rows';
+
+describe('createSQLiteBuffer', () => {
+  const rows = sampleNCCRows();
+  const db = new Database(createSQLiteBuffer(rows, { doc_id: 'ncc2022' }));
+  afterAll(() => db.close());
+
+  const unitId = (anchorId: string): number =>
+    (db.prepare('SELECT unit_id FROM units WHERE anchor_id = ?').get(anchorId) as { unit_id: number }).unit_id;
+
+  it('writes one unit per row, with metadata', () => {
+    expect(db.prepare('SELECT COUNT(*) AS n FROM units').get()).toEqual({ n: rows.length });
+    const meta = db.prepare('SELECT key, value FROM ncc_meta').all() as Array<{ key: string; value: string }>;
+    const value = (key: string) => meta.find(entry => entry.key === key)!.value;
+
+    expect(value('schema_version')).toBe(NCC_SCHEMA_VERSION);
+    expect(value('row_count')).toBe(String(rows.length));
+    expect(value('doc_id')).toBe('ncc2022');
+  });
+
+  it('moves table and variation columns into their own tables', () => {
+    const table = db.prepare('SELECT t.table_id, t.key_values FROM tables t JOIN units u USING (unit_id) WHERE u.anchor_id = ?').get('VOL1::TABLE::D2D2');
+    expect(table).toEqual({ table_id: 'D2D2', key_values: 'CLASS=3|WIDTH=1 m' });
+
+    const variation = db.prepare('SELECT state, affects_unit_id FROM state_variations').get();
+    expect(variation).toEqual({ state: 'NSW', affects_unit_id: unitId('VOL1::D2D2') });
+  });
+
+  it('resolves anchor references to units', () => {
+    const satisfies = db.prepare("SELECT target, target_unit_id FROM unit_references WHERE unit_id = ? AND kind = 'satisfies_pr'").all(unitId('VOL1::D2D2'));
+    expect(satisfies).toEqual([{ target: 'VOL1::D2P1', target_unit_id: unitId('VOL1::D2P1') }]);
+  });
+
+  it('normalises disciplines', () => {
+    const names = db
+      .prepare('SELECT d.name FROM unit_disciplines ud JOIN disciplines d USING (discipline_id) WHERE ud.unit_id = ? ORDER BY d.name')
+      .all(unitId('VOL1::D2D2'));
+    expect(names).toEqual([{ name: 'Egress' }, { name: 'Fire' }]);
+  });
+
+  it('indexes units for full-text search', () => {
+    const hits = db.prepare("SELECT u.anchor_id FROM units_fts JOIN units u ON u.unit_id = units_fts.rowid WHERE units_fts MATCH 'evacuate'").all();
+    expect(hits).toEqual([{ anchor_id: 'VOL1::D2P1' }]);
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * SQLite Export
+ *
+ * Writes NCC rows as one SQLite database that offline tools can query directly:
+ * - units: one row per NCC row (unit_id = 1-based row number), typed columns
+ * - tables: table data of TABLE rows (table_* columns)
+ * - unit_references: one row per reference (external, internal, standard,
+ *   satisfies_pr, related_unit, defined_term); anchors resolve to target_unit_id
+ * - state_variations: state variation rows and the unit they affect
+ * - disciplines / unit_disciplines: discipline names and the units tagged with them
+ * - units_fts: FTS5 index over the units' search columns
+ * - ncc_meta: schema version, row count and export details
+ *
+ * Columns moved to the other tables are not repeated in units. Units have no
+ * natural key (continuation parts share their clause's anchor), so references
+ * join on unit_id; anchor_id is indexed for lookups.
+ */
+
+import fs from 'fs';
+import Database from 'better-sqlite3';
+import { assertNCCRows, NCC_COLUMNS, NCC_COLUMN_NAMES, NCC_SCHEMA_VERSION, NCCColumnName, NCCRow } from '@/lib/ncc-schema';
+
+// Columns carried by the normalised tables instead of units
+const TABLE_COLUMNS: { [field: string]: NCCColumnName } = {
+  table_id: 'table_id',
+  label: 'table_label',
+  purpose: 'table_purpose',
+  lte: 'table_lte',
+  grid_json: 'table_grid_json',
+  key_values: 'table_key_values',
+};
+const VARIATION_COLUMNS: { [field: string]: NCCColumnName } = {
+  state: 'applies_state',
+  action: 'variation_action',
+  affected_unit_label: 'affected_unit_label',
+  affected_subclause: 'affected_subclause',
+  affected_subparts: 'affected_subparts',
+  affects_anchor_id: 'affects_anchor_id',
+};
+const REFERENCE_COLUMNS: { [column: string]: string } = {
+  external_refs: 'external',
+  internal_refs: 'internal',
+  standards_referenced: 'standard',
+  satisfies_pr_ids: 'satisfies_pr',
+  related_unit_ids: 'related_unit',
+  defined_terms_used: 'defined_term',
+};
+// Reference kinds whose targets are anchor ids
+const ANCHOR_REFERENCE_KINDS = ['satisfies_pr', 'related_unit'];
+
+// Searchable columns of units (units_fts)
+const FTS_COLUMNS: NCCColumnName[] = ['title', 'text', 'rag_text'];
+
+function normalisedColumns(): NCCColumnName[] {
+  const columns: NCCColumnName[] = ['discipline'];
+  Object.keys(TABLE_COLUMNS).forEach(field => columns.push(TABLE_COLUMNS[field]));
+  Object.keys(VARIATION_COLUMNS).forEach(field => columns.push(VARIATION_COLUMNS[field]));
+  Object.keys(REFERENCE_COLUMNS).forEach(column => columns.push(column as NCCColumnName));
+  return columns;
+}
+
+const UNIT_COLUMNS = NCC_COLUMN_NAMES.filter(name => normalisedColumns().indexOf(name) === -1);
+
+function sqlType(name: NCCColumnName): string {
+  const type = NCC_COLUMNS[name].type;
+  if (type === 'number') return 'REAL';
+  if (type === 'boolean') return 'INTEGER';
+  return 'TEXT';
+}
+
+function sqlValue(value: string | number | boolean, name: NCCColumnName): string | number | null {
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value === '' && NCC_COLUMNS[name].type === 'number') return null;
+  return value;
+}
+
+function createTables(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE ncc_meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+    CREATE TABLE units (
+      unit_id INTEGER PRIMARY KEY,
+      ${UNIT_COLUMNS.map(name => `${name} ${sqlType(name)}`).join(',\n      ')}
+    );
+    CREATE TABLE tables (
+      unit_id INTEGER PRIMARY KEY REFERENCES units(unit_id),
+      ${Object.keys(TABLE_COLUMNS).map(field => `${field} TEXT`).join(', ')}
+    );
+    CREATE TABLE unit_references (
+      unit_id INTEGER NOT NULL REFERENCES units(unit_id),
+      kind TEXT NOT NULL,
+      target TEXT NOT NULL,
+      target_unit_id INTEGER REFERENCES units(unit_id),
+      detail_json TEXT
+    );
+    CREATE TABLE state_variations (
+      unit_id INTEGER PRIMARY KEY REFERENCES units(unit_id),
+      ${Object.keys(VARIATION_COLUMNS).map(field => `${field} TEXT`).join(', ')},
+      affects_unit_id INTEGER REFERENCES units(unit_id)
+    );
+    CREATE TABLE disciplines (discipline_id INTEGER PRIMARY KEY, name TEXT NOT NULL UNIQUE);
+    CREATE TABLE unit_disciplines (
+      unit_id INTEGER NOT NULL REFERENCES units(unit_id),
+      discipline_id INTEGER NOT NULL REFERENCES disciplines(discipline_id),
+      PRIMARY KEY (unit_id, discipline_id)
+    );
+    CREATE VIRTUAL TABLE units_fts USING fts5(
+      ${FTS_COLUMNS.join(', ')}, content='units', content_rowid='unit_id', tokenize='porter unicode61'
+    );
+  `);
+}
+
+function createIndexes(db: Database.Database): void {
+  db.exec(`
+    CREATE INDEX idx_units_anchor ON units(anchor_id);
+    CREATE INDEX idx_units_label ON units(unit_label);
+    CREATE INDEX idx_units_volume_type ON units(volume, unit_type);
+    CREATE INDEX idx_references_target ON unit_references(kind, target);
+    CREATE INDEX idx_references_unit ON unit_references(unit_id);
+    CREATE INDEX idx_variations_state ON state_variations(state);
+    CREATE INDEX idx_unit_disciplines_discipline ON unit_disciplines(discipline_id);
+  `);
+}
+
+/**
+ * Reference entries of one column: [target, detail JSON]
+ * External references are objects; their normalized designation is the target.
+ */
+function referenceEntries(row: NCCRow, column: string): Array<[string, string | null]> {
+  const value = String(row[column as NCCColumnName]);
+  if (!value) return [];
+  if (column === 'standards_referenced') return value.split('|').map(target => [target, null]);
+
+  const entries: unknown[] = JSON.parse(value);
+  return entries.map(entry => {
+    if (typeof entry === 'string') return [entry, null] as [string, null];
+    const ref = entry as { normalized?: string; designation?: string };
+    return [ref.normalized || ref.designation || '', JSON.stringify(entry)] as [string, string];
+  });
+}
+
+function fillDatabase(db: Database.Database, rows: NCCRow[], metadata: { [key: string]: string }): void {
+  createTables(db);
+
+  const insertUnit = db.prepare(
+    `INSERT INTO units (unit_id, ${UNIT_COLUMNS.join(', ')}) VALUES (?, ${UNIT_COLUMNS.map(() => '?').join(', ')})`
+  );
+  const tableFields = Object.keys(TABLE_COLUMNS);
+  const insertTable = db.prepare(
+    `INSERT INTO tables (unit_id, ${tableFields.join(', ')}) VALUES (?, ${tableFields.map(() => '?').join(', ')})`
+  );
+  const variationFields = Object.keys(VARIATION_COLUMNS);
+  const insertVariation = db.prepare(
+    `INSERT INTO state_variations (unit_id, ${variationFields.join(', ')}, affects_unit_id) VALUES (?, ${variationFields.map(() => '?').join(', ')}, ?)`
+  );
+  const insertReference = db.prepare(
+    'INSERT INTO unit_references (unit_id, kind, target, target_unit_id, detail_json) VALUES (?, ?, ?, ?, ?)'
+  );
+  const insertDiscipline = db.prepare('INSERT INTO disciplines (discipline_id, name) VALUES (?, ?)');
+  const insertUnitDiscipline = db.prepare('INSERT OR IGNORE INTO unit_disciplines (unit_id, discipline_id) VALUES (?, ?)');
+  const insertMeta = db.prepare('INSERT INTO ncc_meta (key, value) VALUES (?, ?)');
+
+  // First unit carrying each anchor (continuation parts share their clause's anchor)
+  const unitIdByAnchor = new Map<string, number>();
+  rows.forEach((row, index) => {
+    if (row.anchor_id && !unitIdByAnchor.has(row.anchor_id)) unitIdByAnchor.set(row.anchor_id, index + 1);
+  });
+  const disciplineIds = new Map<string, number>();
+
+  db.transaction(() => {
+    // All units first: references and variations can point at later units
+    rows.forEach((row, index) => {
+      insertUnit.run(index + 1, ...UNIT_COLUMNS.map(name => sqlValue(row[name], name)));
+    });
+
+    rows.forEach((row, index) => {
+      const unitId = index + 1;
+      if (tableFields.some(field => row[TABLE_COLUMNS[field]] !== '')) {
+        insertTable.run(unitId, ...tableFields.map(field => row[TABLE_COLUMNS[field]]));
+      }
+      if (variationFields.some(field => row[VARIATION_COLUMNS[field]] !== '')) {
+        const affectsUnitId = row.affects_anchor_id ? unitIdByAnchor.get(row.affects_anchor_id) : undefined;
+        insertVariation.run(unitId, ...variationFields.map(field => row[VARIATION_COLUMNS[field]]), affectsUnitId ?? null);
+      }
+
+      Object.keys(REFERENCE_COLUMNS).forEach(column => {
+        const kind = REFERENCE_COLUMNS[column];
+        referenceEntries(row, column).forEach(([target, detail]) => {
+          const targetUnitId = ANCHOR_REFERENCE_KINDS.indexOf(kind) !== -1 ? unitIdByAnchor.get(target) : undefined;
+          insertReference.run(unitId, kind, target, targetUnitId ?? null, detail);
+        });
+      });
+
+      row.discipline.split(',').map(name => name.trim()).filter(Boolean).forEach(name => {
+        if (!disciplineIds.has(name)) {
+          disciplineIds.set(name, disciplineIds.size + 1);
+          insertDiscipline.run(disciplineIds.size, name);
+        }
+        insertUnitDiscipline.run(unitId, disciplineIds.get(name));
+      });
+    });
+
+    db.exec("INSERT INTO units_fts(units_fts) VALUES ('rebuild')");
+
+    const meta: { [key: string]: string } = {
+      schema_version: NCC_SCHEMA_VERSION,
+      generated_at: new Date().toISOString(),
+      row_count: String(rows.length),
+      fts_columns: FTS_COLUMNS.join('|'),
+      ...metadata,
+    };
+    Object.keys(meta).forEach(key => insertMeta.run(key, meta[key]));
+  })();
+
+  createIndexes(db);
+}
+
+/**
+ * Write NCC rows to a SQLite database file (replaced if it exists)
+ * @param metadata Extra ncc_meta entries, e.g. doc_id and coverage of a batch
+ */
+export function writeSQLite(rows: NCCRow[], filePath: string, metadata: { [key: string]: string } = {}): void {
+  assertNCCRows(rows);
+  if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+
+  const db = new Database(filePath);
+  try {
+    fillDatabase(db, rows, metadata);
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * NCC rows as the bytes of a SQLite database file
+ */
+export function createSQLiteBuffer(rows: NCCRow[], metadata: { [key: string]: string } = {}): Buffer {
+  assertNCCRows(rows);
+
+  const db = new Database(':memory:');
+  try {
+    fillDatabase(db, rows, metadata);
+    return db.serialize();
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { affectedSubclauses, classifyVariationAction, parseStateVariation, stripStatePrefix } from '@/lib/ncc-state-variations';
+
+describe('parseStateVariation', () => {
+  it('splits state, label, subclause and title', () => {
+    expect(parseStateVariation('NSW J7D3(1)  Artificial lighting')).toEqual({
+      state: 'NSW',
+      label: 'J7D3(1)',
+      baseLabel: 'J7D3',
+      subclause: '(1)',
+      isPartLevel: false,
+      body: 'Artificial lighting',
+    });
+    expect(parseStateVariation('VIC H4P2  Room heights')).toMatchObject({ label: 'H4P2', subclause: '', body: 'Room heights' });
+    expect(parseStateVariation('QLD B4P2(2)(a)')).toMatchObject({ baseLabel: 'B4P2', subclause: '(2)(a)' });
+    expect(parseStateVariation('NSW JP1  Special provisions')).toMatchObject({ label: 'JP1' });
+  });
+
+  it('recognises Part-level variations', () => {
+    expect(parseStateVariation('NSW Part J7')).toMatchObject({ label: 'J7', baseLabel: 'J7', isPartLevel: true });
+  });
+
+  it('ignores text without a state prefix', () => {
+    expect(parseStateVariation('(1) In a sole-occupancy unit of a Class 2 building')).toBeNull();
+    expect(parseStateVariation('Act J7D3')).toBeNull();
+    expect(stripStatePrefix('D2D1')).toBe('D2D1');
+    expect(stripStatePrefix('NSW J7D3(1)')).toBe('J7D3(1)');
+  });
+});
+
+describe('classifyVariationAction', () => {
+  it('orders the wording checks from most to least specific', () => {
+    expect(classifyVariationAction('This clause does not apply in NSW')).toBe('NOT_APPLICABLE');
+    expect(classifyVariationAction('Delete (2) and replace with the following')).toBe('REPLACE');
+    expect(classifyVariationAction('Delete subclause (3)')).toBe('DELETE');
+    expect(classifyVariationAction('Insert subclause (4) as follows')).toBe('INSERT');
+    expect(classifyVariationAction('The lamp power density must not exceed 5 W/m2')).toBe('AMEND_PART');
+  });
+});
+
+describe('affectedSubclauses', () => {
+  it('lists the subclauses a variation names', () => {
+    const variation = parseStateVariation('NSW J7D3(1)  Artificial lighting')!;
+    expect(affectedSubclauses(variation, 'Delete (1) and (3)(a) and replace with the following; J7D3(4) is replaced')).toEqual([
+      '(1)',
+      '(3)(a)',
+      '(4)',
+    ]);
+    expect(affectedSubclauses(parseStateVariation('VIC H4P2')!, 'Delete subclause (2), (5)')).toEqual(['(2)', '(5)']);
+  });
+
+  it('is empty for whole clauses and Parts', () => {
+    expect(affectedSubclauses(parseStateVariation('VIC H4P2')!, 'This clause does not apply in Victoria')).toEqual([]);
+    expect(affectedSubclauses(parseStateVariation('NSW Part J7')!, 'Delete J7D3(2)')).toEqual([]);
+  });
+});
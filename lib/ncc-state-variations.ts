@@ -0,0 +1,144 @@
+/**
+ * State and Territory Variation Detection
+ *
+ * NCC 2022 marks jurisdiction-specific provisions with a state prefix in front
+ * of the national clause label, e.g. "NSW J7D3(1) Artificial lighting" or
+ * "VIC H4P2 Room heights". This module recognises those prefixes, classifies
+ * what the variation does to the national provision, and exposes the label of
+ * the national clause it changes so the row can be linked back to it.
+ *
+ * Deterministic, rule-based - regex grammar prototyped in test-j7d3-fix.ts.
+ */
+
+export const NCC_STATES = ['NSW', 'VIC', 'QLD', 'SA', 'WA', 'TAS', 'ACT', 'NT'] as const;
+
+export type NCCState = typeof NCC_STATES[number];
+
+export const VARIATION_ACTIONS = ['DELETE', 'INSERT', 'REPLACE', 'NOT_APPLICABLE', 'AMEND_PART'] as const;
+
+export type VariationAction = typeof VARIATION_ACTIONS[number];
+
+export interface StateVariationRef {
+  state: NCCState;
+  label: string;         // Full label after the state prefix, e.g. "J7D3(1)" or "J7" for "Part J7"
+  baseLabel: string;     // National clause label without subclause, e.g. "J7D3"
+  subclause: string;     // Subclause identifier, e.g. "(1)" or "(2)(a)"; '' if whole clause
+  isPartLevel: boolean;  // true for "NSW Part J7" / "NSW J7" style variations
+  body: string;          // Text following the label on the same line (usually the title)
+}
+
+/**
+ * State prefix + NCC label
+ * State codes are matched case-sensitively so ordinary words ("Act", "Sa") never match.
+ * Label grammar: J7D3, JP1, H4P2, H2V1a, J7D3(1), B4P2(2)(a), or "Part J7"
+ */
+const STATE_VARIATION_PATTERN = new RegExp(
+  `^(${NCC_STATES.join('|')})\\s+` +
+  '(Part\\s+[A-Z]\\d+|[A-Z]{1,2}\\d+\\s*[A-Z]?\\d*[a-z]?(?:\\([0-9a-z]+\\))*)' +
+  '(?=\\s|[–—:.-]|$)'
+);
+
+/**
+ * Parse a state variation reference from the start of a paragraph or clause ref
+ * Returns null if the text does not start with a state prefix + NCC label
+ *
+ * Examples:
+ *   "NSW J7D3(1)  Artificial lighting" -> { state: "NSW", label: "J7D3(1)", baseLabel: "J7D3", subclause: "(1)", body: "Artificial lighting" }
+ *   "VIC H4P2  Room heights"           -> { state: "VIC", label: "H4P2", baseLabel: "H4P2", subclause: "", body: "Room heights" }
+ *   "NSW Part J7"                      -> { state: "NSW", label: "J7", baseLabel: "J7", isPartLevel: true, ... }
+ */
+export function parseStateVariation(text: string): StateVariationRef | null {
+  const trimmed = text.trim();
+  const match = trimmed.match(STATE_VARIATION_PATTERN);
+  if (!match) return null;
+
+  const state = match[1] as NCCState;
+  const rawLabel = match[2];
+  const label = rawLabel.replace(/^Part\s+/, '').replace(/\s+/g, '');
+  const isPartLevel = /^Part\s+/.test(rawLabel) || /^[A-Z]\d+$/.test(label);
+
+  const subclauseMatch = label.match(/((?:\([0-9a-z]+\))+)$/);
+  const subclause = subclauseMatch ? subclauseMatch[1] : '';
+  const baseLabel = subclause ? label.substring(0, label.length - subclause.length) : label;
+
+  const rest = trimmed.substring(match[0].length).trim();
+  const body = rest.replace(/^[–—:.-]\s*/, '').trim();
+
+  return { state, label, baseLabel, subclause, isPartLevel, body };
+}
+
+/**
+ * Strip a state prefix from a clause ref, returning the national label
+ * "NSW J7D3(1)" -> "J7D3(1)", "D2D1" -> "D2D1"
+ */
+export function stripStatePrefix(clauseRef: string): string {
+  const variation = parseStateVariation(clauseRef);
+  return variation ? variation.label : clauseRef;
+}
+
+/**
+ * Subclause lists named after an action word: "delete subclause (2) and (3)(a)", "replace (4)"
+ */
+const SUBCLAUSE_LIST_PATTERN = /\b(?:sub-?clauses?|delete|deleted|insert|inserted|replace|replaced|substitute|substituted|omit|omitted|amend|amended)\s+((?:\([0-9a-z]+\))+(?:\s*(?:,|and|or|to)\s*(?:\([0-9a-z]+\))+)*)/gi;
+
+/**
+ * Subclauses a variation changes: its own and those its text names
+ * "NSW J7D3(1)" + "Delete (1) and (3)(a); J7D3(4) is replaced" -> ["(1)", "(3)(a)", "(4)"]
+ * Empty for Part-level variations and variations of a whole clause that name no subclause.
+ */
+export function affectedSubclauses(variation: StateVariationRef, text: string): string[] {
+  const subclauses: string[] = [];
+  const add = (subclause: string) => {
+    if (subclause && subclauses.indexOf(subclause) === -1) subclauses.push(subclause);
+  };
+  if (variation.isPartLevel) return subclauses;
+  add(variation.subclause);
+
+  const labelPattern = new RegExp(`\\b${variation.baseLabel}((?:\\([0-9a-z]+\\))+)`, 'g');
+  const found: Array<{ index: number; subclause: string }> = [];
+  let match: RegExpExecArray | null;
+  while ((match = labelPattern.exec(text)) !== null) {
+    found.push({ index: match.index, subclause: match[1] });
+  }
+  SUBCLAUSE_LIST_PATTERN.lastIndex = 0;
+  while ((match = SUBCLAUSE_LIST_PATTERN.exec(text)) !== null) {
+    const index = match.index;
+    (match[1].match(/(?:\([0-9a-z]+\))+/g) || []).forEach(subclause => found.push({ index, subclause }));
+  }
+
+  found.sort((a, b) => a.index - b.index).forEach(entry => add(entry.subclause));
+  return subclauses;
+}
+
+/**
+ * Classify what a variation does to the national provision
+ *
+ * Checks are ordered from the most to the least specific wording:
+ *   NOT_APPLICABLE - "does not apply in NSW", "not applicable"
+ *   REPLACE        - "replace", "substitute", "in place of", "instead of"
+ *                    (checked before DELETE: "delete (2) and replace with" is a replacement)
+ *   DELETE         - "delete", "is deleted", "omit"
+ *   INSERT         - "insert", "is added", "add the following"
+ *   AMEND_PART     - anything else: the variation re-states part of the clause
+ */
+export function classifyVariationAction(text: string): VariationAction {
+  const lowerText = text.toLowerCase();
+
+  if (/\b(does not apply|do not apply|not applicable|is not required)\b/.test(lowerText)) {
+    return 'NOT_APPLICABLE';
+  }
+
+  if (/\b(replace|replaced|substitute|substituted|in place of|instead of)\b/.test(lowerText)) {
+    return 'REPLACE';
+  }
+
+  if (/\b(delete|deleted|omit|omitted|is removed)\b/.test(lowerText)) {
+    return 'DELETE';
+  }
+
+  if (/\b(insert|inserted|is added|are added|add the following)\b/.test(lowerText)) {
+    return 'INSERT';
+  }
+
+  return 'AMEND_PART';
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { parseHTML } from 'linkedom';
+import { buildTableGrid, deriveTableKeyValues, splitHeaderUnit, toKeyName } from '@/lib/ncc-table-grid';
+
+function parseTable(html: string): Element {
+  const { document } = parseHTML(`<html><body>${html}</body></html>`);
+  const table = document.querySelector('table');
+  if (!table) throw new Error('No table in fixture');
+  return table;
+}
+
+describe('splitHeaderUnit / toKeyName', () => {
+  it('splits units out of headers and normalises keys', () => {
+    expect(splitHeaderUnit('Max travel (m)')).toEqual({ label: 'Max travel', unit: 'm' });
+    expect(splitHeaderUnit('Class')).toEqual({ label: 'Class', unit: '' });
+    expect(toKeyName('Max travel distance')).toBe('MAX_TRAVEL_DISTANCE');
+  });
+});
+
+describe('buildTableGrid', () => {
+  it('combines grouped headers and expands spans', () => {
+    const grid = buildTableGrid(parseTable(`<table>
+      <tr><th rowspan="2">Class</th><th colspan="2">FRL (minutes)</th></tr>
+      <tr><th>Structural adequacy</th><th>Integrity</th></tr>
+      <tr><td>3</td><td colspan="2">90</td></tr>
+    </table>`));
+
+    expect(grid.header_rows).toBe(2);
+    expect(grid.headers).toEqual(['Class', 'FRL (minutes) > Structural adequacy', 'FRL (minutes) > Integrity']);
+    expect(grid.units).toEqual(['', 'minutes', 'minutes']);
+    expect(grid.rows).toEqual([['3', '90', '90']]);
+  });
+
+  it('derives row header x column header key/values', () => {
+    const grid = buildTableGrid(parseTable(`<table>
+      <tr><td>Class</td><td>Max travel (m)</td></tr>
+      <tr><td>3</td><td>20</td></tr>
+    </table>`));
+
+    expect(deriveTableKeyValues(grid)).toEqual(['CLASS=3|MAX_TRAVEL=20 m']);
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * Structured Table Grids for NCC Tables
+ *
+ * Converts an HTML table into a JSON-friendly grid that keeps what the
+ * markdown [TABLE] block loses:
+ * - merged header rows (grouped headers are combined per column: "FRL > Structural adequacy")
+ * - row and column spans (expanded so every grid position has a value)
+ * - units declared in header cells ("Max travel (m)" -> unit "m")
+ * - footnote markers (<sup> text and "Note 1" references)
+ *
+ * Key/value pairs are derived from row header x column header intersections,
+ * e.g. "CLASS=3|MAX_TRAVEL=20 m", for cell-level lookup of numeric tables.
+ */
+
+export interface TableGridCell {
+  r: number;          // Row index of the top-left position
+  c: number;          // Column index of the top-left position
+  text: string;       // Cell text without footnote markers
+  rowspan: number;
+  colspan: number;
+  header: boolean;
+  footnotes: string[]; // e.g. ["a"], ["Note 2"]
+}
+
+export interface TableGrid {
+  shape: { rows: number; cols: number };
+  header_rows: number;
+  headers: string[];   // Combined column headers, one per column
+  units: string[];     // Unit per column ('' if none)
+  rows: string[][];    // Body rows with spans expanded
+  cells: TableGridCell[];
+}
+
+/**
+ * Units commonly used in NCC table headers
+ */
+const UNIT_PATTERN = /^(mm|m|km|m2|m²|m3|m³|mm2|mm²|kPa|Pa|MPa|kN|N|kg|kg\/m2|kg\/m²|kg\/m3|kg\/m³|L|L\/s|L\/min|m\/s|m3\/s|s|min|minutes|hours|h|°C|K|%|W|kW|W\/m2|W\/m²|W\/m\.K|m2\.K\/W|m²\.K\/W|lx|dB|dB\(A\)|Hz|MJ\/m2|MJ\/m²|persons|people)$/i;
+
+/**
+ * Text of a cell excluding <sup> footnote markers
+ */
+function textWithoutSup(node: Node): string {
+  let text = '';
+  for (let child = node.firstChild; child; child = child.nextSibling) {
+    if (child.nodeType === 3) {
+      text += child.textContent || '';
+    } else if (child.nodeType === 1) {
+      const tag = (child as Element).tagName.toLowerCase();
+      if (tag === 'sup') continue;
+      // Paragraphs and line breaks inside a cell become spaces
+      if (tag === 'br') text += ' ';
+      text += textWithoutSup(child);
+      if (tag === 'p') text += ' ';
+    }
+  }
+  return text;
+}
+
+/**
+ * Extract footnote markers: superscripts and "Note N" references
+ */
+function extractFootnotes(cell: Element, text: string): string[] {
+  const footnotes: string[] = [];
+  Array.from(cell.querySelectorAll('sup')).forEach(sup => {
+    const marker = (sup.textContent || '').trim();
+    if (marker) footnotes.push(marker);
+  });
+  const noteRegex = /\b(?:see\s+)?Notes?\s+(\d+)\b/gi;
+  let match: RegExpExecArray | null;
+  while ((match = noteRegex.exec(text)) !== null) {
+    footnotes.push(`Note ${match[1]}`);
+  }
+  return footnotes;
+}
+
+/**
+ * Split a header into its label and unit: "Max travel (m)" -> ["Max travel", "m"]
+ */
+export function splitHeaderUnit(header: string): { label: string; unit: string } {
+  const match = header.match(/^(.*?)\s*[([]\s*([^()[\]]{1,12}?)\s*[)\]]\s*$/);
+  if (match && UNIT_PATTERN.test(match[2])) {
+    return { label: match[1].trim(), unit: match[2] };
+  }
+  const commaMatch = header.match(/^(.*?),\s*(\S{1,8})\s*$/);
+  if (commaMatch && UNIT_PATTERN.test(commaMatch[2])) {
+    return { label: commaMatch[1].trim(), unit: commaMatch[2] };
+  }
+  return { label: header.trim(), unit: '' };
+}
+
+/**
+ * Normalise a header label into a key: "Max travel distance" -> "MAX_TRAVEL_DISTANCE"
+ */
+export function toKeyName(label: string): string {
+  return label
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+function isNumericLike(text: string): boolean {
+  return /^[<>≤≥~]?\s*-?\d+(?:[.,]\d+)?/.test(text.trim());
+}
+
+/**
+ * Build a structured grid from an HTML table element
+ */
+export function buildTableGrid(table: Element): TableGrid {
+  const trs = Array.from(table.querySelectorAll('tr'));
+  const occupancy: Array<Array<TableGridCell | undefined>> = [];
+  const cells: TableGridCell[] = [];
+  const headerRowFlags: boolean[] = [];
+
+  trs.forEach((tr, r) => {
+    occupancy[r] = occupancy[r] || [];
+    const rowCells = Array.from(tr.querySelectorAll('td, th'));
+    headerRowFlags[r] = rowCells.length > 0 && rowCells.every(cell => cell.tagName.toLowerCase() === 'th');
+
+    let c = 0;
+    rowCells.forEach(cellElement => {
+      while (occupancy[r][c]) c++;
+
+      const rowspan = Math.max(1, parseInt(cellElement.getAttribute('rowspan') || '1', 10) || 1);
+      const colspan = Math.max(1, parseInt(cellElement.getAttribute('colspan') || '1', 10) || 1);
+      const text = textWithoutSup(cellElement).replace(/\s+/g, ' ').trim();
+
+      const cell: TableGridCell = {
+        r,
+        c,
+        text,
+        rowspan,
+        colspan,
+        header: cellElement.tagName.toLowerCase() === 'th',
+        footnotes: extractFootnotes(cellElement, text),
+      };
+      cells.push(cell);
+
+      for (let dr = 0; dr < rowspan; dr++) {
+        occupancy[r + dr] = occupancy[r + dr] || [];
+        for (let dc = 0; dc < colspan; dc++) {
+          occupancy[r + dr][c + dc] = cell;
+        }
+      }
+      c += colspan;
+    });
+  });
+
+  const rowCount = occupancy.length;
+  const colCount = occupancy.reduce((max, row) => Math.max(max, row ? row.length : 0), 0);
+
+  // Header rows: leading <th> rows; otherwise the first row, extended while a grouped
+  // (colspan) header sits above a non-numeric row, and to cover header rowspans
+  let headerRows = 0;
+  while (headerRows < rowCount && headerRowFlags[headerRows]) headerRows++;
+  if (headerRows === 0 && rowCount > 1) {
+    headerRows = 1;
+    while (headerRows < rowCount - 1) {
+      const above = occupancy[headerRows - 1] || [];
+      const current = occupancy[headerRows] || [];
+      const hasGroupedHeader = above.some(cell => cell && cell.colspan > 1 && cell.r === headerRows - 1);
+      const currentIsText = current.every(cell => !cell || !isNumericLike(cell.text));
+      if (!hasGroupedHeader || !currentIsText) break;
+      headerRows++;
+    }
+  }
+  for (let r = 0; r < headerRows; r++) {
+    (occupancy[r] || []).forEach(cell => {
+      if (cell && cell.r === r) {
+        headerRows = Math.min(rowCount, Math.max(headerRows, r + cell.rowspan));
+      }
+    });
+  }
+  cells.forEach(cell => {
+    if (cell.r < headerRows) cell.header = true;
+  });
+
+  // Combined header per column: "Group > Sub", skipping repeats from spans
+  const headers: string[] = [];
+  const units: string[] = [];
+  for (let c = 0; c < colCount; c++) {
+    const parts: string[] = [];
+    for (let r = 0; r < headerRows; r++) {
+      const cell = occupancy[r] ? occupancy[r][c] : undefined;
+      if (cell && cell.text && parts[parts.length - 1] !== cell.text) parts.push(cell.text);
+    }
+    // The unit may sit on a grouped header ("FRL (minutes)") or the leaf header
+    const unit = parts.reduce((found, part) => splitHeaderUnit(part).unit || found, '');
+    headers.push(parts.join(' > '));
+    units.push(unit);
+  }
+
+  const rows: string[][] = [];
+  for (let r = headerRows; r < rowCount; r++) {
+    const row: string[] = [];
+    for (let c = 0; c < colCount; c++) {
+      const cell = occupancy[r] ? occupancy[r][c] : undefined;
+      row.push(cell ? cell.text : '');
+    }
+    rows.push(row);
+  }
+
+  return {
+    shape: { rows: rowCount, cols: colCount },
+    header_rows: headerRows,
+    headers,
+    units,
+    rows,
+    cells,
+  };
+}
+
+/**
+ * Derive key/value pairs per body row: every non-empty cell becomes
+ * HEADER_KEY=value (with the column's header unit appended to numeric values),
+ * so the first pair identifies the row (e.g. CLASS=3)
+ *
+ * Returns one "CLASS=3|MAX_TRAVEL=20 m" string per body row
+ */
+export function deriveTableKeyValues(grid: TableGrid): string[] {
+  if (grid.header_rows === 0 || grid.headers.length < 2) return [];
+
+  const keys = grid.headers.map((header, idx) => {
+    const labels = header.split(' > ').map(part => splitHeaderUnit(part).label);
+    return toKeyName(labels.join(' ')) || `COL${idx + 1}`;
+  });
+
+  const clean = (value: string) => value.replace(/[|;=]/g, ',').trim();
+
+  return grid.rows
+    .filter(row => row.some(value => value))
+    .map(row => {
+      const pairs: string[] = [];
+      row.forEach((value, idx) => {
+        if (!value) return;
+        const unit = grid.units[idx];
+        const withUnit = unit && isNumericLike(value) && !value.includes(unit) ? `${value} ${unit}` : value;
+        pairs.push(`${keys[idx]}=${clean(withUnit)}`);
+      });
+      return pairs.join('|');
+    });
+}
+
+/**
+ * Serialize the grids of one unit for the table_grid_json / table_key_values columns
+ * Grids are always a JSON array (a clause can hold several tables); rows of
+ * key/values are separated by "; ". Per-cell detail is dropped if the JSON
+ * would not fit in one cell.
+ */
+export function serializeTableGrids(grids: TableGrid[], limit: number): { gridJson: string; keyValues: string } {
+  if (grids.length === 0) return { gridJson: '', keyValues: '' };
+
+  let gridJson = JSON.stringify(grids);
+  if (gridJson.length > limit) {
+    gridJson = JSON.stringify(grids.map(grid => ({ ...grid, cells: [] })));
+  }
+  if (gridJson.length > limit) {
+    console.warn(`[NCC Tables] Table grid JSON (${gridJson.length} chars) exceeds cell limit, omitted`);
+    gridJson = '';
+  }
+
+  let keyValues = grids
+    .map(grid => deriveTableKeyValues(grid).join('; '))
+    .filter(value => value)
+    .join('; ');
+  if (keyValues.length > limit) {
+    keyValues = keyValues.substring(0, keyValues.lastIndexOf('; ', limit));
+  }
+
+  return { gridJson, keyValues };
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { classifyNCCUnit } from '@/lib/ncc-unit-classifier';
+
+describe('classifyNCCUnit', () => {
+  it('reads the unit type from the NCC 2022 clause letter', () => {
+    expect(classifyNCCUnit('D2P1', 'D2P1 Fire safety')).toMatchObject({ unitType: 'PERFORMANCE_REQUIREMENT', source: 'LABEL' });
+    expect(classifyNCCUnit('D2D1', 'D2D1 Application')).toMatchObject({ unitType: 'DTS_PROVISION', source: 'LABEL' });
+    expect(classifyNCCUnit('H2V1a', '')).toMatchObject({ unitType: 'VERIFICATION_METHOD' });
+    expect(classifyNCCUnit('A5G3', '')).toMatchObject({ unitType: 'GOVERNING_REQUIREMENT' });
+    expect(classifyNCCUnit('NSW J7D3(1)', '')).toMatchObject({ unitType: 'DTS_PROVISION' });
+  });
+
+  it('classifies specification clauses and pre-2022 labels', () => {
+    expect(classifyNCCUnit('S5C2', '')).toMatchObject({ unitType: 'SPECIFICATION_CLAUSE' });
+    expect(classifyNCCUnit('DP1', '')).toMatchObject({ unitType: 'PERFORMANCE_REQUIREMENT', confidence: 0.85 });
+    expect(classifyNCCUnit('CV2', '')).toMatchObject({ unitType: 'VERIFICATION_METHOD' });
+  });
+
+  it('treats captions as assets, not clauses', () => {
+    expect(classifyNCCUnit('D2D2', 'Table D2D2 Minimum widths')).toMatchObject({ unitType: 'TABLE' });
+    expect(classifyNCCUnit('', 'Figure D3D14a: Stair geometry')).toMatchObject({ unitType: 'FIGURE' });
+    expect(classifyNCCUnit('table S1C2a', '')).toMatchObject({ unitType: 'TABLE' });
+  });
+
+  it('falls back to heading cues, then definitions, then OTHER', () => {
+    expect(classifyNCCUnit('', 'Explanatory information\nThis clause...')).toMatchObject({ unitType: 'EXPLANATORY_INFORMATION', source: 'TEXT' });
+    // Body wording further down doesn't count
+    expect(classifyNCCUnit('', 'The building must be\ndeemed-to-satisfy provisions apply')).toMatchObject({ unitType: 'OTHER', source: 'DEFAULT' });
+    expect(classifyNCCUnit('', 'Fire-source feature means the far boundary')).toMatchObject({ unitType: 'DEFINITION' });
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * NCC Unit Type Classifier
+ *
+ * In NCC 2022 the unit type is encoded in the clause label itself: the letter
+ * after the part number says what the clause is (D2P1 = Performance Requirement,
+ * D2D1 = Deemed-to-Satisfy, D2V1 = Verification Method, ...). This classifier
+ * reads the label grammar first and only falls back to text cues in the
+ * clause heading when the label doesn't decide it.
+ *
+ * Every result carries a confidence score (0-1) for the extract_confidence column.
+ */
+
+/**
+ * Full unit_type enumeration from NCC_CSV_STRUCTURE_SPECIFICATION.md
+ */
+export const NCC_UNIT_TYPES = [
+  // Structural
+  'VOLUME', 'SECTION', 'PART', 'SUBPART',
+  // Content
+  'HEADING', 'INTRODUCTION', 'INTRODUCTORY_PROVISION', 'GOVERNING_REQUIREMENT',
+  'OBJECTIVE', 'FUNCTIONAL_STATEMENT', 'PROVISION', 'PERFORMANCE_REQUIREMENT',
+  'DTS_PROVISION', 'VERIFICATION_METHOD', 'EVIDENCE_OF_SUITABILITY', 'DEFINITION', 'APPLICATION',
+  // Special content
+  'SPECIFICATION', 'SPECIFICATION_CLAUSE', 'SCHEDULE', 'APPENDIX',
+  // Supporting content
+  'EXPLANATORY_INFORMATION', 'NOTE', 'EXCEPTION',
+  // State variations
+  'STATE_VARIATION', 'STATE_VARIATION_AMENDMENT',
+  // Assets
+  'TABLE', 'TABLE_NOTE', 'FIGURE',
+  // Decision-oriented
+  'SCOPE_SUMMARY', 'SCOPE_VOLUME_SELECTION', 'SCOPE_CLASS_APPLICABILITY', 'SCOPE_EXCEPTION',
+  'GOVERNANCE_RULE', 'DISCIPLINE_RULE', 'CONDITIONAL_RULE', 'PATHWAY_SELECTION',
+  'PATHWAY_COMPLETE', 'CALCULATION_RULE', 'SIZING_RULE', 'CONSTANT',
+  'PERFORMANCE_CRITERION', 'TABLE_ROW',
+  // Other
+  'OTHER',
+] as const;
+
+export type NCCUnitType = typeof NCC_UNIT_TYPES[number];
+
+export interface UnitClassification {
+  unitType: NCCUnitType;
+  confidence: number;
+  source: 'LABEL' | 'TEXT' | 'DEFAULT';
+}
+
+/**
+ * NCC 2022 clause letter -> unit type
+ * Label structure: [Section][Part number][Clause letter][Clause number], e.g. D2P1
+ */
+const CLAUSE_LETTER_TYPES: Record<string, NCCUnitType> = {
+  O: 'OBJECTIVE',
+  F: 'FUNCTIONAL_STATEMENT',
+  G: 'GOVERNING_REQUIREMENT',
+  P: 'PERFORMANCE_REQUIREMENT',
+  D: 'DTS_PROVISION',
+  V: 'VERIFICATION_METHOD',
+  E: 'EVIDENCE_OF_SUITABILITY',
+};
+
+/**
+ * Heading cues, checked against the start of the clause text only so that
+ * body wording ("...deemed-to-satisfy...") can't change the type
+ */
+const HEADING_CUES: Array<{ regex: RegExp; unitType: NCCUnitType }> = [
+  { regex: /^specification\s+\d+/i, unitType: 'SPECIFICATION' },
+  { regex: /^schedule\s+\d+/i, unitType: 'SCHEDULE' },
+  { regex: /^appendix\b/i, unitType: 'APPENDIX' },
+  { regex: /^(table|tables)\s+\S+/i, unitType: 'TABLE' },
+  { regex: /^(figure|figures)\s+\S+/i, unitType: 'FIGURE' },
+  { regex: /^objectives?\b/i, unitType: 'OBJECTIVE' },
+  { regex: /^functional statements?\b/i, unitType: 'FUNCTIONAL_STATEMENT' },
+  { regex: /^governing requirements?\b/i, unitType: 'GOVERNING_REQUIREMENT' },
+  { regex: /^performance requirements?\b/i, unitType: 'PERFORMANCE_REQUIREMENT' },
+  { regex: /^deemed[- ]to[- ]satisfy provisions?\b/i, unitType: 'DTS_PROVISION' },
+  { regex: /^verification methods?\b/i, unitType: 'VERIFICATION_METHOD' },
+  { regex: /^evidence of suitability\b/i, unitType: 'EVIDENCE_OF_SUITABILITY' },
+  { regex: /^explanatory information\b/i, unitType: 'EXPLANATORY_INFORMATION' },
+  { regex: /^notes?(\s+to\s+table\b|\s*:|\s+\d+\b|\s*$)/i, unitType: 'NOTE' },
+  { regex: /^(exemptions?|exceptions?)\s*:/i, unitType: 'EXCEPTION' },
+  { regex: /^(definitions|schedule of definitions)\b/i, unitType: 'DEFINITION' },
+  { regex: /^introduction\b/i, unitType: 'INTRODUCTION' },
+  { regex: /^application\b/i, unitType: 'APPLICATION' },
+];
+
+/**
+ * "term means ..." or "Term — meaning" definition entries
+ */
+const DEFINITION_PATTERN = /^[A-Za-z][A-Za-z0-9 ,()'/-]{1,80}?\s+(means|—)\s/;
+
+/**
+ * Classify a unit from its label, falling back to heading/text cues
+ *
+ * @param label - Clause ref as detected ("D2P1", "table H2V1a", "NSW J7D3(1)", "" for unlabeled)
+ * @param text - Full unit text; only its opening is used for text cues
+ */
+export function classifyNCCUnit(label: string, text: string): UnitClassification {
+  const isTableRef = /^table\s+/i.test(label);
+  const cleanLabel = label
+    .replace(/^table\s+/i, '')
+    .replace(/^(NSW|VIC|QLD|SA|WA|TAS|ACT|NT)\s+/, '')
+    .trim();
+
+  // Captions: "Table D2D2 ..." / "Figure D3D14a: ..." carry a clause-style label but are assets
+  const captionMatch = text.trim().match(/^(Table|Figure)s?\s+([A-Z]\d+[A-Z]\d+[a-z]?)\b/i);
+  if (captionMatch && (!cleanLabel || captionMatch[2].toUpperCase() === cleanLabel.toUpperCase())) {
+    return { unitType: /^table/i.test(captionMatch[1]) ? 'TABLE' : 'FIGURE', confidence: 0.9, source: 'LABEL' };
+  }
+
+  // 1. NCC 2022 label grammar: D2P1, A5G3, H2V1a, J7D3(1)
+  const labelMatch = cleanLabel.match(/^[A-Z]\d+([A-Z])\d+[a-z]?(?:\([0-9a-z]+\))*$/i);
+  if (labelMatch) {
+    const clauseLetter = labelMatch[1].toUpperCase();
+    const letterType = CLAUSE_LETTER_TYPES[clauseLetter];
+    if (letterType) {
+      return { unitType: letterType, confidence: 0.95, source: 'LABEL' };
+    }
+    // Tables carry labels of their Specification (Table S1C2a) - the table is the unit
+    if (isTableRef) {
+      return { unitType: 'TABLE', confidence: 0.9, source: 'LABEL' };
+    }
+    // S5C2 = clause 2 of Specification 5
+    if (/^S\d+C\d+/i.test(cleanLabel)) {
+      return { unitType: 'SPECIFICATION_CLAUSE', confidence: 0.9, source: 'LABEL' };
+    }
+  }
+
+  // 2. Pre-2022 label grammar: DP1, CV2, EF1.4, BO1 (section letter + type letter)
+  const legacyMatch = cleanLabel.match(/^[A-Z]([OFPV])\d+(?:\.\d+)?[a-z]?$/);
+  if (legacyMatch) {
+    return { unitType: CLAUSE_LETTER_TYPES[legacyMatch[1]], confidence: 0.85, source: 'LABEL' };
+  }
+
+  if (isTableRef) {
+    return { unitType: 'TABLE', confidence: 0.8, source: 'LABEL' };
+  }
+
+  // 3. Heading cues: the text with its label removed, first line only
+  const labelPattern = cleanLabel ? new RegExp(`^\\s*${cleanLabel.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*[–—:.-]?\\s*`, 'i') : null;
+  const heading = (labelPattern ? text.replace(labelPattern, '') : text).trim().split(/\n/)[0].substring(0, 200);
+
+  for (const cue of HEADING_CUES) {
+    if (cue.regex.test(heading)) {
+      return { unitType: cue.unitType, confidence: 0.7, source: 'TEXT' };
+    }
+  }
+
+  if (DEFINITION_PATTERN.test(heading)) {
+    return { unitType: 'DEFINITION', confidence: 0.6, source: 'TEXT' };
+  }
+
+  return { unitType: 'OTHER', confidence: 0.3, source: 'DEFAULT' };
+}
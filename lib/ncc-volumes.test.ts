@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeVolumeLabel, volumeAnchorPrefix } from '@/lib/ncc-volumes';
+
+describe('normalizeVolumeLabel', () => {
+  it('maps volume names to their labels', () => {
+    expect(normalizeVolumeLabel('Vol1')).toBe('Vol1');
+    expect(normalizeVolumeLabel('2')).toBe('Vol2');
+    expect(normalizeVolumeLabel('Volume Three')).toBe('Vol3');
+    expect(normalizeVolumeLabel('NCC 2022 Volume II')).toBe('Vol2');
+    expect(normalizeVolumeLabel('Housing Provisions')).toBe('HP');
+  });
+
+  it('rejects names that are not an NCC volume', () => {
+    expect(normalizeVolumeLabel('Vol4')).toBeNull();
+    expect(normalizeVolumeLabel('/../../../tmp/x')).toBeNull();
+    expect(normalizeVolumeLabel('')).toBeNull();
+  });
+});
+
+describe('volumeAnchorPrefix', () => {
+  it('upper-cases the label', () => {
+    expect(volumeAnchorPrefix('Vol1')).toBe('VOL1');
+    expect(volumeAnchorPrefix('HP')).toBe('HP');
+  });
+});
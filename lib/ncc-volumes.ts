@@ -0,0 +1,51 @@
+/**
+ * NCC Volume Registry
+ *
+ * One naming scheme for every volume in the NCC corpus, so rows from
+ * separate runs share volume labels and anchor prefixes:
+ * - Vol1 (VOL1::...) - Volume One, Class 2-9 buildings
+ * - Vol2 (VOL2::...) - Volume Two, Class 1 and 10 buildings
+ * - Vol3 (VOL3::...) - Volume Three, Plumbing Code of Australia
+ * - HP   (HP::...)   - ABCB Housing Provisions Standard
+ */
+
+export interface NCCVolume {
+  label: string;  // Volume label used in the volume column and anchors
+  field: string;  // Multipart field name for batch uploads
+  title: string;
+}
+
+// doc_id used when a document names no edition (see lib/ncc-edition)
+export const NCC_DOC_ID = 'ncc2022';
+
+export const NCC_VOLUMES: NCCVolume[] = [
+  { label: 'Vol1', field: 'vol1', title: 'NCC Volume One' },
+  { label: 'Vol2', field: 'vol2', title: 'NCC Volume Two' },
+  { label: 'Vol3', field: 'vol3', title: 'NCC Volume Three' },
+  { label: 'HP', field: 'housing', title: 'ABCB Housing Provisions Standard' },
+];
+
+const VOLUME_NUMBERS: Record<string, string> = {
+  '1': '1', ONE: '1', I: '1',
+  '2': '2', TWO: '2', II: '2',
+  '3': '3', THREE: '3', III: '3',
+};
+
+/**
+ * Normalise a volume name to its label
+ * "Vol1", "1", "Volume One", "volume two" -> "Vol1"/"Vol2"; "HP", "Housing Provisions" -> "HP"
+ * Returns null for names that are not an NCC volume.
+ */
+export function normalizeVolumeLabel(volume: string): string | null {
+  const cleaned = volume.trim().replace(/^(?:NCC\s+(?:2022\s+)?)?(?:Volume|Vol)\.?\s*/i, '').toUpperCase();
+  if (VOLUME_NUMBERS[cleaned]) return `Vol${VOLUME_NUMBERS[cleaned]}`;
+  if (/^(?:HP|HOUSING(?:\s+PROVISIONS)?(?:\s+STANDARD)?|ABCB\s+HOUSING\s+PROVISIONS(?:\s+STANDARD)?)$/.test(cleaned)) return 'HP';
+  return null;
+}
+
+/**
+ * Anchor prefix of a volume's rows, e.g. "Vol1" -> "VOL1"
+ */
+export function volumeAnchorPrefix(volumeLabel: string): string {
+  return volumeLabel.toUpperCase().replace(/\s+/g, '_');
+}
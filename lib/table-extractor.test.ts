@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { parseHTML } from 'linkedom';
+import { extractTablesFromRoot } from '@/lib/table-extractor';
+
+function parseBody(html: string): Element {
+  const { document } = parseHTML(`<html><body>${html}</body></html>`);
+  return document.body;
+}
+
+describe('extractTablesFromRoot', () => {
+  it('takes the caption above a table and the notes next to it', () => {
+    const [table] = extractTablesFromRoot(
+      parseBody(`
+        <p>D2D2 Exit widths</p>
+        <p>Table D2D2: Minimum widths</p>
+        <table><tr><th>Class</th><th>Width</th></tr><tr><td>3</td><td>1 m</td></tr></table>
+        <p>Note: Widths are clear of handrails.</p>`),
+      ['D2D2 Exit widths', 'Table D2D2: Minimum widths', 'Note: Widths are clear of handrails.']
+    );
+
+    expect(table).toMatchObject({ id: 'Table D2D2', title: 'Minimum widths', paragraphIndex: 1, rows: 2, cols: 2 });
+    expect(table.notes).toBe('Note: Widths are clear of handrails.');
+    expect(table.lteText).toContain('Note: Widths are clear of handrails.');
+  });
+
+  it('does not give a table the caption of the table before it', () => {
+    const tables = extractTablesFromRoot(
+      parseBody(`
+        <p>Table D2D2: Minimum widths</p>
+        <table><tr><td>3</td><td>1 m</td></tr></table>
+        <table><tr><td>5</td><td>2 m</td></tr></table>`),
+      [],
+      4
+    );
+
+    expect(tables.map(table => table.id)).toEqual(['Table D2D2', 'Table-AUTO-004']);
+    expect(tables[1].title).toBe('');
+  });
+
+  it('stops looking for notes at a heading', () => {
+    const [table] = extractTablesFromRoot(
+      parseBody(`
+        <p>Table 1</p>
+        <table><tr><td>a</td></tr></table>
+        <h3>D2D3 Stairs</h3>
+        <p>Note: About stairs, not the table.</p>`),
+      []
+    );
+
+    expect(table.notes).toBe('');
+  });
+});
@@ -7,6 +7,10 @@
 
 import { ExtractedTable } from '@/types';
 
+// Node type constants (the global Node is not available server-side)
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+
 /**
  * Extract text content from a DOM element, preserving structure
  */
@@ -42,7 +46,7 @@ function isTable(element: Element): boolean {
  * Returns array of {element, index, text, domIndex} for tracking
  */
 function getBlockElements(
-  root: HTMLElement,
+  root: Element,
   elementDomIndices: Map<Element, number>
 ): Array<{ element: Element; index: number; text: string; domIndex: number }> {
   const blocks: Array<{ element: Element; index: number; text: string; domIndex: number }> = [];
@@ -58,7 +62,7 @@ function getBlockElements(
     // For divs, only include if they contain direct text and no nested complex structures
     if (el.tagName.toLowerCase() === 'div') {
       const hasDirectText = Array.from(el.childNodes).some(
-        node => node.nodeType === Node.TEXT_NODE && node.textContent?.trim()
+        node => node.nodeType === TEXT_NODE && node.textContent?.trim()
       );
       const hasComplexNested = el.querySelector('table, ul, ol, div');
       if (!hasDirectText || hasComplexNested) return;
@@ -88,11 +92,13 @@ function getBlockElements(
 function detectTableCaption(
   table: HTMLTableElement,
   blocks: Array<{ element: Element; index: number; text: string; domIndex: number }>,
-  tableDomIndex: number
+  tableDomIndex: number,
+  previousTableDomIndex: number
 ): { id: string; title: string; paragraphIndex: number } | null {
   // Find blocks that appear before this table in document order
+  // (but after the previous table, whose caption it would otherwise inherit)
   const precedingBlocks = blocks
-    .filter(block => block.domIndex < tableDomIndex)
+    .filter(block => block.domIndex < tableDomIndex && block.domIndex > previousTableDomIndex)
     .sort((a, b) => b.domIndex - a.domIndex); // Sort descending (closest first)
   
   // Search up to 5 blocks before the table
@@ -102,12 +108,12 @@ function detectTableCaption(
     const block = precedingBlocks[i];
     const text = block.text.trim();
     
-    // Match: ^(Table|TABLE|Tab\.?)\s*\d+(\.\d+)?\b.*
-    const captionMatch = text.match(/^(Table|TABLE|Tab\.?)\s*(\d+(?:\.\d+)?)\b(.*)$/i);
+    // Match: ^(Table|TABLE|Tab\.?)\s*\d+(\.\d+)?\b.* or NCC labels (Table D2D2, Table S5C1a)
+    const captionMatch = text.match(/^(Table|TABLE|Tab\.?)\s*(\d+(?:\.\d+)?|[A-Z]\d+[A-Z]\d+[a-z]?|[A-Z]\d+\.\d+)\b(.*)$/i);
     
     if (captionMatch) {
       const tableNum = captionMatch[2];
-      const title = captionMatch[3]?.trim() || '';
+      const title = captionMatch[3]?.replace(/^\s*[–—:.-]\s*/, '').trim() || '';
       const id = `Table ${tableNum}`;
       
       return {
@@ -168,11 +174,11 @@ function detectTableNotes(
   
   // Check for stop conditions (another table or heading)
   const stopAtDomIndex = (domIndex: number): boolean => {
-    // Check if there's another table nearby
-    const otherTableNearby = allTableIndices.some(ti => 
-      ti !== tableDomIndex && Math.abs(ti - domIndex) < 50
+    // Check if there's another table between this table and the block
+    const otherTableBetween = allTableIndices.some(ti =>
+      ti !== tableDomIndex && ti > Math.min(tableDomIndex, domIndex) && ti < Math.max(tableDomIndex, domIndex)
     );
-    if (otherTableNearby) return true;
+    if (otherTableBetween) return true;
     
     // Check if block is a heading (hard boundary)
     const block = blocks.find(b => b.domIndex === domIndex);
@@ -291,6 +297,48 @@ function tableToLTE(table: HTMLTableElement, tableId: string, title: string, not
   return lteLines.join('\n');
 }
 
+/**
+ * Convert a table to a markdown-style block for RAG text
+ * If clauseRefRowIndex >= 0, the clause ref is removed from that row's cells
+ * (it belongs in the clause_ref column, not the table text)
+ */
+export function tableToMarkdown(table: HTMLTableElement, clauseRef: string, clauseRefRowIndex: number): string {
+  const rows = table.querySelectorAll('tr');
+  const formattedRows: string[] = [];
+  
+  for (let rIdx = 0; rIdx < rows.length; rIdx++) {
+    const cells = rows[rIdx].querySelectorAll('td, th');
+    const cellTexts: string[] = [];
+    
+    for (let cIdx = 0; cIdx < cells.length; cIdx++) {
+      let text = getTextContent(cells[cIdx]);
+      
+      // clauseRef might have "table " prefix, so remove that for matching
+      if (rIdx === clauseRefRowIndex && clauseRef) {
+        const baseClauseRef = clauseRef.replace(/^table\s+/i, '');
+        text = text.replace(new RegExp(`^${baseClauseRef.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*[–—:.-]?\\s*`), '').trim();
+      }
+      
+      // Escape pipe characters in cell content (markdown table separator)
+      cellTexts.push(text.replace(/\|/g, '\\|'));
+    }
+    
+    if (cellTexts.length > 0) {
+      formattedRows.push('| ' + cellTexts.join(' | ') + ' |');
+    }
+  }
+  
+  // Add separator row after header (if we have at least 2 rows)
+  if (formattedRows.length > 1) {
+    const columnCount = (formattedRows[0].match(/\|/g) || []).length - 1;
+    if (columnCount > 0) {
+      formattedRows.splice(1, 0, '|' + ' --- |'.repeat(columnCount));
+    }
+  }
+  
+  return formattedRows.join('\n');
+}
+
 /**
  * Extract all tables from HTML and convert to LTE format
  */
@@ -299,6 +347,15 @@ export function extractTables(html: string, paragraphs: string[]): ExtractedTabl
   const root = document.createElement('div');
   root.innerHTML = html;
   
+  return extractTablesFromRoot(root, paragraphs);
+}
+
+/**
+ * Extract all tables under an already-parsed root element (e.g. a linkedom body on the server)
+ * tableIndex on each result is the table's position in root.querySelectorAll('table');
+ * firstAutoNumber continues "Table-AUTO-NNN" numbering when a document is extracted in parts
+ */
+export function extractTablesFromRoot(root: Element, paragraphs: string[], firstAutoNumber: number = 1): ExtractedTable[] {
   // Find all tables
   const tables = Array.from(root.querySelectorAll('table')) as HTMLTableElement[];
   
@@ -311,7 +368,7 @@ export function extractTables(html: string, paragraphs: string[]): ExtractedTabl
   const elementDomIndices = new Map<Element, number>();
   
   function assignDomIndices(node: Node): void {
-    if (node.nodeType === Node.ELEMENT_NODE) {
+    if (node.nodeType === ELEMENT_NODE) {
       const el = node as Element;
       elementDomIndices.set(el, domIndexCounter++);
     }
@@ -341,7 +398,7 @@ export function extractTables(html: string, paragraphs: string[]): ExtractedTabl
   });
   
   const extractedTables: ExtractedTable[] = [];
-  let autoCounter = 1;
+  let autoCounter = firstAutoNumber;
   
   tables.forEach((table, tableIdx) => {
     // Skip if table has zero rows
@@ -356,7 +413,8 @@ export function extractTables(html: string, paragraphs: string[]): ExtractedTabl
     const tableDomIndex = tableDomIndices[tableIdx];
     
     // Detect caption
-    const caption = detectTableCaption(table, blocks, tableDomIndex);
+    const previousTableDomIndex = tableIdx > 0 ? tableDomIndices[tableIdx - 1] : -1;
+    const caption = detectTableCaption(table, blocks, tableDomIndex, previousTableDomIndex);
     
     let tableId: string;
     let title: string;
@@ -419,6 +477,7 @@ export function extractTables(html: string, paragraphs: string[]): ExtractedTabl
     extractedTables.push({
       id: tableId,
       title,
+      tableIndex: tableIdx,
       paragraphIndex,
       rows,
       cols,
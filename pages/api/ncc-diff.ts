@@ -0,0 +1,138 @@
+/**
+ * API Endpoint: POST /api/ncc-diff
+ *
+ * Compares two NCC editions clause by clause
+ * File fields: old, new - each a CSV export (.csv) or an NCC DOCX (.docx)
+ * Fields: volume (for DOCX inputs), format ("json" summary + changes, or "csv" change log),
+ *         include_unchanged ("true" to list unchanged clauses too)
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import formidable, { File as FormidableFile } from 'formidable';
+import fs from 'fs';
+
+export const config = {
+  api: {
+    bodyParser: false,
+    // The change log is streamed as a file download
+    responseLimit: false,
+  },
+};
+
+import { extractNCCRows, convertToCSVFormat, writeCSVTable, CSVRow } from '@/lib/ncc-pipeline';
+import { diffEditions, changeLogRows, parseCSV, EditionDiff, CHANGE_LOG_COLUMNS } from '@/lib/ncc-diff';
+import { NCC_VOLUMES, normalizeVolumeLabel } from '@/lib/ncc-volumes';
+
+type ErrorResponse = {
+  error: string;
+};
+
+/**
+ * CSV rows for one side of the diff: parsed from a CSV export or converted from DOCX
+ */
+async function loadEditionRows(file: FormidableFile, volumeLabel: string): Promise<CSVRow[]> {
+  const filename = file.originalFilename || '';
+  if (filename.endsWith('.csv')) {
+    return parseCSV(fs.readFileSync(file.filepath, 'utf-8'));
+  }
+  const { rows, edition } = await extractNCCRows(fs.readFileSync(file.filepath), { volumeLabel, splitOversized: true });
+  return convertToCSVFormat(rows, volumeLabel, filename, edition);
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<EditionDiff | ErrorResponse>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const uploaded: FormidableFile[] = [];
+
+  try {
+    // Parse multipart form data
+    const form = formidable({
+      maxFileSize: 50 * 1024 * 1024, // 50MB - CSV exports are larger than the DOCX
+      keepExtensions: true,
+    });
+
+    const [fields, files] = await new Promise<[formidable.Fields, formidable.Files]>(
+      (resolve, reject) => {
+        form.parse(req, (err, fields, files) => {
+          if (err) reject(err);
+          else resolve([fields, files]);
+        });
+      }
+    );
+
+    const oldFile = (files.old as FormidableFile[] | undefined)?.[0];
+    const newFile = (files.new as FormidableFile[] | undefined)?.[0];
+    if (oldFile) uploaded.push(oldFile);
+    if (newFile) uploaded.push(newFile);
+
+    if (!oldFile || !newFile) {
+      return res.status(400).json({ error: 'Both "old" and "new" files are required' });
+    }
+
+    // Validate file types
+    for (const file of [oldFile, newFile]) {
+      if (!/\.(csv|docx)$/.test(file.originalFilename || '')) {
+        return res.status(400).json({ error: 'Only .csv and .docx files are supported' });
+      }
+    }
+
+    const volume = Array.isArray(fields.volume) ? fields.volume[0] : fields.volume || 'Vol1';
+    const volumeLabel = normalizeVolumeLabel(volume);
+    if (!volumeLabel) {
+      return res.status(400).json({ error: `Unknown volume "${volume}" (use ${NCC_VOLUMES.map(v => v.label).join(', ')})` });
+    }
+    const format = Array.isArray(fields.format) ? fields.format[0] : fields.format || 'json';
+    const includeUnchanged = (Array.isArray(fields.include_unchanged) ? fields.include_unchanged[0] : fields.include_unchanged) === 'true';
+
+    console.log(`[NCC Diff] Comparing ${oldFile.originalFilename} -> ${newFile.originalFilename}`);
+
+    const oldRows = await loadEditionRows(oldFile, volumeLabel);
+    const newRows = await loadEditionRows(newFile, volumeLabel);
+    const diff = diffEditions(oldRows, newRows, { includeUnchanged });
+
+    console.log(`[NCC Diff] ${JSON.stringify(diff.summary)}`);
+
+    if (format === 'csv') {
+      const filename = `ncc_changelog_${Date.now()}.csv`;
+
+      res.status(200);
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.setHeader('X-NCC-Diff-Summary', JSON.stringify(diff.summary));
+
+      await writeCSVTable(changeLogRows(diff), CHANGE_LOG_COLUMNS, res);
+      res.end();
+      return;
+    }
+
+    return res.status(200).json(diff);
+
+  } catch (error: any) {
+    console.error('[NCC Diff] Error:', error.message);
+    console.error(error.stack);
+
+    // Once streaming has started the status is already sent; cut the download short instead
+    if (res.headersSent) {
+      res.destroy(error);
+      return;
+    }
+
+    return res.status(500).json({
+      error: error.message || 'An error occurred during comparison',
+    });
+  } finally {
+    // Cleanup temp files
+    for (const file of uploaded) {
+      try {
+        fs.unlinkSync(file.filepath);
+      } catch (err) {
+        console.warn('[NCC Diff] Failed to delete temp file:', err);
+      }
+    }
+  }
+}
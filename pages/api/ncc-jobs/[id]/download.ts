@@ -0,0 +1,73 @@
+/**
+ * API Endpoint: GET /api/ncc-jobs/[id]/download
+ *
+ * Streams a completed job's output file from output/
+ * Query: file ("qa-html" or "qa-json" for the QA report instead of the output file)
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import fs from 'fs';
+import { getNCCJob, getNCCJobOutputPath, NCCJobFormat } from '@/lib/ncc-jobs';
+
+export const config = {
+  api: {
+    responseLimit: false,
+  },
+};
+
+const OUTPUT_CONTENT_TYPES: Record<NCCJobFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  excel: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  jsonl: 'application/x-ndjson; charset=utf-8',
+  arrow: 'application/vnd.apache.arrow.file',
+  sqlite: 'application/vnd.sqlite3',
+  chunks: 'application/x-ndjson; charset=utf-8',
+};
+
+type ErrorResponse = {
+  error: string;
+};
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ErrorResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const id = Array.isArray(req.query.id) ? req.query.id[0] : req.query.id;
+  const job = id ? getNCCJob(id) : undefined;
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+
+  const fileField = Array.isArray(req.query.file) ? req.query.file[0] : req.query.file;
+  const file = fileField === 'qa-html' || fileField === 'qa-json' ? fileField : 'output';
+  const outputPath = getNCCJobOutputPath(job, file);
+  if (!outputPath) {
+    return res.status(409).json({ error: `Job is ${job.status}, no ${file === 'output' ? 'output' : 'QA report'} to download` });
+  }
+
+  res.status(200);
+  if (file === 'qa-html') {
+    // Opened in the browser rather than downloaded
+    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+  } else if (file === 'qa-json') {
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${job.qaJsonFile}"`);
+  } else {
+    res.setHeader('Content-Type', OUTPUT_CONTENT_TYPES[job.format]);
+    res.setHeader('Content-Disposition', `attachment; filename="${job.outputFile}"`);
+    if (job.schemaVersion) res.setHeader('X-NCC-Schema-Version', job.schemaVersion);
+  }
+  res.setHeader('Content-Length', fs.statSync(outputPath).size);
+  if (job.stats) res.setHeader('X-NCC-Stats', JSON.stringify(job.stats));
+
+  const stream = fs.createReadStream(outputPath);
+  stream.on('error', err => {
+    console.error('[NCC Jobs] Download failed:', err.message);
+    res.destroy(err);
+  });
+  stream.pipe(res);
+}
@@ -0,0 +1,29 @@
+/**
+ * API Endpoint: GET /api/ncc-jobs/[id]
+ *
+ * Status and per-phase progress of one job
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getNCCJob, NCCJob } from '@/lib/ncc-jobs';
+
+type ErrorResponse = {
+  error: string;
+};
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<{ job: NCCJob } | ErrorResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const id = Array.isArray(req.query.id) ? req.query.id[0] : req.query.id;
+  const job = id ? getNCCJob(id) : undefined;
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+
+  return res.status(200).json({ job });
+}
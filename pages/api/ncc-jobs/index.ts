@@ -0,0 +1,134 @@
+/**
+ * API Endpoint: /api/ncc-jobs
+ *
+ * POST - Queue an NCC DOCX for background processing, returns the job id
+ *        CSV fields: newlines (keep|flatten), bom (true), delimiter (comma|semicolon|tab|pipe)
+ *        Chunk fields (format=chunks): chunk_tokens, chunk_overlap
+ * GET  - List all jobs (newest first) with per-phase progress
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import formidable, { File as FormidableFile } from 'formidable';
+import fs from 'fs';
+
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+import { submitNCCJob, listNCCJobs, NCCJob, NCCJobFormat, NCC_JOB_FORMATS } from '@/lib/ncc-jobs';
+import { NCC_VOLUMES, normalizeVolumeLabel } from '@/lib/ncc-volumes';
+import { parseCSVFormat, CSV_DELIMITERS } from '@/lib/ncc-pipeline';
+import { parseRagChunkOptions } from '@/lib/ncc-rag';
+
+type ErrorResponse = {
+  error: string;
+};
+
+type SubmitResponse = {
+  jobId: string;
+  job: NCCJob;
+};
+
+type ListResponse = {
+  jobs: NCCJob[];
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SubmitResponse | ListResponse | ErrorResponse>
+) {
+  if (req.method === 'GET') {
+    return res.status(200).json({ jobs: listNCCJobs() });
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    // Parse multipart form data
+    const form = formidable({
+      maxFileSize: 20 * 1024 * 1024, // 20MB
+      keepExtensions: true,
+    });
+
+    const [fields, files] = await new Promise<[formidable.Fields, formidable.Files]>(
+      (resolve, reject) => {
+        form.parse(req, (err, fields, files) => {
+          if (err) reject(err);
+          else resolve([fields, files]);
+        });
+      }
+    );
+
+    const fileArray = files.file as FormidableFile[];
+    const file = fileArray?.[0];
+
+    if (!file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    // Validate file type
+    if (!file.originalFilename?.endsWith('.docx')) {
+      return res.status(400).json({ error: 'Only .docx files are supported' });
+    }
+
+    const volume = Array.isArray(fields.volume) ? fields.volume[0] : fields.volume || 'Vol1';
+    const volumeLabel = normalizeVolumeLabel(volume);
+    if (!volumeLabel) {
+      return res.status(400).json({ error: `Unknown volume "${volume}" (use ${NCC_VOLUMES.map(v => v.label).join(', ')})` });
+    }
+    const formatField = Array.isArray(fields.format) ? fields.format[0] : fields.format || 'excel';
+    if (NCC_JOB_FORMATS.indexOf(formatField as NCCJobFormat) === -1) {
+      return res.status(400).json({ error: `Unsupported format "${formatField}" (use ${NCC_JOB_FORMATS.join(', ')})` });
+    }
+    const format = formatField as NCCJobFormat;
+
+    // Oversized clauses are split into continuation rows; only Excel has a cell limit, the other formats may opt out
+    const overflowField = Array.isArray(fields.overflow) ? fields.overflow[0] : fields.overflow || 'split';
+
+    // CSV dialect: newlines=keep for multiline fields, bom=true for Excel, delimiter=comma|semicolon|tab|pipe
+    const newlinesField = Array.isArray(fields.newlines) ? fields.newlines[0] : fields.newlines;
+    const bomField = Array.isArray(fields.bom) ? fields.bom[0] : fields.bom;
+    const delimiterField = Array.isArray(fields.delimiter) ? fields.delimiter[0] : fields.delimiter;
+    const csvFormat = parseCSVFormat({ newlines: newlinesField, bom: bomField, delimiter: delimiterField });
+    if (!csvFormat) {
+      return res.status(400).json({ error: `Unsupported delimiter (use ${Object.keys(CSV_DELIMITERS).join(', ')})` });
+    }
+
+    // RAG chunks: token budget per chunk and overlap between chunks
+    const chunkTokensField = Array.isArray(fields.chunk_tokens) ? fields.chunk_tokens[0] : fields.chunk_tokens;
+    const chunkOverlapField = Array.isArray(fields.chunk_overlap) ? fields.chunk_overlap[0] : fields.chunk_overlap;
+    const ragChunks = parseRagChunkOptions({ tokens: chunkTokensField, overlap: chunkOverlapField });
+    if (!ragChunks) {
+      return res.status(400).json({ error: 'Invalid chunk_tokens or chunk_overlap (whole numbers, chunk_tokens >= 64, overlap < half of it)' });
+    }
+
+    const job = submitNCCJob({
+      buffer: fs.readFileSync(file.filepath),
+      sourceFile: file.originalFilename,
+      volume: volumeLabel,
+      format,
+      splitOversized: format === 'excel' || overflowField !== 'none',
+      csvFormat,
+      ragChunks,
+    });
+
+    // Cleanup temp file
+    try {
+      fs.unlinkSync(file.filepath);
+    } catch (err) {
+      console.warn('[NCC Jobs] Failed to delete temp file:', err);
+    }
+
+    return res.status(202).json({ jobId: job.id, job });
+
+  } catch (error: any) {
+    console.error('[NCC Jobs] Error:', error.message);
+    return res.status(500).json({
+      error: error.message || 'Failed to queue job',
+    });
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * API Endpoint: POST /api/process-ncc-batch
+ *
+ * Converts several NCC volumes into one combined CSV dataset plus manifest
+ * File fields: vol1, vol2, vol3 and (optional) housing - at least one is required
+ * CSV fields: newlines (keep|flatten), bom (true), delimiter (comma|semicolon|tab|pipe)
+ * sqlite (true): also write the dataset as a SQLite database
+ * chunks (true): also write RAG chunks; chunk_tokens and chunk_overlap set their size
+ * Responds with a zip of the dataset (and database, chunks), manifest, QA report and figure images; all are also kept under output/
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import formidable, { File as FormidableFile } from 'formidable';
+import fs from 'fs';
+import path from 'path';
+import JSZip from 'jszip';
+
+export const config = {
+  api: {
+    bodyParser: false,
+    // The zip is streamed rather than buffered into one response body
+    responseLimit: false,
+  },
+};
+
+import { processNCCBatch, checkBatchEditions, NCCBatchInput, BATCH_MANIFEST_FILE } from '@/lib/ncc-batch';
+import { NCC_VOLUMES } from '@/lib/ncc-volumes';
+import { parseCSVFormat, CSV_DELIMITERS } from '@/lib/ncc-pipeline';
+import { parseRagChunkOptions } from '@/lib/ncc-rag';
+import { qualityHeaderValue, qualityReportHeaderValue } from '@/lib/ncc-qa';
+
+type ErrorResponse = {
+  error: string;
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ErrorResponse>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const uploaded: FormidableFile[] = [];
+
+  try {
+    // Parse multipart form data
+    const form = formidable({
+      maxFileSize: 20 * 1024 * 1024, // 20MB per volume
+      keepExtensions: true,
+    });
+
+    const [fields, files] = await new Promise<[formidable.Fields, formidable.Files]>(
+      (resolve, reject) => {
+        form.parse(req, (err, fields, files) => {
+          if (err) reject(err);
+          else resolve([fields, files]);
+        });
+      }
+    );
+
+    const inputs: NCCBatchInput[] = [];
+    for (const volume of NCC_VOLUMES) {
+      const fileArray = files[volume.field] as FormidableFile[] | undefined;
+      const file = fileArray?.[0];
+      if (!file) continue;
+      uploaded.push(file);
+
+      // Validate file type
+      if (!file.originalFilename?.endsWith('.docx')) {
+        return res.status(400).json({ error: `Only .docx files are supported (${volume.field})` });
+      }
+      inputs.push({
+        volume: volume.label,
+        buffer: fs.readFileSync(file.filepath),
+        sourceFile: file.originalFilename,
+      });
+    }
+
+    if (inputs.length === 0) {
+      return res.status(400).json({
+        error: `No files uploaded (expected ${NCC_VOLUMES.map(v => v.field).join(', ')})`,
+      });
+    }
+
+    // One dataset has one doc_id: reject volumes of different editions before converting them
+    const editionError = await checkBatchEditions(inputs);
+    if (editionError) {
+      return res.status(400).json({ error: editionError });
+    }
+
+    // Oversized clauses are split into continuation rows unless overflow=none
+    const overflowField = Array.isArray(fields.overflow) ? fields.overflow[0] : fields.overflow || 'split';
+
+    // CSV dialect: newlines=keep for multiline fields, bom=true for Excel, delimiter=comma|semicolon|tab|pipe
+    const newlinesField = Array.isArray(fields.newlines) ? fields.newlines[0] : fields.newlines;
+    const bomField = Array.isArray(fields.bom) ? fields.bom[0] : fields.bom;
+    const delimiterField = Array.isArray(fields.delimiter) ? fields.delimiter[0] : fields.delimiter;
+    const csvFormat = parseCSVFormat({ newlines: newlinesField, bom: bomField, delimiter: delimiterField });
+    if (!csvFormat) {
+      return res.status(400).json({ error: `Unsupported delimiter (use ${Object.keys(CSV_DELIMITERS).join(', ')})` });
+    }
+
+    const sqliteField = Array.isArray(fields.sqlite) ? fields.sqlite[0] : fields.sqlite;
+
+    // RAG chunks: token budget per chunk and overlap between chunks
+    const chunksField = Array.isArray(fields.chunks) ? fields.chunks[0] : fields.chunks;
+    const chunkTokensField = Array.isArray(fields.chunk_tokens) ? fields.chunk_tokens[0] : fields.chunk_tokens;
+    const chunkOverlapField = Array.isArray(fields.chunk_overlap) ? fields.chunk_overlap[0] : fields.chunk_overlap;
+    const ragChunks = parseRagChunkOptions({ tokens: chunkTokensField, overlap: chunkOverlapField });
+    if (!ragChunks) {
+      return res.status(400).json({ error: 'Invalid chunk_tokens or chunk_overlap (whole numbers, chunk_tokens >= 64, overlap < half of it)' });
+    }
+
+    const runName = `ncc_batch_${Date.now()}`;
+    const { datasetPath, manifestPath, manifest } = await processNCCBatch(inputs, {
+      outputDir: path.join(process.cwd(), 'output', runName),
+      splitOversized: overflowField !== 'none',
+      csvFormat,
+      sqlite: sqliteField === 'true' || sqliteField === '1',
+      ragChunks: chunksField === 'true' || chunksField === '1' ? ragChunks : undefined,
+    });
+
+    const zip = new JSZip();
+    zip.file(manifest.dataset_file, fs.createReadStream(datasetPath));
+    zip.file(BATCH_MANIFEST_FILE, fs.createReadStream(manifestPath));
+    if (manifest.sqlite_file) {
+      zip.file(manifest.sqlite_file, fs.createReadStream(path.join(path.dirname(datasetPath), manifest.sqlite_file)));
+    }
+    if (manifest.chunks_file) {
+      zip.file(manifest.chunks_file, fs.createReadStream(path.join(path.dirname(datasetPath), manifest.chunks_file)));
+    }
+    for (const name of manifest.qa_report_files) {
+      zip.file(name, fs.createReadStream(path.join(path.dirname(datasetPath), name)));
+    }
+    if (manifest.images_dir) {
+      const imagesPath = path.join(path.dirname(datasetPath), manifest.images_dir);
+      for (const name of fs.readdirSync(imagesPath)) {
+        zip.file(`${manifest.images_dir}/${name}`, fs.createReadStream(path.join(imagesPath, name)));
+      }
+    }
+
+    res.status(200);
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${manifest.doc_id}_${runName}.zip"`);
+    res.setHeader('X-NCC-Stats', JSON.stringify({ totalRows: manifest.row_count, coverage: manifest.coverage }));
+    res.setHeader('X-NCC-QA-Summary', qualityHeaderValue(manifest.qa));
+    res.setHeader('X-NCC-QA-Report', qualityReportHeaderValue(`output/${runName}`, { jsonFile: manifest.qa_report_files[0], htmlFile: manifest.qa_report_files[1] }));
+    res.setHeader('X-NCC-Schema-Version', manifest.schema_version);
+
+    await new Promise<void>((resolve, reject) => {
+      zip
+        .generateNodeStream({ type: 'nodebuffer', streamFiles: true, compression: 'DEFLATE' })
+        .on('error', reject)
+        .pipe(res)
+        .on('finish', () => resolve());
+    });
+
+  } catch (error: any) {
+    console.error('[NCC Batch] Error:', error.message);
+    console.error(error.stack);
+
+    // Once streaming has started the status is already sent; cut the download short instead
+    if (res.headersSent) {
+      res.destroy(error);
+      return;
+    }
+
+    return res.status(500).json({
+      error: error.message || 'An error occurred during processing',
+    });
+  } finally {
+    // Cleanup temp files
+    for (const file of uploaded) {
+      try {
+        fs.unlinkSync(file.filepath);
+      } catch (err) {
+        console.warn('[NCC Batch] Failed to delete temp file:', err);
+      }
+    }
+  }
+}
@@ -1,12 +1,14 @@
 /**
  * Verify CSV Identity Fields
  * 
- * Tests that identity fields (applies_to_volume, section_code, part_code, indexable)
+ * Tests that the CSV header matches the NCC row schema (lib/ncc-schema) and that
+ * identity fields (applies_to_volume, section_code, part_code, indexable)
  * are properly populated in the generated CSV.
  */
 
 import fs from 'fs';
 import path from 'path';
+import { NCC_COLUMN_NAMES, NCC_SCHEMA_VERSION } from '@/lib/ncc-schema';
 
 interface CSVRow {
   [key: string]: string;
@@ -49,6 +51,20 @@ function verifyCSV(csvPath: string) {
   
   console.log(`📊 Total rows: ${rows.length}\n`);
   
+  // Check the header against the schema
+  const headers = csvContent.split('\n')[0].split(',').map(h => h.trim().replace(/^"|"$/g, ''));
+  const missingColumns = NCC_COLUMN_NAMES.filter(column => headers.indexOf(column) === -1);
+  const extraColumns = headers.filter(header => (NCC_COLUMN_NAMES as string[]).indexOf(header) === -1);
+  if (missingColumns.length === 0 && extraColumns.length === 0 && headers.join(',') === NCC_COLUMN_NAMES.join(',')) {
+    console.log(`✅ Header matches schema ${NCC_SCHEMA_VERSION} (${headers.length} columns)`);
+  } else {
+    console.log(`❌ Header does not match schema ${NCC_SCHEMA_VERSION}:`);
+    if (missingColumns.length > 0) console.log(`  Missing: ${missingColumns.join(', ')}`);
+    if (extraColumns.length > 0) console.log(`  Not in schema: ${extraColumns.join(', ')}`);
+    if (missingColumns.length === 0 && extraColumns.length === 0) console.log('  Columns are out of order');
+  }
+  console.log('');
+  
   // Check applies_to_volume
   const hasVolume = rows.filter(r => r.applies_to_volume && r.applies_to_volume !== '' && r.applies_to_volume !== 'NaN').length;
   const volumePercent = (hasVolume / rows.length * 100).toFixed(1);
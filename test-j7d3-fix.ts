@@ -6,8 +6,8 @@
  * - Subsequent unlabeled paragraphs that should aggregate
  */
 
-// Test the fixed regex patterns
-const stateVariationRegex = /^(SA|NSW|VIC|QLD|WA|TAS|ACT|NT)\s+([A-Z]{1,2}\d+\s*[A-Z]?\d*(?:\(\d+\))?)(?=\b|to\b|\s|$)/i;
+// The regex prototyped here now lives in the shared state variation parser
+import { parseStateVariation } from './lib/ncc-state-variations';
 
 console.log('='.repeat(80));
 console.log('Testing J7D3 State Variation Fix');
@@ -50,15 +50,13 @@ for (const testCase of testCases) {
   console.log(`Test: ${testCase.description}`);
   console.log(`  Input: "${testCase.input}"`);
   
-  const match = testCase.input.match(stateVariationRegex);
+  const match = parseStateVariation(testCase.input);
   
   if (testCase.expected.match) {
     if (match) {
-      const state = match[1];
-      const rawLabel = match[2];
-      const normalizedLabel = rawLabel.replace(/\s+/g, '');
-      const rest = testCase.input.substring(match[0].length).trim();
-      const body = rest.replace(/^[–—:-]\s*/, '').trim();
+      const state = match.state;
+      const normalizedLabel = match.label;
+      const body = match.body;
       
       const matchesExpected = 
         state === testCase.expected.state &&
@@ -85,7 +83,7 @@ for (const testCase of testCases) {
       passCount++;
     } else {
       console.log(`  ❌ FAIL - Matched when no match expected`);
-      console.log(`     Matched: "${match[0]}"`);
+      console.log(`     Matched: "${match.state} ${match.label}"`);
       failCount++;
     }
   }
@@ -32,6 +32,7 @@ export interface UploadResponse {
 export interface ExtractedTable {
   id: string;
   title: string;
+  tableIndex: number; // Position among all tables in the document
   paragraphIndex: number; // -1 if unknown
   rows: number;
   cols: number;